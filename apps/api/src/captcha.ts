@@ -0,0 +1,26 @@
+export type CaptchaResult = { success: true } | { success: false; error: string };
+
+/** Checks the token a CAPTCHA widget gave the landing form; one implementation per provider. */
+export type CaptchaVerifier = {
+  name: string;
+  verify: (token: string, remoteIp: string | null) => Promise<CaptchaResult>;
+};
+
+// Local stand-in for development and tests: any token passes except "fail".
+export const stubCaptchaVerifier: CaptchaVerifier = {
+  name: "stub",
+  verify: async (token) => (token === "fail" ? { success: false, error: "Stub CAPTCHA rejected the token" } : { success: true })
+};
+
+/** The verifier named by CAPTCHA_PROVIDER, or null when CAPTCHA is off. */
+export function createCaptchaVerifier(provider: string): CaptchaVerifier | null {
+  switch (provider) {
+    case "":
+    case "none":
+      return null;
+    case "stub":
+      return stubCaptchaVerifier;
+    default:
+      throw new Error(`Unknown CAPTCHA_PROVIDER "${provider}"`);
+  }
+}
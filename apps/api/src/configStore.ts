@@ -2,6 +2,7 @@ import type { Pool } from "pg";
 import { v4 as uuidv4 } from "uuid";
 import { ConfigSchema, type Config } from "@lead_lander/config-schema";
 import { env } from "./env";
+import { configCacheLookupsTotal } from "./metrics";
 
 const cache = new Map<string, { expiresAt: number; value: Config }>();
 
@@ -38,8 +39,10 @@ export function createConfigStore(pool: Pool): ConfigStore {
     async getClientConfig(clientId: string) {
       const cached = cache.get(clientId);
       if (cached && cached.expiresAt > Date.now()) {
+        configCacheLookupsTotal.inc({ result: "hit" });
         return cached.value;
       }
+      configCacheLookupsTotal.inc({ result: "miss" });
 
       const [schools, campuses, programs, landingPages, crmConnections, quizQuestions, quizAnswerOptions] = await Promise.all([
         pool.query("SELECT * FROM schools WHERE client_id = $1", [clientId]),
@@ -65,8 +68,14 @@ export function createConfigStore(pool: Pool): ConfigStore {
             : row.branding,
           compliance: row.compliance,
           crmConnectionId: row.crm_connection_id,
+          defaultPhoneCountry: row.default_phone_country || undefined,
+          dedupe: row.dedupe_policy || undefined,
+          additionalCrmConnectionIds: row.additional_crm_connection_ids || [],
+          routingRules: row.routing_rules || [],
           footerContent: row.footer_content || undefined,
-          thankYou: row.thank_you || undefined
+          thankYou: row.thank_you || undefined,
+          autoresponder: row.autoresponder || undefined,
+          notificationTemplate: row.notification_template || undefined
         })),
         campuses: campuses.rows.map((row) => ({
           id: row.id,
@@ -108,7 +117,8 @@ export function createConfigStore(pool: Pool): ConfigStore {
               faqs: true
             }
           },
-          useQuizRouting: row.use_quiz_routing || false
+          useQuizRouting: row.use_quiz_routing || false,
+          autoresponder: row.autoresponder || undefined
         })),
         landingPages: landingPages.rows.map((row) => ({
           id: row.id,
@@ -121,7 +131,10 @@ export function createConfigStore(pool: Pool): ConfigStore {
         crmConnections: crmConnections.rows.map((row) => ({
           id: row.id,
           type: row.type,
-          config: row.config || undefined
+          config: row.config || undefined,
+          delivery: row.delivery || undefined,
+          statusWebhook: row.status_webhook || undefined,
+          payload: row.payload_format || undefined
         })),
         quizQuestions: quizQuestions.rows.map((row) => ({
           id: row.id,
@@ -197,7 +210,9 @@ export function createConfigStore(pool: Pool): ConfigStore {
 
         await client.query(
           `UPDATE schools
-           SET slug = $1, name = $2, branding = $3, compliance = $4, crm_connection_id = $5, thank_you = $6, updated_at = $7
+           SET slug = $1, name = $2, branding = $3, compliance = $4, crm_connection_id = $5, thank_you = $6, updated_at = $7,
+               additional_crm_connection_ids = $10, routing_rules = $11, autoresponder = $12,
+               notification_template = $13, default_phone_country = $14, dedupe_policy = $15
            WHERE id = $8 AND client_id = $9`,
           [
             school.slug,
@@ -208,7 +223,13 @@ export function createConfigStore(pool: Pool): ConfigStore {
             school.thankYou || null,
             new Date(),
             schoolId,
-            clientId
+            clientId,
+            JSON.stringify(school.additionalCrmConnectionIds || []),
+            JSON.stringify(school.routingRules || []),
+            school.autoresponder ? JSON.stringify(school.autoresponder) : null,
+            school.notificationTemplate ? JSON.stringify(school.notificationTemplate) : null,
+            school.defaultPhoneCountry,
+            JSON.stringify(school.dedupe)
           ]
         );
 
@@ -218,8 +239,8 @@ export function createConfigStore(pool: Pool): ConfigStore {
 
         for (const program of programs) {
           await client.query(
-          `INSERT INTO programs (id, client_id, school_id, slug, name, landing_copy, lead_form_config, question_overrides, available_campuses, template_type, hero_image, hero_background_color, hero_background_image, duration, salary_range, placement_rate, graduation_rate, highlights, testimonials, faqs, stats, sections_config, created_at, updated_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $23)
+          `INSERT INTO programs (id, client_id, school_id, slug, name, landing_copy, lead_form_config, question_overrides, available_campuses, template_type, hero_image, hero_background_color, hero_background_image, duration, salary_range, placement_rate, graduation_rate, highlights, testimonials, faqs, stats, sections_config, created_at, updated_at, autoresponder)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $23, $24)
            ON CONFLICT (id) DO UPDATE SET
            client_id = EXCLUDED.client_id,
            school_id = EXCLUDED.school_id,
@@ -242,6 +263,7 @@ export function createConfigStore(pool: Pool): ConfigStore {
            faqs = EXCLUDED.faqs,
            stats = EXCLUDED.stats,
            sections_config = EXCLUDED.sections_config,
+           autoresponder = EXCLUDED.autoresponder,
            updated_at = EXCLUDED.updated_at`,
             [
               program.id,
@@ -276,7 +298,8 @@ export function createConfigStore(pool: Pool): ConfigStore {
                   faqs: true
                 }
               },
-              new Date()
+              new Date(),
+              program.autoresponder ? JSON.stringify(program.autoresponder) : null
             ]
           );
         }
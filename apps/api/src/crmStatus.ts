@@ -0,0 +1,40 @@
+import {
+  DEFAULT_SIGNATURE_HEADER,
+  DEFAULT_TIMESTAMP_HEADER,
+  verifySignature,
+  type SignatureVerification
+} from "@lead_lander/webhook-signing";
+import { LeadLifecycleStatusSchema, type CrmStatusWebhook, type LeadLifecycleStatus } from "@lead_lander/config-schema";
+
+export type StatusWebhookVerification = SignatureVerification | { ok: false; reason: "missing_secret" };
+
+export function verifyStatusWebhook(
+  settings: CrmStatusWebhook,
+  rawBody: string,
+  getHeader: (name: string) => string | undefined
+): StatusWebhookVerification {
+  const secret = settings.secretEnv ? process.env[settings.secretEnv] : settings.secret;
+  if (!secret) {
+    return { ok: false, reason: "missing_secret" };
+  }
+
+  return verifySignature({
+    secret,
+    body: rawBody,
+    signature: getHeader(settings.signatureHeader || DEFAULT_SIGNATURE_HEADER),
+    timestamp: getHeader(settings.timestampHeader || DEFAULT_TIMESTAMP_HEADER)
+  });
+}
+
+/**
+ * Maps the status a CRM reports to a lifecycle status: the connection's statusMap first, then the lifecycle
+ * names themselves in any case or spacing ("Appointment Set" -> appointment_set). Unknown statuses return null.
+ */
+export function mapLifecycleStatus(settings: CrmStatusWebhook, crmStatus: string): LeadLifecycleStatus | null {
+  const mapped = settings.statusMap[crmStatus];
+  if (mapped) return mapped;
+
+  const normalized = crmStatus.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  const parsed = LeadLifecycleStatusSchema.safeParse(normalized);
+  return parsed.success ? parsed.data : null;
+}
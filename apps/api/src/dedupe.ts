@@ -0,0 +1,150 @@
+import type { Pool, PoolClient } from "pg";
+import type { DedupePolicy } from "@lead_lander/config-schema";
+
+// An identical lead resubmitted this soon is a double click or a client retry, whatever the school's policy.
+const RETRY_WINDOW_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DedupeLead = {
+  clientId: string;
+  schoolId: string;
+  programId: string;
+  email: string;
+  phoneE164: string | null;
+  idempotencyKey: string;
+  answers: Record<string, unknown>;
+};
+
+export type DuplicateMatch = {
+  id: string;
+  created_at: Date;
+  last_step_completed: number | null;
+};
+
+export type LeadPersistOutcome =
+  | { kind: "created"; submissionId: string }
+  | { kind: "repeat"; submissionId: string; match: DuplicateMatch }
+  | { kind: "retry" | "dropped" | "merged"; submissionId: string; match: DuplicateMatch };
+
+async function findRetry(db: PoolClient, lead: DedupeLead, now: Date): Promise<DuplicateMatch | null> {
+  const result = await db.query(
+    `SELECT id, created_at, last_step_completed
+     FROM submissions
+     WHERE client_id = $1 AND idempotency_key = $2 AND created_at >= $3
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [lead.clientId, lead.idempotencyKey, new Date(now.getTime() - RETRY_WINDOW_MS)]
+  );
+  return result.rows[0] || null;
+}
+
+// The `matchOn` keys this lead has a value for; a lead without a phone is still matched on email.
+function leadMatchKeys(policy: DedupePolicy, lead: Pick<DedupeLead, "phoneE164">) {
+  return policy.matchOn.filter((key) => key === "email" || Boolean(lead.phoneE164));
+}
+
+/**
+ * The advisory lock for a lead's dedupe check. Leads that could match each other must share it: every
+ * match shares the email when it is a key, otherwise the phone.
+ */
+export function dedupeLockKey(policy: DedupePolicy, lead: Pick<DedupeLead, "clientId" | "email" | "phoneE164">) {
+  const keys = leadMatchKeys(policy, lead);
+  const value = keys.includes("email") || keys.length === 0 ? lead.email.toLowerCase() : `phone:${lead.phoneE164}`;
+  return `${lead.clientId}|${value}`;
+}
+
+/** The newest earlier submission the policy treats as the same person, if any. */
+export async function findDuplicate(
+  db: Pick<PoolClient, "query">,
+  policy: DedupePolicy,
+  lead: Omit<DedupeLead, "idempotencyKey" | "answers">,
+  now: Date
+): Promise<DuplicateMatch | null> {
+  const matchOn = leadMatchKeys(policy, lead);
+  if (matchOn.length === 0) {
+    return null;
+  }
+
+  const values: unknown[] = [lead.clientId];
+  // Quarantined leads are not real prospects to drop or merge into.
+  const clauses = ["client_id = $1", "status <> 'quarantined'"];
+  const pushValue = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  if (matchOn.includes("email")) {
+    clauses.push(`LOWER(email) = ${pushValue(lead.email.toLowerCase())}`);
+  }
+  if (matchOn.includes("phone")) {
+    clauses.push(`phone_e164 = ${pushValue(lead.phoneE164)}`);
+  }
+  if (policy.scope !== "client") {
+    clauses.push(`school_id = ${pushValue(lead.schoolId)}`);
+  }
+  if (policy.scope === "program") {
+    clauses.push(`program_id = ${pushValue(lead.programId)}`);
+  }
+  if (policy.windowDays) {
+    clauses.push(`created_at >= ${pushValue(new Date(now.getTime() - policy.windowDays * DAY_MS))}`);
+  }
+
+  const result = await db.query(
+    `SELECT id, created_at, last_step_completed
+     FROM submissions
+     WHERE ${clauses.join(" AND ")}
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    values
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Stores a new lead unless the school's dedupe policy matches an earlier one: `drop` keeps the earlier
+ * submission, `merge` adds the answers to it, `new_lead` inserts anyway and passes the match to `insert`.
+ * Runs in one transaction under dedupeLockKey, so concurrent submits cannot both miss each other.
+ */
+export async function persistLead(
+  pool: Pool,
+  policy: DedupePolicy,
+  lead: DedupeLead,
+  submissionId: string,
+  insert: (db: PoolClient, repeatOf: DuplicateMatch | null) => Promise<void>
+): Promise<LeadPersistOutcome> {
+  const now = new Date();
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [dedupeLockKey(policy, lead)]);
+
+    let outcome: LeadPersistOutcome;
+    const retry = await findRetry(client, lead, now);
+    const match = retry ? null : await findDuplicate(client, policy, lead, now);
+
+    if (retry) {
+      outcome = { kind: "retry", submissionId: retry.id, match: retry };
+    } else if (match && policy.action === "drop") {
+      outcome = { kind: "dropped", submissionId: match.id, match };
+    } else if (match && policy.action === "merge") {
+      await client.query(
+        `UPDATE submissions
+         SET answers = COALESCE(answers, '{}'::jsonb) || $1::jsonb, updated_at = $2
+         WHERE id = $3`,
+        [lead.answers, now, match.id]
+      );
+      outcome = { kind: "merged", submissionId: match.id, match };
+    } else {
+      await insert(client, match);
+      outcome = match ? { kind: "repeat", submissionId, match } : { kind: "created", submissionId };
+    }
+
+    await client.query("COMMIT");
+    return outcome;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export type FormTokenClaims = {
+  schoolId: string;
+  programId: string;
+  issuedAt: number;
+};
+
+function sign(body: string, secret: string) {
+  return createHmac("sha256", secret).update(body).digest("base64url");
+}
+
+/** Signed when the landing page renders the form, so intake can tell how long the prospect took to submit. */
+export function issueFormToken(claims: Omit<FormTokenClaims, "issuedAt">, secret: string, now = new Date()) {
+  const body = Buffer.from(JSON.stringify({ ...claims, issuedAt: now.getTime() })).toString("base64url");
+  return `${body}.${sign(body, secret)}`;
+}
+
+export function verifyFormToken(token: string, secret: string): FormTokenClaims | null {
+  const [body, signature, ...rest] = token.split(".");
+  if (!body || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(body, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as Partial<FormTokenClaims>;
+    if (typeof claims.schoolId !== "string" || typeof claims.programId !== "string" || !Number.isFinite(claims.issuedAt)) {
+      return null;
+    }
+    return claims as FormTokenClaims;
+  } catch {
+    return null;
+  }
+}
@@ -3,6 +3,7 @@ import { createHash } from "crypto";
 type IdempotencyInput = {
   clientId: string;
   email: string;
+  // E.164 (see normalizePhone), so "+1 (555) 123-4567" and "555-123-4567" produce the same key
   phone: string | null;
   schoolId: string;
   campusId: string | null;
@@ -0,0 +1,90 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { NextFunction, Request, Response } from "express";
+import pino, { type DestinationStream } from "pino";
+import { trace } from "@opentelemetry/api";
+import { v4 as uuidv4 } from "uuid";
+import { env } from "./env";
+
+export type LogContext = {
+  requestId?: string;
+  clientId?: string;
+  schoolId?: string;
+  submissionId?: string;
+};
+
+// Contact details a lead typed in, in the shapes they appear in (API payloads, submission rows, nested objects).
+export const PII_LOG_PATHS = [
+  "email",
+  "phone",
+  "firstName",
+  "lastName",
+  "first_name",
+  "last_name",
+  "*.email",
+  "*.phone",
+  "*.firstName",
+  "*.lastName",
+  "*.first_name",
+  "*.last_name"
+];
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+export function createLogger(destination?: DestinationStream) {
+  return pino(
+    {
+      level: env.logLevel,
+      base: { service: "lead-lander-api" },
+      timestamp: pino.stdTimeFunctions.isoTime,
+      redact: env.logRedactPii ? { paths: PII_LOG_PATHS, censor: "[redacted]" } : undefined,
+      // Every line logged while handling a request carries its request id and whatever lead fields are known so far.
+      mixin() {
+        const traceId = trace.getActiveSpan()?.spanContext().traceId;
+        return { ...logContext.getStore(), ...(traceId ? { traceId } : {}) };
+      }
+    },
+    destination
+  );
+}
+
+export const logger = createLogger();
+
+export function getRequestId() {
+  return logContext.getStore()?.requestId;
+}
+
+/** Adds lead identifiers to the current request's log context once the handler knows them. */
+export function setLogContext(fields: Omit<LogContext, "requestId">) {
+  const store = logContext.getStore();
+  if (store) {
+    Object.assign(store, fields);
+  }
+}
+
+/**
+ * Assigns a request id (an incoming `X-Request-Id` is kept when it looks sane), echoes it on the response and
+ * logs one line per completed request.
+ */
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get("x-request-id");
+  const requestId = incoming && /^[\w.-]{1,128}$/.test(incoming) ? incoming : uuidv4();
+  const startedAt = process.hrtime.bigint();
+  const store: LogContext = { requestId };
+  res.setHeader("X-Request-Id", requestId);
+
+  // "finish" fires outside the request's async context, so the store is passed explicitly.
+  res.on("finish", () => {
+    logger.info(
+      {
+        ...store,
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Number(process.hrtime.bigint() - startedAt) / 1e6
+      },
+      "request completed"
+    );
+  });
+
+  logContext.run(store, next);
+}
@@ -0,0 +1,67 @@
+import type { NextFunction, Request, Response } from "express";
+import { Counter, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry, prefix: "lead_lander_api_" });
+
+export const httpRequestsTotal = new Counter({
+  name: "lead_lander_http_requests_total",
+  help: "HTTP requests handled by the API, by route template and status code",
+  labelNames: ["method", "route", "status"] as const,
+  registers: [registry]
+});
+
+export const httpRequestDuration = new Histogram({
+  name: "lead_lander_http_request_duration_seconds",
+  help: "HTTP request latency by route template",
+  labelNames: ["method", "route", "status"] as const,
+  buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry]
+});
+
+export const submissionsCreatedTotal = new Counter({
+  name: "lead_lander_submissions_created_total",
+  help: "Submissions created, by client and school",
+  labelNames: ["client_id", "school_id"] as const,
+  registers: [registry]
+});
+
+export const leadsQuarantinedTotal = new Counter({
+  name: "lead_lander_leads_quarantined_total",
+  help: "Submissions held back from delivery by the spam score, by client and school",
+  labelNames: ["client_id", "school_id"] as const,
+  registers: [registry]
+});
+
+export const crmStatusUpdatesTotal = new Counter({
+  name: "lead_lander_crm_status_updates_total",
+  help: "Lead lifecycle updates received from CRM status webhooks, by client and status",
+  labelNames: ["client_id", "status"] as const,
+  registers: [registry]
+});
+
+export const configCacheLookupsTotal = new Counter({
+  name: "lead_lander_config_cache_lookups_total",
+  help: "Client config lookups served from the configStore cache (hit) or the database (miss)",
+  labelNames: ["result"] as const,
+  registers: [registry]
+});
+
+// Label by the matched route template (e.g. /api/admin/schools/:schoolId/submissions) to keep cardinality bounded.
+function routeLabel(req: Request) {
+  if (req.route?.path) {
+    return `${req.baseUrl}${String(req.route.path)}`;
+  }
+  return "unmatched";
+}
+
+export function metricsMiddleware(req: Request, res: Response, next: NextFunction) {
+  const endTimer = httpRequestDuration.startTimer();
+  res.on("finish", () => {
+    const labels = { method: req.method, route: routeLabel(req), status: String(res.statusCode) };
+    httpRequestsTotal.inc(labels);
+    endTimer(labels);
+  });
+  next();
+}
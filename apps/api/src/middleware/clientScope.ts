@@ -1,6 +1,7 @@
 import type { Request, Response, NextFunction } from "express";
 import type { AuthContext } from "../authz";
 import { pool } from "../db";
+import { logger } from "../logger";
 
 /**
  * Middleware to validate that the authenticated user has access to the requested school.
@@ -88,7 +89,7 @@ export async function requireSchoolAccess(
     res.locals.school = school;
     next();
   } catch (error) {
-    console.error("Error in requireSchoolAccess middleware:", error);
+    logger.error({ err: error }, "Error in requireSchoolAccess middleware");
     res.status(500).json({ error: "Internal server error" });
   }
 }
@@ -0,0 +1,131 @@
+import type { Request, RequestHandler, Response } from "express";
+import rateLimit, { type ClientRateLimitInfo, type Options, type Store } from "express-rate-limit";
+import Redis from "ioredis";
+import type { AuthContext } from "../authz";
+import { env } from "../env";
+import { logger } from "../logger";
+
+export type RateLimitGroup = "public" | "auth" | "admin";
+
+type RedisCommands = Pick<Redis, "eval" | "decr" | "del">;
+
+// Counts a hit and starts the window on the first one, atomically across API instances.
+const INCREMENT_SCRIPT = `
+local hits = redis.call("INCR", KEYS[1])
+local ttl = redis.call("PTTL", KEYS[1])
+if ttl < 0 then
+  redis.call("PEXPIRE", KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return { hits, ttl }
+`;
+
+/**
+ * Fixed-window hit counts in Redis, so limits survive deploys and are shared by every API instance.
+ * If Redis is unreachable requests are let through (and logged) rather than failing intake.
+ */
+export class RedisRateLimitStore implements Store {
+  readonly localKeys = false;
+  private windowMs = 60_000;
+
+  constructor(private readonly redis: RedisCommands, readonly prefix: string) {}
+
+  init(options: Options) {
+    this.windowMs = options.windowMs;
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    try {
+      const [totalHits, ttl] = (await this.redis.eval(INCREMENT_SCRIPT, 1, this.prefix + key, this.windowMs)) as [
+        number,
+        number
+      ];
+      return { totalHits, resetTime: new Date(Date.now() + ttl) };
+    } catch (error) {
+      logger.warn({ err: error, rateLimitPrefix: this.prefix }, "Rate limit store unavailable; allowing request");
+      return { totalHits: 0, resetTime: undefined };
+    }
+  }
+
+  async decrement(key: string) {
+    await this.redis.decr(this.prefix + key).catch(() => undefined);
+  }
+
+  async resetKey(key: string) {
+    await this.redis.del(this.prefix + key);
+  }
+}
+
+let redisClient: Redis | null = null;
+
+function getRedisClient() {
+  if (!redisClient) {
+    // Fail fast while Redis is down instead of holding requests through reconnects.
+    redisClient = new Redis(env.redisUrl, { maxRetriesPerRequest: 1 });
+    redisClient.on("error", (error) => logger.warn({ err: error }, "Rate limit Redis connection error"));
+  }
+  return redisClient;
+}
+
+function stringValue(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim().toLowerCase() : "-";
+}
+
+/**
+ * Who a hit counts against. Public routes share a budget per IP and school (or client, for CRM
+ * callbacks), so one busy landing page cannot use up every tenant's; auth routes per IP and email;
+ * admin routes per signed-in user. The tenant comes from route params only: a body field would let a
+ * sender pick a fresh bucket per request.
+ */
+export function rateLimitKey(group: RateLimitGroup, req: Request, res: Response) {
+  const ip = req.ip || "-";
+  switch (group) {
+    case "public": {
+      const tenant = req.params.schoolId || req.params.school || req.params.clientId;
+      return `${ip}|${stringValue(tenant)}`;
+    }
+    case "auth":
+      return `${ip}|${stringValue(req.body?.email)}`;
+    case "admin": {
+      const auth = res.locals.auth as AuthContext | null | undefined;
+      return auth ? `user:${auth.user.id}` : `ip:${ip}`;
+    }
+  }
+}
+
+// `ipMax` caps one IP across every school or email, so rotating them does not multiply its budget.
+const RATE_LIMITS: Record<RateLimitGroup, { windowMs: number; max: number; ipMax?: number }> = {
+  public: { windowMs: env.rateLimitPublicWindowMs, max: env.rateLimitPublicMax, ipMax: env.rateLimitPublicIpMax },
+  auth: { windowMs: env.rateLimitAuthWindowMs, max: env.rateLimitAuthMax, ipMax: env.rateLimitAuthIpMax },
+  admin: { windowMs: env.rateLimitAdminWindowMs, max: env.rateLimitAdminMax }
+};
+
+function buildLimiter(
+  prefix: string,
+  windowMs: number,
+  max: number,
+  keyGenerator: (req: Request, res: Response) => string
+) {
+  return rateLimit({
+    windowMs,
+    limit: max,
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator,
+    // Without Redis (RATE_LIMIT_STORE=memory, the default in tests) each instance counts on its own.
+    store: env.rateLimitStore === "redis" ? new RedisRateLimitStore(getRedisClient(), prefix) : undefined,
+    message: { error: "Too many requests, please try again later." }
+  });
+}
+
+/** The group's limiter: its per-IP ceiling (if any) is checked first, then the group's own key. */
+export function createRateLimiter(group: RateLimitGroup): RequestHandler {
+  const { windowMs, max, ipMax } = RATE_LIMITS[group];
+  const keyed = buildLimiter(`rate-limit:${group}:`, windowMs, max, (req, res) => rateLimitKey(group, req, res));
+  if (!ipMax) {
+    return keyed;
+  }
+
+  const perIp = buildLimiter(`rate-limit:${group}-ip:`, windowMs, ipMax, (req) => req.ip || "-");
+  return (req, res, next) => perIp(req, res, (error?: unknown) => (error ? next(error) : keyed(req, res, next)));
+}
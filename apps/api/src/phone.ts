@@ -0,0 +1,30 @@
+import { parsePhoneNumberFromString, validatePhoneNumberLength, type CountryCode } from "libphonenumber-js";
+
+export type PhoneNormalization = { ok: true; e164: string } | { ok: false; error: string };
+
+const LENGTH_ERRORS: Record<string, string> = {
+  NOT_A_NUMBER: "Enter a phone number using digits",
+  INVALID_COUNTRY: "Include the country code, e.g. +44 for the UK",
+  TOO_SHORT: "This phone number is too short. Include the area code",
+  TOO_LONG: "This phone number is too long",
+  INVALID_LENGTH: "This phone number has the wrong number of digits"
+};
+
+/**
+ * Parses a typed phone number into E.164, reading numbers without a "+" country code as the school's
+ * default country. Only the length is checked against the bundled metadata, so numbers in unassigned
+ * area codes (e.g. 555) still pass; anything rejected cannot be a phone number in that region.
+ */
+export function normalizePhone(raw: string, defaultCountry: string): PhoneNormalization {
+  const country = defaultCountry as CountryCode;
+  const lengthError = validatePhoneNumberLength(raw, country);
+  if (lengthError) {
+    return { ok: false, error: LENGTH_ERRORS[lengthError] || LENGTH_ERRORS.INVALID_LENGTH };
+  }
+
+  const parsed = parsePhoneNumberFromString(raw, country);
+  if (!parsed || !parsed.isPossible()) {
+    return { ok: false, error: LENGTH_ERRORS.INVALID_LENGTH };
+  }
+  return { ok: true, e164: parsed.number };
+}
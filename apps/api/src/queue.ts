@@ -1,8 +1,104 @@
-import { Queue } from "bullmq";
+import { Queue, QueueEvents, type JobsOptions } from "bullmq";
+import { SpanKind } from "@opentelemetry/api";
 import { env } from "./env";
+import { getRequestId } from "./logger";
+import { injectTraceContext, withSpan } from "./tracing";
 
-export const deliveryQueue = new Queue(env.queueName, {
-  connection: {
-    url: env.redisUrl
+const queues = new Map<string, Queue>();
+
+// Each client gets its own delivery queue so one tenant's burst cannot hold up another's leads.
+export function tenantQueueName(clientId: string) {
+  return `${env.queueName}-${clientId.replace(/:/g, "-")}`;
+}
+
+export function getDeliveryQueue(clientId: string) {
+  const name = tenantQueueName(clientId);
+  let queue = queues.get(name);
+  if (!queue) {
+    queue = new Queue(name, {
+      connection: {
+        url: env.redisUrl
+      }
+    });
+    queues.set(name, queue);
+  }
+  return queue;
+}
+
+type DeliveryJobData = {
+  submissionId: string;
+  clientId: string;
+  schoolId: string;
+  stepIndex?: number;
+  crmConnectionId?: string;
+};
+
+/**
+ * Enqueues a delivery job under a producer span. The worker continues the trace from `traceContext` and logs
+ * with the originating `requestId`.
+ */
+export function addDeliveryJob(clientId: string, jobType: string, data: DeliveryJobData, opts: JobsOptions) {
+  const queue = getDeliveryQueue(clientId);
+  return withSpan(
+    `${queue.name} publish`,
+    {
+      kind: SpanKind.PRODUCER,
+      attributes: {
+        "messaging.system": "bullmq",
+        "messaging.destination.name": queue.name,
+        "lead.job_type": jobType,
+        "lead.submission_id": data.submissionId
+      }
+    },
+    () => queue.add(jobType, { ...data, requestId: getRequestId(), traceContext: injectTraceContext() }, opts)
+  );
+}
+
+export type ConnectionTestJobData = {
+  clientId: string;
+  schoolId: string;
+  crmConnectionId: string;
+  programId: string;
+  campusId?: string | null;
+  action: "create" | "update";
+  crmLeadId?: string | null;
+  dryRun: boolean;
+};
+
+export type ConnectionTestOutcome =
+  | { status: "completed"; result: Record<string, unknown> }
+  | { status: "failed"; error: string }
+  | { status: "timeout" };
+
+let connectionTestQueue: Queue | null = null;
+let connectionTestEvents: QueueEvents | null = null;
+
+/** Runs a CRM connection test on the worker (which holds the adapters) and waits for its result. */
+export async function runConnectionTest(data: ConnectionTestJobData, timeoutMs: number): Promise<ConnectionTestOutcome> {
+  const name = `${env.queueName}-connection-tests`;
+  connectionTestQueue ??= new Queue(name, { connection: { url: env.redisUrl } });
+  connectionTestEvents ??= new QueueEvents(name, { connection: { url: env.redisUrl } });
+
+  const job = await connectionTestQueue.add(
+    "test_connection",
+    { ...data, requestId: getRequestId() },
+    { attempts: 1, removeOnComplete: { age: 3600 }, removeOnFail: { age: 3600 } }
+  );
+
+  let timeoutId: NodeJS.Timeout | undefined;
+  const timeout = new Promise<ConnectionTestOutcome>((resolve) => {
+    timeoutId = setTimeout(() => resolve({ status: "timeout" }), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([
+      job.waitUntilFinished(connectionTestEvents).then(
+        (result): ConnectionTestOutcome => ({ status: "completed", result }),
+        (error): ConnectionTestOutcome => ({ status: "failed", error: (error as Error).message })
+      ),
+      timeout
+    ]);
+  } finally {
+    clearTimeout(timeoutId);
   }
-});
+}
@@ -1,5 +1,4 @@
 import express from "express";
-import rateLimit from "express-rate-limit";
 import cors from "cors";
 import cookieParser from "cookie-parser";
 import UAParser from "ua-parser-js";
@@ -7,8 +6,32 @@ import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
 import { env } from "./env";
 import { pool } from "./db";
-import { deliveryQueue } from "./queue";
+import { addDeliveryJob, runConnectionTest } from "./queue";
+import {
+  crmStatusUpdatesTotal,
+  leadsQuarantinedTotal,
+  metricsMiddleware,
+  registry as metricsRegistry,
+  submissionsCreatedTotal
+} from "./metrics";
+import { setSpanAttributes, startTracing, traceRoute, withDbSpan } from "./tracing";
+import { logger, requestLogger, setLogContext } from "./logger";
 import { computeIdempotencyKey } from "./idempotency";
+import { normalizePhone } from "./phone";
+import { persistLead, type LeadPersistOutcome } from "./dedupe";
+import { issueFormToken } from "./formToken";
+import { createCaptchaVerifier } from "./captcha";
+import {
+  captchaCheck,
+  createSpamScorer,
+  disposableEmailCheck,
+  DISPOSABLE_EMAIL_DOMAINS,
+  formTimingCheck,
+  gibberishNameCheck,
+  repeatSubmissionCheck,
+  type SpamVerdict
+} from "./spam";
+import { mapLifecycleStatus, verifyStatusWebhook } from "./crmStatus";
 import { getConfigForClient, invalidateConfigCache } from "./config";
 import { createConfigStore } from "./configStore";
 import { PgAuthRepo } from "./authRepo";
@@ -22,9 +45,24 @@ import {
 } from "./auth";
 import { type AuthContext, type UserRole } from "./authz";
 import { getAllowedSchools } from "./tenantScope";
-import { resolveEntitiesByIds, resolveLandingPageBySlugs, type Config } from "@lead_lander/config-schema";
+import {
+  buildNotificationEmail,
+  buildSampleAnswers,
+  NotificationTemplateSchema,
+  resolveAutoresponder,
+  resolveEntitiesByIds,
+  resolveLandingPageBySlugs,
+  resolveLeadQuestions,
+  validateLeadAnswers,
+  type Config,
+  type DedupePolicy,
+  type Question
+} from "@lead_lander/config-schema";
 import { requireSchoolAccess, requireClientAccess } from "./middleware/clientScope";
 import { requireConfigAccess } from "./middleware/configAccess";
+import { createRateLimiter } from "./middleware/rateLimit";
+
+startTracing();
 
 export const app = express();
 
@@ -40,7 +78,17 @@ function parseTrustProxy(value: string) {
 if (env.trustProxy) {
   app.set("trust proxy", parseTrustProxy(env.trustProxy));
 }
-app.use(express.json({ limit: "1mb" }));
+app.use(metricsMiddleware);
+app.use(requestLogger);
+app.use(
+  express.json({
+    limit: "1mb",
+    // Signed webhooks are verified against the exact bytes received, not the re-serialized body.
+    verify: (req, _res, buf) => {
+      (req as express.Request & { rawBody?: string }).rawBody = buf.toString("utf8");
+    }
+  })
+);
 const normalizeOrigin = (origin: string) => {
   try {
     const url = new URL(origin);
@@ -93,14 +141,21 @@ app.use(
 );
 app.use(cookieParser());
 
-const limiter = rateLimit({
-  windowMs: env.rateLimitWindowMs,
-  max: env.rateLimitMax,
-  standardHeaders: true,
-  legacyHeaders: false
-});
-
-app.use(limiter);
+const publicLimiter = createRateLimiter("public");
+const authLimiter = createRateLimiter("auth");
+const adminLimiter = createRateLimiter("admin");
+
+const captchaVerifier = createCaptchaVerifier(env.captchaProvider);
+const scoreLead = createSpamScorer(
+  [
+    formTimingCheck(env.formTokenSecret, env.spamMinSubmitSeconds),
+    disposableEmailCheck([...DISPOSABLE_EMAIL_DOMAINS, ...env.spamDisposableDomains]),
+    gibberishNameCheck,
+    repeatSubmissionCheck(pool, env.spamRepeatWindowMs, env.spamRepeatMax),
+    ...(captchaVerifier ? [captchaCheck(captchaVerifier)] : [])
+  ],
+  env.spamQuarantineThreshold
+);
 
 const authRepo = new PgAuthRepo(pool);
 const configStore = createConfigStore(pool);
@@ -147,6 +202,33 @@ const AdminDraftSchema = z.object({
   action: z.enum(["draft", "submit"])
 });
 
+const AdminNotificationPreviewSchema = z.object({
+  programId: z.string().min(1).optional(),
+  campusId: z.string().min(1).optional(),
+  template: NotificationTemplateSchema.optional()
+});
+
+const AdminNotificationTemplateSchema = z.object({
+  template: NotificationTemplateSchema.nullable()
+});
+
+const AdminConnectionTestSchema = z
+  .object({
+    programId: z.string().min(1).optional(),
+    campusId: z.string().min(1).optional(),
+    action: z.enum(["create", "update"]).default("create"),
+    crmLeadId: z.string().min(1).optional(),
+    dryRun: z.boolean().default(true)
+  })
+  .refine((value) => value.action === "create" || value.crmLeadId, {
+    message: "crmLeadId is required to test an update",
+    path: ["crmLeadId"]
+  });
+
+const AdminDeliveryRetrySchema = z.object({
+  submissionIds: z.array(z.string().uuid()).min(1).max(100)
+});
+
 const AdminConfigRollbackSchema = z.object({
   versionId: z.string().uuid()
 });
@@ -245,7 +327,7 @@ async function attachAuthContext(req: express.Request, res: express.Response, ne
   try {
     res.locals.auth = await loadAuthContext(req);
   } catch (error) {
-    console.error("Auth context error", error);
+    logger.error({ err: error }, "Auth context error");
     res.locals.auth = null;
   }
   next();
@@ -293,8 +375,8 @@ function requireSuperAdmin(auth: AuthContext | null) {
   return { ok: true as const };
 }
 
-app.use("/api/admin", attachAuthContext);
-app.use("/api/super", attachAuthContext);
+app.use("/api/admin", attachAuthContext, adminLimiter);
+app.use("/api/super", attachAuthContext, adminLimiter);
 
 const SubmitSchema = z.object({
   firstName: z.string().min(1),
@@ -309,7 +391,8 @@ const SubmitSchema = z.object({
     .object({
       utm: z.record(z.string()).optional(),
       referrer: z.string().optional(),
-      userAgent: z.string().optional()
+      userAgent: z.string().optional(),
+      deviceId: z.string().max(100).optional()
     })
     .optional(),
   consent: z.object({
@@ -317,7 +400,9 @@ const SubmitSchema = z.object({
     textVersion: z.string(),
     timestamp: z.string()
   }),
-  honeypot: z.string().optional()
+  honeypot: z.string().optional(),
+  formToken: z.string().optional(),
+  captchaToken: z.string().optional()
 });
 
 const StartSchema = z.object({
@@ -333,7 +418,8 @@ const StartSchema = z.object({
     .object({
       utm: z.record(z.string()).optional(),
       referrer: z.string().optional(),
-      userAgent: z.string().optional()
+      userAgent: z.string().optional(),
+      deviceId: z.string().max(100).optional()
     })
     .optional(),
   consent: z.object({
@@ -341,7 +427,15 @@ const StartSchema = z.object({
     textVersion: z.string(),
     timestamp: z.string()
   }),
-  honeypot: z.string().optional()
+  honeypot: z.string().optional(),
+  formToken: z.string().optional(),
+  captchaToken: z.string().optional()
+});
+
+const CrmStatusUpdateSchema = z.object({
+  crm_lead_id: z.string().min(1),
+  status: z.string().min(1),
+  occurred_at: z.string().datetime({ offset: true }).optional()
 });
 
 const StepSchema = z.object({
@@ -352,7 +446,7 @@ const StepSchema = z.object({
 
 function buildMetadata(
   req: express.Request,
-  metadata?: { utm?: Record<string, string>; referrer?: string; userAgent?: string }
+  metadata?: { utm?: Record<string, string>; referrer?: string; userAgent?: string; deviceId?: string }
 ) {
   const userAgent = metadata?.userAgent || req.get("user-agent") || undefined;
   const parsed = userAgent ? new UAParser(userAgent).getResult() : null;
@@ -402,6 +496,117 @@ async function logAdminAudit(
   );
 }
 
+// A made-up lead for notification previews, so trying a template never exposes a real prospect.
+function buildSampleSubmission(questions: Question[]) {
+  return {
+    id: "00000000-0000-4000-8000-000000000000",
+    first_name: "Jordan",
+    last_name: "Sample",
+    email: "jordan.sample@example.com",
+    phone: "555-0100",
+    answers: buildSampleAnswers(questions),
+    created_at: new Date()
+  };
+}
+
+type RetryJob = {
+  jobType: "create_lead" | "update_lead" | "merge_lead";
+  stepIndex: number;
+  crmConnectionId: string | null;
+};
+
+// Re-enqueues every delivery that exhausted its retries for a submission. Only failed destinations are
+// retried, and only the create/update steps that never reached them.
+async function requeueFailedDeliveries(clientId: string, schoolId: string, submissionId: string) {
+  const outstanding = await pool.query(
+    `
+      SELECT DISTINCT da.crm_connection_id, da.job_type, da.step_index
+      FROM delivery_attempts da
+      JOIN submission_destinations d
+        ON d.submission_id = da.submission_id AND d.crm_connection_id = da.crm_connection_id
+      WHERE da.client_id = $1 AND da.submission_id = $2 AND d.status = 'failed' AND da.status = 'failed'
+        AND NOT EXISTS (
+          SELECT 1
+          FROM delivery_attempts ok
+          WHERE ok.submission_id = da.submission_id
+            AND ok.crm_connection_id = da.crm_connection_id
+            AND ok.job_type = da.job_type
+            AND ok.step_index = da.step_index
+            AND ok.status = 'delivered'
+            -- An earlier merge going through does not cover a later one that failed.
+            AND (ok.job_type <> 'merge_lead' OR ok.created_at > da.created_at)
+        )
+      ORDER BY da.crm_connection_id, da.job_type, da.step_index
+    `,
+    [clientId, submissionId]
+  );
+
+  const jobs: RetryJob[] = outstanding.rows.map((row) => ({
+    jobType: row.job_type,
+    stepIndex: Number(row.step_index),
+    crmConnectionId: row.crm_connection_id
+  }));
+
+  if (jobs.length === 0) {
+    // Submissions that failed before fan-out have no destinations yet; start them over from create.
+    const destinations = await pool.query(
+      "SELECT 1 FROM submission_destinations WHERE client_id = $1 AND submission_id = $2 LIMIT 1",
+      [clientId, submissionId]
+    );
+    if (destinations.rows.length === 0) {
+      jobs.push({ jobType: "create_lead", stepIndex: 1, crmConnectionId: null });
+    }
+  }
+
+  if (jobs.length === 0) {
+    return jobs;
+  }
+
+  const requestedAt = Date.now();
+  for (const job of jobs) {
+    const jobKey = [job.jobType, job.stepIndex, job.crmConnectionId || "all"].join("-");
+    await addDeliveryJob(
+      clientId,
+      job.jobType,
+      {
+        submissionId,
+        stepIndex: job.stepIndex,
+        clientId,
+        schoolId,
+        ...(job.crmConnectionId ? { crmConnectionId: job.crmConnectionId } : {})
+      },
+      {
+        // BullMQ custom job ids cannot contain ":"
+        jobId: `retry-${submissionId}-${jobKey}-${requestedAt}`.replace(/:/g, "-"),
+        attempts: env.deliveryMaxAttempts,
+        backoff: {
+          type: "crm_backoff",
+          delay: env.deliveryBackoffMs
+        },
+        removeOnComplete: true,
+        removeOnFail: false
+      }
+    );
+  }
+
+  const now = new Date();
+  const connectionIds = jobs.map((job) => job.crmConnectionId).filter((id): id is string => Boolean(id));
+  if (connectionIds.length > 0) {
+    await pool.query(
+      `UPDATE submission_destinations
+       SET status = 'pending', updated_at = $1
+       WHERE client_id = $2 AND submission_id = $3 AND crm_connection_id = ANY($4::text[])`,
+      [now, clientId, submissionId, connectionIds]
+    );
+  }
+  await pool.query(
+    "UPDATE submissions SET status = 'delivering', updated_at = $1 WHERE id = $2 AND client_id = $3",
+    [now, submissionId, clientId]
+  );
+
+  return jobs;
+}
+
 function buildSubmissionFilters(req: express.Request, clientId: string, schoolId: string) {
   const clauses: string[] = ["client_id = $1", "school_id = $2"];
   const values: (string | number | Date)[] = [clientId, schoolId];
@@ -485,7 +690,7 @@ function getAuthCookieOptions() {
   return options;
 }
 
-app.post("/api/auth/login", async (req, res) => {
+app.post("/api/auth/login", authLimiter, async (req, res) => {
   try {
     const parseResult = AuthLoginSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -520,17 +725,17 @@ app.post("/api/auth/login", async (req, res) => {
       }
     });
   } catch (error) {
-    console.error("Auth login error", error);
+    logger.error({ err: error }, "Auth login error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.post("/api/auth/logout", (_req, res) => {
+app.post("/api/auth/logout", adminLimiter, (_req, res) => {
   res.clearCookie(env.authCookieName, getAuthCookieOptions());
   return res.json({ status: "ok" });
 });
 
-app.get("/api/auth/me", async (req, res) => {
+app.get("/api/auth/me", adminLimiter, async (req, res) => {
   try {
     const token = req.cookies?.[env.authCookieName];
     if (!token) {
@@ -566,7 +771,7 @@ app.get("/api/auth/me", async (req, res) => {
         const config = await getConfigForClient(user.clientId);
         accessibleSchools = getAllowedSchools(auth, config);
       } catch (configError) {
-        console.error("Failed to load config for client", user.clientId, configError);
+        logger.error({ err: configError, clientId: user.clientId }, "Failed to load config for client");
         // Super admins may not have valid config, so we continue without schools
       }
     }
@@ -585,12 +790,12 @@ app.get("/api/auth/me", async (req, res) => {
       }))
     });
   } catch (error) {
-    console.error("Auth me error", error);
+    logger.error({ err: error }, "Auth me error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.post("/api/auth/request-password-reset", async (req, res) => {
+app.post("/api/auth/request-password-reset", authLimiter, async (req, res) => {
   try {
     const parseResult = AuthResetRequestSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -607,12 +812,12 @@ app.post("/api/auth/request-password-reset", async (req, res) => {
     await requestPasswordReset(authRepo, school.client_id, parseResult.data.email);
     return res.json({ status: "ok" });
   } catch (error) {
-    console.error("Auth reset request error", error);
+    logger.error({ err: error }, "Auth reset request error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.post("/api/auth/reset-password", async (req, res) => {
+app.post("/api/auth/reset-password", authLimiter, async (req, res) => {
   try {
     const parseResult = AuthResetSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -631,7 +836,7 @@ app.post("/api/auth/reset-password", async (req, res) => {
 
     return res.json({ status: "ok" });
   } catch (error) {
-    console.error("Auth reset error", error);
+    logger.error({ err: error }, "Auth reset error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -640,7 +845,21 @@ app.get("/healthz", (_req, res) => {
   res.json({ status: "ok" });
 });
 
-app.get("/api/public/schools/:school", async (req, res) => {
+app.get("/metrics", async (req, res) => {
+  if (env.metricsToken && req.get("authorization") !== `Bearer ${env.metricsToken}`) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    res.set("Content-Type", metricsRegistry.contentType);
+    return res.end(await metricsRegistry.metrics());
+  } catch (error) {
+    logger.error({ err: error }, "Metrics error");
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/api/public/schools/:school", publicLimiter, async (req, res) => {
   try {
     const schoolParam = req.params.school;
     // Support both slug and ID for flexibility
@@ -662,13 +881,13 @@ app.get("/api/public/schools/:school", async (req, res) => {
       }
     });
   } catch (error) {
-    console.error("Public school error", error);
+    logger.error({ err: error }, "Public school error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
 // Get programs for a school (public endpoint)
-app.get("/api/public/schools/:schoolId/programs", async (req, res) => {
+app.get("/api/public/schools/:schoolId/programs", publicLimiter, async (req, res) => {
   try {
     const schoolId = req.params.schoolId;
     const school = await getSchoolById(schoolId);
@@ -687,12 +906,12 @@ app.get("/api/public/schools/:schoolId/programs", async (req, res) => {
 
     return res.json({ programs });
   } catch (error) {
-    console.error("Public programs fetch error", error);
+    logger.error({ err: error }, "Public programs fetch error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.get("/api/public/landing/:school/:program", async (req, res) => {
+app.get("/api/public/landing/:school/:program", publicLimiter, async (req, res) => {
   try {
     const schoolParam = req.params.school;
     const programSlug = req.params.program;
@@ -716,32 +935,29 @@ app.get("/api/public/landing/:school/:program", async (req, res) => {
 
     return res.json({ landing: resolved, campuses, programs });
   } catch (error) {
-    console.error("Public landing error", error);
+    logger.error({ err: error }, "Public landing error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.get("/api/public/school/:schoolId/landing/:programSlug", async (req, res) => {
+app.get("/api/public/school/:schoolId/landing/:programSlug", publicLimiter, async (req, res) => {
   try {
     const schoolId = req.params.schoolId;
     const programSlug = req.params.programSlug;
 
-    console.log(`[Landing] Fetching for school=${schoolId}, program=${programSlug}`);
-
     const school = await getSchoolById(schoolId);
     if (!school) {
-      console.log(`[Landing] School not found: ${schoolId}`);
+      logger.info({ schoolId, programSlug }, "Landing school not found");
       return res.status(404).json({ error: "School not found" });
     }
 
-    console.log(`[Landing] Found school: ${school.name} (${school.id})`);
+    setLogContext({ clientId: school.client_id, schoolId });
 
     const config = await getConfigForClient(school.client_id);
-    console.log(`[Landing] Config loaded, programs count: ${config.programs.length}`);
 
     const schoolConfig = config.schools.find((s) => s.id === schoolId);
     if (!schoolConfig) {
-      console.log(`[Landing] School config not found in config: ${schoolId}`);
+      logger.warn({ programSlug }, "Landing school missing from client config");
       return res.status(404).json({ error: "School config not found" });
     }
 
@@ -749,13 +965,10 @@ app.get("/api/public/school/:schoolId/landing/:programSlug", async (req, res) =>
       (p) => p.schoolId === schoolId && p.slug === programSlug
     );
     if (!program) {
-      console.log(`[Landing] Program not found: ${programSlug}`);
-      console.log(`[Landing] Available programs: ${config.programs.filter(p => p.schoolId === schoolId).map(p => p.slug).join(', ')}`);
+      logger.info({ programSlug }, "Landing program not found");
       return res.status(404).json({ error: "Program not found" });
     }
 
-    console.log(`[Landing] Found program: ${program.name} (${program.id})`);
-
     const campuses = config.campuses.filter((item) => item.schoolId === schoolId);
     const programs = config.programs.filter((item) => item.schoolId === schoolId);
 
@@ -767,8 +980,6 @@ app.get("/api/public/school/:schoolId/landing/:programSlug", async (req, res) =>
       ctaText: "Get Started"
     };
 
-    console.log(`[Landing] Returning response with landingCopy:`, landingCopy);
-
     return res.json({
       landing: {
         school: schoolConfig,
@@ -777,11 +988,11 @@ app.get("/api/public/school/:schoolId/landing/:programSlug", async (req, res) =>
         questionOverrides: program.questionOverrides
       },
       campuses,
-      programs
+      programs,
+      formToken: issueFormToken({ schoolId, programId: program.id }, env.formTokenSecret)
     });
   } catch (error) {
-    console.error("[Landing] Error:", error);
-    console.error("[Landing] Stack:", (error as Error).stack);
+    logger.error({ err: error }, "Public landing fetch error");
     return res.status(500).json({
       error: "Internal server error",
       message: (error as Error).message
@@ -790,7 +1001,7 @@ app.get("/api/public/school/:schoolId/landing/:programSlug", async (req, res) =>
 });
 
 // Get quiz questions for a school (public endpoint)
-app.get("/api/public/schools/:schoolId/quiz", async (req, res) => {
+app.get("/api/public/schools/:schoolId/quiz", publicLimiter, async (req, res) => {
   try {
     const schoolId = req.params.schoolId;
     const school = await getSchoolById(schoolId);
@@ -836,13 +1047,13 @@ app.get("/api/public/schools/:schoolId/quiz", async (req, res) => {
 
     return res.json({ questions, programs });
   } catch (error) {
-    console.error("Public quiz fetch error", error);
+    logger.error({ err: error }, "Public quiz fetch error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
 // Calculate program recommendation based on quiz answers (public endpoint)
-app.post("/api/public/schools/:schoolId/quiz/recommend", async (req, res) => {
+app.post("/api/public/schools/:schoolId/quiz/recommend", publicLimiter, async (req, res) => {
   try {
     const schoolId = req.params.schoolId;
     const { answers } = req.body; // answers: { questionId: optionId or [optionIds] }
@@ -912,7 +1123,7 @@ app.post("/api/public/schools/:schoolId/quiz/recommend", async (req, res) => {
       quizScore: programScores
     });
   } catch (error) {
-    console.error("Public quiz recommendation error", error);
+    logger.error({ err: error }, "Public quiz recommendation error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -935,7 +1146,7 @@ app.get("/api/admin/schools", attachAuthContext, requireClientAccess, async (req
       }))
     });
   } catch (error) {
-    console.error("Admin schools list error", error);
+    logger.error({ err: error }, "Admin schools list error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -959,6 +1170,7 @@ app.get("/api/admin/schools/:schoolId/metrics", requireSchoolAccess, async (req,
           COUNT(*) AS leads,
           SUM(CASE WHEN status = 'delivered' THEN 1 ELSE 0 END) AS delivered,
           SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) AS failed,
+          SUM(CASE WHEN status = 'partially_delivered' THEN 1 ELSE 0 END) AS partially_delivered,
           SUM(CASE WHEN status = 'delivering' THEN 1 ELSE 0 END) AS delivering,
           SUM(CASE WHEN status = 'received' THEN 1 ELSE 0 END) AS received,
           MAX(COALESCE(last_step_completed, 0)) AS max_step
@@ -994,6 +1206,30 @@ app.get("/api/admin/schools/:schoolId/metrics", requireSchoolAccess, async (req,
       [school.client_id, school.id, from, to]
     );
 
+    // Counts leads that ever reached each lifecycle status, so an enrolled lead still counts as applied.
+    const lifecycleResult = await pool.query(
+      `
+        SELECT s.program_id, s.campus_id,
+          COUNT(*) AS leads,
+          COUNT(*) FILTER (WHERE 'contacted' = ANY(h.statuses)) AS contacted,
+          COUNT(*) FILTER (WHERE 'appointment_set' = ANY(h.statuses)) AS appointment_set,
+          COUNT(*) FILTER (WHERE 'applied' = ANY(h.statuses)) AS applied,
+          COUNT(*) FILTER (WHERE 'enrolled' = ANY(h.statuses)) AS enrolled,
+          COUNT(*) FILTER (WHERE 'disqualified' = ANY(h.statuses)) AS disqualified
+        FROM submissions s
+        LEFT JOIN (
+          SELECT submission_id, array_agg(DISTINCT status) AS statuses
+          FROM submission_status_history
+          WHERE client_id = $1
+          GROUP BY submission_id
+        ) h ON h.submission_id = s.id
+        WHERE s.client_id = $1 AND s.school_id = $2 AND s.created_at >= $3 AND s.created_at < $4
+        GROUP BY s.program_id, s.campus_id
+        ORDER BY leads DESC
+      `,
+      [school.client_id, school.id, from, to]
+    );
+
     const snapshotResult = await pool.query(
       `
         SELECT id, email, status, crm_lead_id, updated_at
@@ -1019,6 +1255,7 @@ app.get("/api/admin/schools/:schoolId/metrics", requireSchoolAccess, async (req,
         leads: Number(summary.leads || 0),
         delivered: Number(summary.delivered || 0),
         failed: Number(summary.failed || 0),
+        partiallyDelivered: Number(summary.partially_delivered || 0),
         delivering: Number(summary.delivering || 0),
         received: Number(summary.received || 0),
         maxStep: Number(summary.max_step || 0)
@@ -1034,6 +1271,21 @@ app.get("/api/admin/schools/:schoolId/metrics", requireSchoolAccess, async (req,
         delivered: Number(row.delivered || 0),
         failed: Number(row.failed || 0)
       })),
+      enrollment: lifecycleResult.rows.map((row) => {
+        const leads = Number(row.leads || 0);
+        const enrolled = Number(row.enrolled || 0);
+        return {
+          programId: row.program_id,
+          campusId: row.campus_id,
+          leads,
+          contacted: Number(row.contacted || 0),
+          appointmentSet: Number(row.appointment_set || 0),
+          applied: Number(row.applied || 0),
+          enrolled,
+          disqualified: Number(row.disqualified || 0),
+          enrollmentRate: leads > 0 ? enrolled / leads : 0
+        };
+      }),
       snapshots: snapshotResult.rows.map((row) => ({
         id: row.id,
         email: row.email,
@@ -1043,7 +1295,7 @@ app.get("/api/admin/schools/:schoolId/metrics", requireSchoolAccess, async (req,
       }))
     });
   } catch (error) {
-    console.error("Admin metrics error", error);
+    logger.error({ err: error }, "Admin metrics error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -1071,7 +1323,7 @@ app.get("/api/admin/schools/:schoolId/submissions", requireSchoolAccess, async (
         SELECT id, created_at, updated_at, delivered_at, school_id, campus_id, program_id,
                first_name, last_name, email, phone, answers, metadata, status,
                idempotency_key, consented, consent_text_version, consent_timestamp,
-               crm_lead_id, last_step_completed, created_from_step
+               crm_lead_id, last_step_completed, created_from_step, spam_score, spam_reasons
         FROM submissions
         ${whereSql}
         ORDER BY created_at DESC
@@ -1080,6 +1332,35 @@ app.get("/api/admin/schools/:schoolId/submissions", requireSchoolAccess, async (
       [...values, limit, offset]
     );
 
+    const destinationsBySubmission = new Map<string, Array<Record<string, unknown>>>();
+    if (result.rows.length > 0) {
+      const destinationResult = await pool.query(
+        `
+          SELECT submission_id, crm_connection_id, status, crm_lead_id, last_error, delivered_at, updated_at,
+                 is_primary, routing_rule_id
+          FROM submission_destinations
+          WHERE client_id = $1 AND submission_id = ANY($2::uuid[])
+          ORDER BY is_primary DESC, created_at ASC, crm_connection_id ASC
+        `,
+        [school.client_id, result.rows.map((row) => row.id)]
+      );
+
+      for (const row of destinationResult.rows) {
+        const list = destinationsBySubmission.get(row.submission_id) || [];
+        list.push({
+          crmConnectionId: row.crm_connection_id,
+          status: row.status,
+          crmLeadId: row.crm_lead_id,
+          isPrimary: row.is_primary,
+          routingRuleId: row.routing_rule_id,
+          lastError: row.last_error,
+          deliveredAt: row.delivered_at,
+          updatedAt: row.updated_at
+        });
+        destinationsBySubmission.set(row.submission_id, list);
+      }
+    }
+
     return res.json({
       rows: result.rows.map((row) => ({
         id: row.id,
@@ -1102,14 +1383,96 @@ app.get("/api/admin/schools/:schoolId/submissions", requireSchoolAccess, async (
         consentTimestamp: row.consent_timestamp,
         crmLeadId: row.crm_lead_id,
         lastStepCompleted: row.last_step_completed,
-        createdFromStep: row.created_from_step
+        createdFromStep: row.created_from_step,
+        spamScore: row.spam_score,
+        spamReasons: row.spam_reasons || [],
+        destinations: destinationsBySubmission.get(row.id) || []
       })),
       total: Number(countResult.rows[0]?.total || 0),
       limit,
       offset
     });
   } catch (error) {
-    console.error("Admin submissions error", error);
+    logger.error({ err: error }, "Admin submissions error");
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.post("/api/admin/schools/:schoolId/submissions/:submissionId/release", requireSchoolAccess, async (req, res) => {
+  try {
+    const school = res.locals.school;
+    const auth = res.locals.auth as AuthContext | null;
+    const { submissionId } = req.params;
+
+    const config = await getConfigForClient(school.client_id);
+    const schoolConfig = config.schools.find((item) => item.id === school.id);
+    if (!schoolConfig) {
+      return res.status(404).json({ error: "School not found" });
+    }
+
+    const triggeredBy = { userId: auth?.user.id || null, email: auth?.user.email || null };
+
+    // Claim the lead under a row lock so two admins cannot release (and queue) it twice.
+    let released: { id: string; spamScore: number | null; program: LeadEntities["program"] };
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const result = await client.query(
+        `
+          SELECT id, program_id, spam_score
+          FROM submissions
+          WHERE client_id = $1 AND school_id = $2 AND id::text = $3 AND status = 'quarantined'
+          FOR UPDATE
+        `,
+        [school.client_id, school.id, submissionId]
+      );
+      const quarantined = result.rows[0];
+      if (!quarantined) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Quarantined submission not found" });
+      }
+      const program = config.programs.find((item) => item.id === quarantined.program_id);
+      if (!program) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Unknown campus/program" });
+      }
+
+      await client.query("UPDATE submissions SET status = 'received', updated_at = $1 WHERE id = $2", [
+        new Date(),
+        quarantined.id
+      ]);
+      await client.query("COMMIT");
+      released = { id: quarantined.id, spamScore: quarantined.spam_score, program };
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    // Queued only after the commit: the worker skips quarantined leads, so a job must never see the old status.
+    setLogContext({ clientId: school.client_id, schoolId: school.id, submissionId });
+    try {
+      await queueNewLeadDelivery({ school: schoolConfig, program: released.program }, released.id);
+    } catch (error) {
+      // Put it back so the release can be retried; a received lead with nothing queued would never be delivered.
+      await pool.query(
+        "UPDATE submissions SET status = 'quarantined', updated_at = $1 WHERE id = $2 AND status = 'received'",
+        [new Date(), released.id]
+      );
+      throw error;
+    }
+
+    await pool.query(
+      `INSERT INTO audit_log (id, client_id, submission_id, event, payload, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [uuidv4(), school.client_id, released.id, "quarantine_released", { ...triggeredBy, spamScore: released.spamScore }, new Date()]
+    );
+    await logAdminAudit(school.client_id, school.id, "submission_released", { ...triggeredBy, submissionId });
+
+    return res.json({ submissionId, status: "received" });
+  } catch (error) {
+    logger.error({ err: error }, "Admin quarantine release error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -1248,7 +1611,149 @@ app.get("/api/admin/schools/:schoolId/submissions/export", requireSchoolAccess,
 
     return res.end();
   } catch (error) {
-    console.error("Admin submissions export error", error);
+    logger.error({ err: error }, "Admin submissions export error");
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/api/admin/schools/:schoolId/dead-letters", requireSchoolAccess, async (req, res) => {
+  try {
+    const school = res.locals.school;
+
+    const limit = Math.min(Number(req.query.limit) || 25, 200);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+    const countResult = await pool.query(
+      `
+        SELECT COUNT(*)::int AS total
+        FROM submissions
+        WHERE client_id = $1 AND school_id = $2 AND status IN ('failed', 'partially_delivered')
+      `,
+      [school.client_id, school.id]
+    );
+
+    const result = await pool.query(
+      `
+        SELECT id, created_at, updated_at, campus_id, program_id, first_name, last_name, email, status
+        FROM submissions
+        WHERE client_id = $1 AND school_id = $2 AND status IN ('failed', 'partially_delivered')
+        ORDER BY updated_at DESC
+        LIMIT $3 OFFSET $4
+      `,
+      [school.client_id, school.id, limit, offset]
+    );
+
+    const failuresBySubmission = new Map<string, Array<Record<string, unknown>>>();
+    if (result.rows.length > 0) {
+      const failureResult = await pool.query(
+        `
+          SELECT d.submission_id, d.crm_connection_id, d.last_error, d.updated_at,
+                 a.job_type, a.step_index, a.attempt_number, a.response_code, a.response_body, a.error,
+                 a.error_class, a.created_at AS attempted_at
+          FROM submission_destinations d
+          LEFT JOIN LATERAL (
+            SELECT job_type, step_index, attempt_number, response_code, response_body, error, error_class, created_at
+            FROM delivery_attempts da
+            WHERE da.submission_id = d.submission_id
+              AND da.crm_connection_id = d.crm_connection_id
+              AND da.status = 'failed'
+            ORDER BY da.created_at DESC
+            LIMIT 1
+          ) a ON TRUE
+          WHERE d.client_id = $1 AND d.submission_id = ANY($2::uuid[]) AND d.status = 'failed'
+          ORDER BY d.is_primary DESC, d.crm_connection_id ASC
+        `,
+        [school.client_id, result.rows.map((row) => row.id)]
+      );
+
+      for (const row of failureResult.rows) {
+        const list = failuresBySubmission.get(row.submission_id) || [];
+        list.push({
+          crmConnectionId: row.crm_connection_id,
+          jobType: row.job_type,
+          stepIndex: row.step_index,
+          attemptNumber: row.attempt_number,
+          responseCode: row.response_code,
+          responseBody: row.response_body,
+          error: row.error || row.last_error,
+          errorClass: row.error_class,
+          attemptedAt: row.attempted_at || row.updated_at
+        });
+        failuresBySubmission.set(row.submission_id, list);
+      }
+    }
+
+    return res.json({
+      rows: result.rows.map((row) => ({
+        id: row.id,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        campusId: row.campus_id,
+        programId: row.program_id,
+        firstName: row.first_name,
+        lastName: row.last_name,
+        email: row.email,
+        status: row.status,
+        failures: failuresBySubmission.get(row.id) || []
+      })),
+      total: Number(countResult.rows[0]?.total || 0),
+      limit,
+      offset
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Admin dead letters error");
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.post("/api/admin/schools/:schoolId/dead-letters/retry", requireSchoolAccess, async (req, res) => {
+  try {
+    const school = res.locals.school;
+    const auth = res.locals.auth as AuthContext | null;
+
+    const parseResult = AdminDeliveryRetrySchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid payload", details: parseResult.error.format() });
+    }
+
+    const submissionIds = Array.from(new Set(parseResult.data.submissionIds));
+    const found = await pool.query(
+      `
+        SELECT id
+        FROM submissions
+        WHERE client_id = $1 AND school_id = $2 AND id = ANY($3::uuid[])
+          AND status IN ('failed', 'partially_delivered')
+      `,
+      [school.client_id, school.id, submissionIds]
+    );
+    const retryable = new Set(found.rows.map((row) => row.id as string));
+    const triggeredBy = { userId: auth?.user.id || null, email: auth?.user.email || null };
+
+    const retried: { submissionId: string; jobs: number }[] = [];
+    for (const submissionId of submissionIds.filter((id) => retryable.has(id))) {
+      const jobs = await requeueFailedDeliveries(school.client_id, school.id, submissionId);
+      if (jobs.length === 0) continue;
+
+      await pool.query(
+        `INSERT INTO audit_log (id, client_id, submission_id, event, payload, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [uuidv4(), school.client_id, submissionId, "retry_requested", { ...triggeredBy, jobs }, new Date()]
+      );
+      retried.push({ submissionId, jobs: jobs.length });
+    }
+
+    const skipped = submissionIds.filter((id) => !retried.some((item) => item.submissionId === id));
+
+    await logAdminAudit(school.client_id, school.id, "delivery_retry_requested", {
+      ...triggeredBy,
+      submissionIds: retried.map((item) => item.submissionId),
+      jobs: retried.reduce((total, item) => total + item.jobs, 0),
+      skipped
+    });
+
+    return res.json({ retried, skipped });
+  } catch (error) {
+    logger.error({ err: error }, "Admin dead letter retry error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -1301,7 +1806,7 @@ app.get("/api/admin/schools/:schoolId/users", requireSchoolAccess, async (req, r
       }))
     });
   } catch (error) {
-    console.error("Admin users list error", error);
+    logger.error({ err: error }, "Admin users list error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -1382,7 +1887,7 @@ app.post("/api/admin/schools/:schoolId/users", requireSchoolAccess, async (req,
 
     return res.status(201).json({ id: userId, email: normalizedEmail });
   } catch (error) {
-    console.error("Admin users create error", error);
+    logger.error({ err: error }, "Admin users create error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -1430,7 +1935,7 @@ app.post("/api/admin/drafts", async (req, res) => {
 
     return res.json({ status: "ok" });
   } catch (error) {
-    console.error("Admin draft save error", error);
+    logger.error({ err: error }, "Admin draft save error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -1442,7 +1947,7 @@ app.get("/api/admin/schools/:schoolId/config", requireSchoolAccess, async (req,
     const schoolConfig = await configStore.getSchoolConfig(school.client_id, school.id);
     return res.json({ config: schoolConfig });
   } catch (error) {
-    console.error("Admin config fetch error", error);
+    logger.error({ err: error }, "Admin config fetch error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -1463,7 +1968,7 @@ app.get("/api/admin/schools/:schoolId/schools", requireSchoolAccess, async (req,
       }))
     });
   } catch (error) {
-    console.error("Admin schools error", error);
+    logger.error({ err: error }, "Admin schools error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -1490,7 +1995,7 @@ app.post("/api/admin/schools/:schoolId/config", requireSchoolAccess, async (req,
 
     return res.json({ status: "ok" });
   } catch (error) {
-    console.error("Admin config update error", error);
+    logger.error({ err: error }, "Admin config update error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -1522,11 +2027,157 @@ app.post("/api/admin/schools/:schoolId/config/rollback", requireSchoolAccess, as
 
     return res.json({ status: "ok" });
   } catch (error) {
-    console.error("Admin config rollback error", error);
+    logger.error({ err: error }, "Admin config rollback error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
+app.post("/api/admin/schools/:schoolId/notifications/preview", requireSchoolAccess, async (req, res) => {
+  try {
+    const school = res.locals.school;
+
+    const parseResult = AdminNotificationPreviewSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid payload", details: parseResult.error.format() });
+    }
+
+    const config = await getConfigForClient(school.client_id);
+    const programId =
+      parseResult.data.programId || config.programs.find((item) => item.schoolId === school.id)?.id;
+    const entities = programId
+      ? resolveEntitiesByIds(config, school.id, parseResult.data.campusId, programId)
+      : null;
+    if (!entities) {
+      return res.status(404).json({ error: "Program or campus not found" });
+    }
+
+    const landingPage = config.landingPages.find(
+      (item) => item.schoolId === school.id && item.programId === entities.program.id
+    );
+    const questions = resolveLeadQuestions(config, entities.program, landingPage);
+    const email = buildNotificationEmail(
+      {
+        ...entities,
+        questions,
+        submission: buildSampleSubmission(questions),
+        assetBaseUrl: env.emailAssetBaseUrl
+      },
+      parseResult.data.template ?? entities.school.notificationTemplate
+    );
+
+    return res.json({ ...email, template: entities.school.notificationTemplate || null });
+  } catch (error) {
+    logger.error({ err: error }, "Admin notification preview error");
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.put(
+  "/api/admin/schools/:schoolId/notifications/template",
+  requireSchoolAccess,
+  requireConfigAccess,
+  async (req, res) => {
+    try {
+      const school = res.locals.school;
+      const auth = res.locals.auth as AuthContext | null;
+
+      const parseResult = AdminNotificationTemplateSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid payload", details: parseResult.error.format() });
+      }
+
+      const { template } = parseResult.data;
+      await pool.query(
+        "UPDATE schools SET notification_template = $1, updated_at = $2 WHERE id = $3 AND client_id = $4",
+        [template ? JSON.stringify(template) : null, new Date(), school.id, school.client_id]
+      );
+      await logAdminAudit(school.client_id, school.id, "notification_template_updated", {
+        userId: auth?.user.id || null,
+        reset: template === null
+      });
+
+      invalidateConfigCache(school.client_id);
+
+      return res.json({ status: "ok" });
+    } catch (error) {
+      logger.error({ err: error }, "Admin notification template update error");
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Connections a school can deliver to: its primary, the additional destinations and any routing rule target.
+function schoolConnectionIds(school: Config["schools"][number]) {
+  return new Set([
+    school.crmConnectionId,
+    ...school.additionalCrmConnectionIds,
+    ...school.routingRules.map((rule) => rule.crmConnectionId)
+  ]);
+}
+
+app.post(
+  "/api/admin/schools/:schoolId/crm-connections/:connectionId/test",
+  requireSchoolAccess,
+  requireConfigAccess,
+  async (req, res) => {
+    try {
+      const school = res.locals.school;
+      const auth = res.locals.auth as AuthContext | null;
+      const { connectionId } = req.params;
+
+      const parseResult = AdminConnectionTestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid payload", details: parseResult.error.format() });
+      }
+
+      const config = await getConfigForClient(school.client_id);
+      const schoolConfig = config.schools.find((item) => item.id === school.id);
+      const connection = config.crmConnections.find((item) => item.id === connectionId);
+      if (!schoolConfig || !connection || !schoolConnectionIds(schoolConfig).has(connection.id)) {
+        return res.status(404).json({ error: "CRM connection not found" });
+      }
+
+      const { campusId, action, crmLeadId, dryRun } = parseResult.data;
+      const programId = parseResult.data.programId || config.programs.find((item) => item.schoolId === school.id)?.id;
+      if (!programId || !resolveEntitiesByIds(config, school.id, campusId, programId)) {
+        return res.status(404).json({ error: "Program or campus not found" });
+      }
+
+      const outcome = await runConnectionTest(
+        {
+          clientId: school.client_id,
+          schoolId: school.id,
+          crmConnectionId: connection.id,
+          programId,
+          campusId,
+          action,
+          crmLeadId,
+          dryRun
+        },
+        env.connectionTestTimeoutMs
+      );
+
+      await logAdminAudit(school.client_id, school.id, "crm_connection_tested", {
+        userId: auth?.user.id || null,
+        crmConnectionId: connection.id,
+        dryRun,
+        outcome: outcome.status === "completed" ? (outcome.result.success ? "success" : "failure") : outcome.status
+      });
+
+      if (outcome.status === "timeout") {
+        return res.status(504).json({ error: "The worker did not finish the connection test in time" });
+      }
+      if (outcome.status === "failed") {
+        return res.status(502).json({ error: outcome.error });
+      }
+      return res.json(outcome.result);
+    } catch (error) {
+      logger.error({ err: error }, "Admin connection test error");
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
 app.get("/api/admin/schools/:schoolId/audit", requireSchoolAccess, async (req, res) => {
   try {
     const school = res.locals.school;
@@ -1552,7 +2203,7 @@ app.get("/api/admin/schools/:schoolId/audit", requireSchoolAccess, async (req, r
       }))
     });
   } catch (error) {
-    console.error("Admin audit list error", error);
+    logger.error({ err: error }, "Admin audit list error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -1631,7 +2282,7 @@ app.patch("/api/admin/schools/:schoolId/users/:userId", requireSchoolAccess, asy
 
     return res.json({ status: "ok" });
   } catch (error) {
-    console.error("Admin users update error", error);
+    logger.error({ err: error }, "Admin users update error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -1676,7 +2327,7 @@ app.get(
         }
       });
     } catch (error) {
-      console.error("Config landing fetch error", error);
+      logger.error({ err: error }, "Config landing fetch error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -1833,7 +2484,7 @@ app.put(
 
       return res.json({ status: "updated", versionId });
     } catch (error) {
-      console.error("Config landing update error", error);
+      logger.error({ err: error }, "Config landing update error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -1869,7 +2520,7 @@ app.post(
 
       return res.json({ status: "pending_approval" });
     } catch (error) {
-      console.error("Config draft submit error", error);
+      logger.error({ err: error }, "Config draft submit error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -1987,7 +2638,7 @@ app.post(
 
       return res.json({ status: "approved" });
     } catch (error) {
-      console.error("Config draft approve error", error);
+      logger.error({ err: error }, "Config draft approve error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -2039,7 +2690,7 @@ app.post(
 
       return res.json({ status: "rejected" });
     } catch (error) {
-      console.error("Config draft reject error", error);
+      logger.error({ err: error }, "Config draft reject error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -2092,7 +2743,7 @@ app.get(
         }))
       });
     } catch (error) {
-      console.error("Config drafts list error", error);
+      logger.error({ err: error }, "Config drafts list error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -2144,7 +2795,7 @@ app.get(
 
       return res.json({ questions });
     } catch (error) {
-      console.error("Quiz questions list error", error);
+      logger.error({ err: error }, "Quiz questions list error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -2189,7 +2840,7 @@ app.post(
 
       return res.status(201).json({ id: questionId });
     } catch (error) {
-      console.error("Quiz question create error", error);
+      logger.error({ err: error }, "Quiz question create error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -2235,7 +2886,7 @@ app.put(
 
       return res.json({ success: true });
     } catch (error) {
-      console.error("Quiz question update error", error);
+      logger.error({ err: error }, "Quiz question update error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -2270,7 +2921,7 @@ app.delete(
 
       return res.json({ success: true });
     } catch (error) {
-      console.error("Quiz question delete error", error);
+      logger.error({ err: error }, "Quiz question delete error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -2321,7 +2972,7 @@ app.post(
 
       return res.status(201).json({ id: optionId });
     } catch (error) {
-      console.error("Quiz option create error", error);
+      logger.error({ err: error }, "Quiz option create error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -2353,7 +3004,7 @@ app.put(
 
       return res.json({ success: true });
     } catch (error) {
-      console.error("Quiz option update error", error);
+      logger.error({ err: error }, "Quiz option update error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -2382,7 +3033,7 @@ app.delete(
 
       return res.json({ success: true });
     } catch (error) {
-      console.error("Quiz option delete error", error);
+      logger.error({ err: error }, "Quiz option delete error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -2465,7 +3116,7 @@ app.post(
         })
       });
     } catch (error) {
-      console.error("Quiz recommendation error", error);
+      logger.error({ err: error }, "Quiz recommendation error");
       return res.status(500).json({ error: "Internal server error" });
     }
   }
@@ -2504,7 +3155,7 @@ app.get("/api/super/clients", async (req, res) => {
       }))
     });
   } catch (error) {
-    console.error("Super clients list error", error);
+    logger.error({ err: error }, "Super clients list error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -2553,7 +3204,7 @@ app.get("/api/super/tree", async (req, res) => {
 
     return res.json({ clients });
   } catch (error) {
-    console.error("Super tree error", error);
+    logger.error({ err: error }, "Super tree error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -2588,7 +3239,7 @@ app.post("/api/super/clients", async (req, res) => {
 
     return res.status(201).json({ id, name });
   } catch (error) {
-    console.error("Super clients create error", error);
+    logger.error({ err: error }, "Super clients create error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -2609,7 +3260,7 @@ app.get("/api/super/clients/:clientId", async (req, res) => {
 
     return res.json({ client: result.rows[0] });
   } catch (error) {
-    console.error("Super client fetch error", error);
+    logger.error({ err: error }, "Super client fetch error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -2644,7 +3295,7 @@ app.patch("/api/super/clients/:clientId", async (req, res) => {
 
     return res.json({ id: clientId, name: nextName });
   } catch (error) {
-    console.error("Super client update error", error);
+    logger.error({ err: error }, "Super client update error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -2694,7 +3345,7 @@ app.post("/api/super/clients/:clientId/schools", async (req, res) => {
 
     return res.status(201).json({ id, slug, name });
   } catch (error) {
-    console.error("Super schools create error", error);
+    logger.error({ err: error }, "Super schools create error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -2718,7 +3369,7 @@ app.get("/api/super/clients/:clientId/schools/:schoolId", async (req, res) => {
     }
     return res.json({ school: result.rows[0] });
   } catch (error) {
-    console.error("Super school fetch error", error);
+    logger.error({ err: error }, "Super school fetch error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -2787,7 +3438,7 @@ app.patch("/api/super/clients/:clientId/schools/:schoolId", async (req, res) =>
 
     return res.json({ id: schoolId, ...next });
   } catch (error) {
-    console.error("Super school update error", error);
+    logger.error({ err: error }, "Super school update error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -2839,7 +3490,7 @@ app.post("/api/super/clients/:clientId/programs", async (req, res) => {
 
     return res.status(201).json({ id, slug, name });
   } catch (error) {
-    console.error("Super programs create error", error);
+    logger.error({ err: error }, "Super programs create error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -2863,7 +3514,7 @@ app.get("/api/super/clients/:clientId/programs/:programId", async (req, res) =>
     }
     return res.json({ program: result.rows[0] });
   } catch (error) {
-    console.error("Super program fetch error", error);
+    logger.error({ err: error }, "Super program fetch error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -2929,7 +3580,7 @@ app.patch("/api/super/clients/:clientId/programs/:programId", async (req, res) =
 
     return res.json({ id: programId, ...next });
   } catch (error) {
-    console.error("Super program update error", error);
+    logger.error({ err: error }, "Super program update error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -2991,12 +3642,158 @@ app.post("/api/super/clients/:clientId/admin-user", async (req, res) => {
 
     return res.status(201).json({ id: userId, email: normalizedEmail });
   } catch (error) {
-    console.error("Super admin user create error", error);
+    logger.error({ err: error }, "Super admin user create error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.post("/api/lead/start", async (req, res) => {
+type LeadEntities = NonNullable<ReturnType<typeof resolveEntitiesByIds>>;
+
+function spamSubmission(req: express.Request, payload: z.infer<typeof StartSchema> | z.infer<typeof SubmitSchema>) {
+  return {
+    schoolId: payload.schoolId,
+    programId: payload.programId,
+    firstName: payload.firstName,
+    lastName: payload.lastName,
+    email: payload.email,
+    ip: req.ip || null,
+    deviceId: payload.metadata?.deviceId || null,
+    formToken: payload.formToken,
+    captchaToken: payload.captchaToken
+  };
+}
+
+// A quarantined lead is always stored on its own, so spam never drops or merges into a real prospect's lead.
+function leadDedupePolicy(policy: DedupePolicy, spam: SpamVerdict): DedupePolicy {
+  return spam.quarantined ? { ...policy, action: "new_lead" } : policy;
+}
+
+// Repeat leads tell the CRM who they repeat through metadata, which every payload version carries.
+function withRepeatOf(metadata: Record<string, unknown>, repeatOf: { id: string; created_at: Date } | null) {
+  return repeatOf ? { ...metadata, repeatOf: { submissionId: repeatOf.id, createdAt: repeatOf.created_at } } : metadata;
+}
+
+function deliveryJobOptions(jobId: string) {
+  return {
+    jobId,
+    attempts: env.deliveryMaxAttempts,
+    backoff: {
+      type: "crm_backoff",
+      delay: env.deliveryBackoffMs
+    },
+    removeOnComplete: true,
+    removeOnFail: false
+  };
+}
+
+/** Audit entries and delivery jobs for a start/submit request, by what the school's dedupe policy did with it. */
+async function handleLeadOutcome(
+  outcome: LeadPersistOutcome,
+  entities: LeadEntities,
+  details: { metadata: Record<string, unknown>; spam: SpamVerdict; stepIndex?: number }
+) {
+  const clientId = entities.school.clientId;
+  const schoolId = entities.school.id;
+  const { submissionId } = outcome;
+  const now = new Date();
+
+  if (outcome.kind !== "created") {
+    setSpanAttributes({ "lead.submission_id": submissionId, "lead.duplicate": outcome.kind });
+    setLogContext({ submissionId });
+  }
+
+  if (outcome.kind === "retry") {
+    logger.info("Duplicate submission accepted");
+    return;
+  }
+
+  if (outcome.kind === "dropped" || outcome.kind === "merged") {
+    await withDbSpan("INSERT", "audit_log", () =>
+      pool.query(
+        `INSERT INTO audit_log (id, client_id, submission_id, event, payload, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          uuidv4(),
+          clientId,
+          submissionId,
+          `duplicate_${outcome.kind}`,
+          { metadata: details.metadata, programId: entities.program.id, campusId: entities.campus?.id ?? null },
+          now
+        ]
+      )
+    );
+    logger.info({ dedupeAction: outcome.kind }, "Duplicate lead matched an earlier submission");
+
+    if (outcome.kind === "merged") {
+      // Not update_lead: the worker skips step updates it already delivered, and the merged answers are new.
+      await addDeliveryJob(
+        clientId,
+        "merge_lead",
+        { submissionId, stepIndex: outcome.match.last_step_completed || 1, clientId, schoolId },
+        deliveryJobOptions(`merge-${submissionId}-${uuidv4()}`)
+      );
+      logger.info({ jobType: "merge_lead" }, "Delivery job queued");
+    }
+    return;
+  }
+
+  const { spam } = details;
+  await withDbSpan("INSERT", "audit_log", () =>
+    pool.query(
+      `INSERT INTO audit_log (id, client_id, submission_id, event, payload, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        uuidv4(),
+        clientId,
+        submissionId,
+        spam.quarantined ? "quarantined" : "received",
+        {
+          metadata: details.metadata,
+          ...(details.stepIndex ? { stepIndex: details.stepIndex } : {}),
+          ...(outcome.kind === "repeat" ? { repeatOf: outcome.match.id } : {}),
+          ...(spam.quarantined ? { spamScore: spam.score, spamReasons: spam.reasons } : {})
+        },
+        now
+      ]
+    )
+  );
+  submissionsCreatedTotal.inc({ client_id: clientId, school_id: schoolId });
+  logger.info(outcome.kind === "repeat" ? { repeatOf: outcome.match.id } : {}, "Submission received");
+
+  // Quarantined leads wait for an admin to release them (see the release route); nothing is delivered yet.
+  if (spam.quarantined) {
+    leadsQuarantinedTotal.inc({ client_id: clientId, school_id: schoolId });
+    logger.info({ spamScore: spam.score, spamChecks: spam.reasons.map((reason) => reason.check) }, "Lead quarantined");
+    return;
+  }
+
+  await queueNewLeadDelivery(entities, submissionId);
+}
+
+async function queueNewLeadDelivery(entities: Pick<LeadEntities, "school" | "program">, submissionId: string) {
+  const clientId = entities.school.clientId;
+  const schoolId = entities.school.id;
+
+  await addDeliveryJob(
+    clientId,
+    "create_lead",
+    { submissionId, stepIndex: 1, clientId, schoolId },
+    deliveryJobOptions(`create-${submissionId}`)
+  );
+  logger.info({ jobType: "create_lead" }, "Delivery job queued");
+
+  if (resolveAutoresponder(entities.school, entities.program)) {
+    await addDeliveryJob(
+      clientId,
+      "send_autoresponder",
+      { submissionId, clientId, schoolId },
+      deliveryJobOptions(`autoresponder-${submissionId}`)
+    );
+    logger.info({ jobType: "send_autoresponder" }, "Delivery job queued");
+  }
+}
+
+app.post("/api/lead/start", traceRoute("POST /api/lead/start"), publicLimiter, async (req, res) => {
   try {
     const parseResult = StartSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -3025,11 +3822,27 @@ app.post("/api/lead/start", async (req, res) => {
       return res.status(404).json({ error: "Unknown campus/program" });
     }
 
+    const answersResult = validateLeadAnswers(config, entities.program, payload.answers, { partial: true });
+    if (!answersResult.ok) {
+      return res.status(400).json({ error: "Invalid answers", fieldErrors: answersResult.fieldErrors });
+    }
+
+    const phone = normalizePhone(payload.phone, entities.school.defaultPhoneCountry);
+    if (!phone.ok) {
+      return res.status(400).json({ error: phone.error, fieldErrors: { phone: phone.error } });
+    }
+
     const submissionId = uuidv4();
+    setSpanAttributes({
+      "lead.client_id": entities.school.clientId,
+      "lead.school_id": payload.schoolId,
+      "lead.submission_id": submissionId
+    });
+    setLogContext({ clientId: entities.school.clientId, schoolId: payload.schoolId, submissionId });
     const idempotencyKey = computeIdempotencyKey({
       clientId: entities.school.clientId,
       email: payload.email,
-      phone: payload.phone,
+      phone: phone.e164,
       schoolId: payload.schoolId,
       campusId: payload.campusId,
       programId: payload.programId
@@ -3037,92 +3850,68 @@ app.post("/api/lead/start", async (req, res) => {
 
     const now = new Date();
     const metadata = buildMetadata(req, payload.metadata);
+    const spam = await scoreLead(spamSubmission(req, payload), now);
 
-    const insertResult = await pool.query(
-      `
-        INSERT INTO submissions
-          (id, client_id, created_at, updated_at, school_id, campus_id, program_id, first_name, last_name, email, phone, answers, metadata, status, idempotency_key, consented, consent_text_version, consent_timestamp, last_step_completed, created_from_step)
-        VALUES
-          ($1, $2, $3, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $18)
-        ON CONFLICT (idempotency_key) DO NOTHING
-        RETURNING id, status
-      `,
-      [
-        submissionId,
-        entities.school.clientId,
-        now,
-        payload.schoolId,
-        payload.campusId,
-        payload.programId,
-        payload.firstName,
-        payload.lastName,
-        payload.email.toLowerCase(),
-        payload.phone,
-        payload.answers,
-        metadata,
-        "received",
-        idempotencyKey,
-        payload.consent.consented,
-        payload.consent.textVersion,
-        new Date(payload.consent.timestamp),
-        1
-      ]
-    );
-
-    let finalSubmissionId = submissionId;
-    let wasInserted = true;
-
-    if (insertResult.rowCount === 0) {
-      wasInserted = false;
-      const existing = await pool.query(
-        "SELECT id, status FROM submissions WHERE idempotency_key = $1 AND client_id = $2",
-        [idempotencyKey, entities.school.clientId]
-      );
-      if (existing.rows.length === 0) {
-        return res.status(500).json({ error: "Failed to persist submission" });
-      }
-      finalSubmissionId = existing.rows[0].id;
-      console.log(`[${finalSubmissionId}] Duplicate submission accepted`);
-    } else {
-      await pool.query(
-        `INSERT INTO audit_log (id, client_id, submission_id, event, payload, created_at)
-         VALUES ($1, $2, $3, $4, $5, $6)`,
-        [uuidv4(), entities.school.clientId, submissionId, "received", { metadata, stepIndex: 1 }, now]
-      );
-      console.log(`[${submissionId}] Submission received`);
-    }
-
-    if (wasInserted) {
-      await deliveryQueue.add(
-        "create_lead",
+    const outcome = await withDbSpan("INSERT", "submissions", () =>
+      persistLead(
+        pool,
+        leadDedupePolicy(entities.school.dedupe, spam),
         {
-          submissionId,
-          stepIndex: 1,
           clientId: entities.school.clientId,
-          schoolId: payload.schoolId
+          schoolId: payload.schoolId,
+          programId: payload.programId,
+          email: payload.email,
+          phoneE164: phone.e164,
+          idempotencyKey,
+          answers: answersResult.answers
         },
-        {
-          jobId: `create-${submissionId}`,
-          attempts: env.deliveryMaxAttempts,
-          backoff: {
-            type: "exponential",
-            delay: env.deliveryBackoffMs
-          },
-          removeOnComplete: true,
-          removeOnFail: false
-        }
-      );
-      console.log(`[${submissionId}] Create lead job queued`);
-    }
+        submissionId,
+        (db, repeatOf) =>
+          db.query(
+            `
+              INSERT INTO submissions
+                (id, client_id, created_at, updated_at, school_id, campus_id, program_id, first_name, last_name, email, phone, answers, metadata, status, idempotency_key, consented, consent_text_version, consent_timestamp, last_step_completed, created_from_step, phone_e164, repeat_of_submission_id, spam_score, spam_reasons)
+              VALUES
+                ($1, $2, $3, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $18, $19, $20, $21, $22)
+            `,
+            [
+              submissionId,
+              entities.school.clientId,
+              now,
+              payload.schoolId,
+              payload.campusId,
+              payload.programId,
+              payload.firstName,
+              payload.lastName,
+              payload.email.toLowerCase(),
+              payload.phone,
+              answersResult.answers,
+              withRepeatOf(metadata, repeatOf),
+              spam.quarantined ? "quarantined" : "received",
+              idempotencyKey,
+              payload.consent.consented,
+              payload.consent.textVersion,
+              new Date(payload.consent.timestamp),
+              1,
+              phone.e164,
+              repeatOf?.id ?? null,
+              spam.score,
+              JSON.stringify(spam.reasons)
+            ]
+          ).then(() => undefined)
+      )
+    );
+
+    await handleLeadOutcome(outcome, entities, { metadata, spam, stepIndex: 1 });
 
-    return res.status(202).json({ submissionId: finalSubmissionId, status: "received", idempotencyKey });
+    return res.status(202).json({ submissionId: outcome.submissionId, status: "received", idempotencyKey });
   } catch (error) {
-    console.error("Start lead error", error);
+    logger.error({ err: error }, "Start lead error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.post("/api/lead/step", async (req, res) => {
+app.post("/api/lead/step", traceRoute("POST /api/lead/step"), publicLimiter, async (req, res) => {
   try {
     const parseResult = StepSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -3135,17 +3924,42 @@ app.post("/api/lead/step", async (req, res) => {
       return res.status(400).json({ error: "No answers provided" });
     }
 
+    const submissionResult = await withDbSpan("SELECT", "submissions", () =>
+      pool.query("SELECT client_id, program_id, answers FROM submissions WHERE id = $1", [payload.submissionId])
+    );
+    const submission = submissionResult.rows[0];
+    if (!submission) {
+      return res.status(404).json({ error: "Submission not found" });
+    }
+
+    const config = await getConfigForClient(submission.client_id);
+    const program = config.programs.find((item) => item.id === submission.program_id);
+    if (!program) {
+      return res.status(404).json({ error: "Unknown campus/program" });
+    }
+
+    // Earlier steps' answers decide which showIf questions this step may answer.
+    const answersResult = validateLeadAnswers(config, program, payload.answers, {
+      partial: true,
+      previousAnswers: submission.answers
+    });
+    if (!answersResult.ok) {
+      return res.status(400).json({ error: "Invalid answers", fieldErrors: answersResult.fieldErrors });
+    }
+
     const now = new Date();
-    const updateResult = await pool.query(
-      `
-        UPDATE submissions
-        SET answers = COALESCE(answers, '{}'::jsonb) || $1::jsonb,
-            updated_at = $2,
-            last_step_completed = GREATEST(COALESCE(last_step_completed, 0), $3)
-        WHERE id = $4
-        RETURNING id, status, client_id, school_id
-      `,
-      [payload.answers, now, payload.stepIndex, payload.submissionId]
+    const updateResult = await withDbSpan("UPDATE", "submissions", () =>
+      pool.query(
+        `
+          UPDATE submissions
+          SET answers = COALESCE(answers, '{}'::jsonb) || $1::jsonb,
+              updated_at = $2,
+              last_step_completed = GREATEST(COALESCE(last_step_completed, 0), $3)
+          WHERE id = $4
+          RETURNING id, status, client_id, school_id
+        `,
+        [answersResult.answers, now, payload.stepIndex, payload.submissionId]
+      )
     );
 
     if (updateResult.rowCount === 0) {
@@ -3160,14 +3974,29 @@ app.post("/api/lead/step", async (req, res) => {
     if (!submissionSchoolId) {
       return res.status(500).json({ error: "Missing school context" });
     }
+    setSpanAttributes({
+      "lead.client_id": submissionClientId,
+      "lead.school_id": submissionSchoolId,
+      "lead.submission_id": payload.submissionId,
+      "lead.step_index": payload.stepIndex
+    });
+    setLogContext({ clientId: submissionClientId, schoolId: submissionSchoolId, submissionId: payload.submissionId });
 
-    await pool.query(
-      `INSERT INTO audit_log (id, client_id, submission_id, event, payload, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6)`,
-      [uuidv4(), submissionClientId, payload.submissionId, "step_update", { stepIndex: payload.stepIndex }, now]
+    await withDbSpan("INSERT", "audit_log", () =>
+      pool.query(
+        `INSERT INTO audit_log (id, client_id, submission_id, event, payload, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [uuidv4(), submissionClientId, payload.submissionId, "step_update", { stepIndex: payload.stepIndex }, now]
+      )
     );
 
-    await deliveryQueue.add(
+    // Releasing a quarantined lead delivers everything answered so far.
+    if (updateResult.rows[0]?.status === "quarantined") {
+      return res.status(202).json({ submissionId: payload.submissionId, status: "received" });
+    }
+
+    await addDeliveryJob(
+      submissionClientId,
       "update_lead",
       {
         submissionId: payload.submissionId,
@@ -3179,7 +4008,7 @@ app.post("/api/lead/step", async (req, res) => {
         jobId: `update-${payload.submissionId}-${payload.stepIndex}`,
         attempts: env.deliveryMaxAttempts,
         backoff: {
-          type: "exponential",
+          type: "crm_backoff",
           delay: env.deliveryBackoffMs
         },
         removeOnComplete: true,
@@ -3189,12 +4018,12 @@ app.post("/api/lead/step", async (req, res) => {
 
     return res.status(202).json({ submissionId: payload.submissionId, status: "received" });
   } catch (error) {
-    console.error("Step update error", error);
+    logger.error({ err: error }, "Step update error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.post("/api/submit", async (req, res) => {
+app.post("/api/submit", traceRoute("POST /api/submit"), publicLimiter, async (req, res) => {
   try {
     const parseResult = SubmitSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -3223,11 +4052,28 @@ app.post("/api/submit", async (req, res) => {
       return res.status(404).json({ error: "Unknown campus/program" });
     }
 
+    const answersResult = validateLeadAnswers(config, entities.program, payload.answers);
+    if (!answersResult.ok) {
+      return res.status(400).json({ error: "Invalid answers", fieldErrors: answersResult.fieldErrors });
+    }
+
+    const phone = payload.phone ? normalizePhone(payload.phone, entities.school.defaultPhoneCountry) : null;
+    if (phone && !phone.ok) {
+      return res.status(400).json({ error: phone.error, fieldErrors: { phone: phone.error } });
+    }
+    const phoneE164 = phone ? phone.e164 : null;
+
     const submissionId = uuidv4();
+    setSpanAttributes({
+      "lead.client_id": entities.school.clientId,
+      "lead.school_id": payload.schoolId,
+      "lead.submission_id": submissionId
+    });
+    setLogContext({ clientId: entities.school.clientId, schoolId: payload.schoolId, submissionId });
     const idempotencyKey = computeIdempotencyKey({
       clientId: entities.school.clientId,
       email: payload.email,
-      phone: payload.phone || null,
+      phone: phoneE164,
       schoolId: payload.schoolId,
       campusId: payload.campusId,
       programId: payload.programId
@@ -3235,92 +4081,175 @@ app.post("/api/submit", async (req, res) => {
 
     const now = new Date();
     const metadata = buildMetadata(req, payload.metadata);
+    const spam = await scoreLead(spamSubmission(req, payload), now);
 
-    const insertResult = await pool.query(
-      `
-        INSERT INTO submissions
-          (id, client_id, created_at, updated_at, school_id, campus_id, program_id, first_name, last_name, email, phone, answers, metadata, status, idempotency_key, consented, consent_text_version, consent_timestamp)
-        VALUES
-          ($1, $2, $3, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
-        ON CONFLICT (idempotency_key) DO NOTHING
-        RETURNING id, status
-      `,
-      [
+    const outcome = await withDbSpan("INSERT", "submissions", () =>
+      persistLead(
+        pool,
+        leadDedupePolicy(entities.school.dedupe, spam),
+        {
+          clientId: entities.school.clientId,
+          schoolId: payload.schoolId,
+          programId: payload.programId,
+          email: payload.email,
+          phoneE164,
+          idempotencyKey,
+          answers: answersResult.answers
+        },
         submissionId,
-        entities.school.clientId,
-        now,
-        payload.schoolId,
-        payload.campusId,
-        payload.programId,
-        payload.firstName,
-        payload.lastName,
-        payload.email.toLowerCase(),
-        payload.phone || null,
-        payload.answers,
-        metadata,
-        "received",
-        idempotencyKey,
-        payload.consent.consented,
-        payload.consent.textVersion,
-        new Date(payload.consent.timestamp)
-      ]
+        (db, repeatOf) =>
+          db.query(
+            `
+              INSERT INTO submissions
+                (id, client_id, created_at, updated_at, school_id, campus_id, program_id, first_name, last_name, email, phone, answers, metadata, status, idempotency_key, consented, consent_text_version, consent_timestamp, phone_e164, repeat_of_submission_id, spam_score, spam_reasons)
+              VALUES
+                ($1, $2, $3, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
+            `,
+            [
+              submissionId,
+              entities.school.clientId,
+              now,
+              payload.schoolId,
+              payload.campusId,
+              payload.programId,
+              payload.firstName,
+              payload.lastName,
+              payload.email.toLowerCase(),
+              payload.phone || null,
+              answersResult.answers,
+              withRepeatOf(metadata, repeatOf),
+              spam.quarantined ? "quarantined" : "received",
+              idempotencyKey,
+              payload.consent.consented,
+              payload.consent.textVersion,
+              new Date(payload.consent.timestamp),
+              phoneE164,
+              repeatOf?.id ?? null,
+              spam.score,
+              JSON.stringify(spam.reasons)
+            ]
+          ).then(() => undefined)
+      )
+    );
+
+    await handleLeadOutcome(outcome, entities, { metadata, spam });
+
+    return res.status(202).json({ submissionId: outcome.submissionId, status: "received", idempotencyKey });
+  } catch (error) {
+    logger.error({ err: error }, "Submission error");
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// CRMs report what happened to a lead after delivery. Callbacks are signed per connection (statusWebhook).
+app.post("/api/crm/:clientId/:connectionId/status", publicLimiter, async (req, res) => {
+  try {
+    const { clientId, connectionId } = req.params;
+
+    // The URL is the caller's to pick; an unknown client or connection is a 404, not a failed config load.
+    const known = await pool.query("SELECT 1 FROM crm_connections WHERE client_id = $1 AND id = $2", [
+      clientId,
+      connectionId
+    ]);
+    if (known.rows.length === 0) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    const config = await getConfigForClient(clientId);
+    const connection = config.crmConnections.find((item) => item.id === connectionId);
+    if (!connection?.statusWebhook) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    const rawBody = (req as express.Request & { rawBody?: string }).rawBody || "";
+    const verification = verifyStatusWebhook(connection.statusWebhook, rawBody, (name) => req.get(name));
+    if (!verification.ok) {
+      logger.warn({ clientId, crmConnectionId: connectionId, reason: verification.reason }, "CRM status webhook rejected");
+      return res.status(401).json({ error: "Invalid signature" });
+    }
+
+    const parseResult = CrmStatusUpdateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid payload", details: parseResult.error.format() });
+    }
+
+    const { crm_lead_id: crmLeadId, status: crmStatus } = parseResult.data;
+    const status = mapLifecycleStatus(connection.statusWebhook, crmStatus);
+    if (!status) {
+      return res.status(422).json({ error: `Unknown status: ${crmStatus}` });
+    }
+    const occurredAt = parseResult.data.occurred_at ? new Date(parseResult.data.occurred_at) : new Date();
+
+    const leadResult = await pool.query(
+      `SELECT s.id, s.school_id
+       FROM submission_destinations d
+       JOIN submissions s ON s.id = d.submission_id
+       WHERE d.client_id = $1 AND d.crm_connection_id = $2 AND d.crm_lead_id = $3
+       LIMIT 1`,
+      [clientId, connectionId, crmLeadId]
     );
+    const lead = leadResult.rows[0];
+    if (!lead) {
+      return res.status(404).json({ error: "Lead not found" });
+    }
+    setLogContext({ clientId, schoolId: lead.school_id, submissionId: lead.id });
 
-    let finalSubmissionId = submissionId;
-    let wasInserted = true;
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
 
-    if (insertResult.rowCount === 0) {
-      wasInserted = false;
-      const existing = await pool.query(
-        "SELECT id, status FROM submissions WHERE idempotency_key = $1 AND client_id = $2",
-        [idempotencyKey, entities.school.clientId]
+      const inserted = await client.query(
+        `INSERT INTO submission_status_history
+           (id, client_id, submission_id, crm_connection_id, status, crm_status, occurred_at, received_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (submission_id, crm_connection_id, status, occurred_at) DO NOTHING
+         RETURNING id`,
+        [uuidv4(), clientId, lead.id, connectionId, status, crmStatus, occurredAt, new Date()]
       );
-      if (existing.rows.length === 0) {
-        return res.status(500).json({ error: "Failed to persist submission" });
+      if (inserted.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return res.json({ submissionId: lead.id, status, duplicate: true });
       }
-      finalSubmissionId = existing.rows[0].id;
-      console.log(`[${finalSubmissionId}] Duplicate submission accepted`);
-    } else {
-      await pool.query(
+
+      // Callbacks can arrive out of order; only a newer event moves the current status.
+      await client.query(
+        `UPDATE submissions
+         SET lifecycle_status = $1, lifecycle_updated_at = $2
+         WHERE id = $3 AND client_id = $4 AND (lifecycle_updated_at IS NULL OR lifecycle_updated_at <= $2)`,
+        [status, occurredAt, lead.id, clientId]
+      );
+      await client.query(
         `INSERT INTO audit_log (id, client_id, submission_id, event, payload, created_at)
          VALUES ($1, $2, $3, $4, $5, $6)`,
-        [uuidv4(), entities.school.clientId, submissionId, "received", { metadata }, now]
+        [
+          uuidv4(),
+          clientId,
+          lead.id,
+          "crm_status_updated",
+          { crmConnectionId: connectionId, status, crmStatus, occurredAt: occurredAt.toISOString() },
+          new Date()
+        ]
       );
-      console.log(`[${submissionId}] Submission received`);
-    }
 
-    if (wasInserted) {
-      await deliveryQueue.add(
-        "create_lead",
-        {
-          submissionId,
-          stepIndex: 1,
-          clientId: entities.school.clientId,
-          schoolId: payload.schoolId
-        },
-        {
-          jobId: `create-${submissionId}`,
-          attempts: env.deliveryMaxAttempts,
-          backoff: {
-            type: "exponential",
-            delay: env.deliveryBackoffMs
-          },
-          removeOnComplete: true,
-          removeOnFail: false
-        }
-      );
-      console.log(`[${submissionId}] Create lead job queued`);
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
     }
 
-    return res.status(202).json({ submissionId: finalSubmissionId, status: "received", idempotencyKey });
+    crmStatusUpdatesTotal.inc({ client_id: clientId, status });
+    logger.info({ status, crmStatus }, "CRM status recorded");
+    return res.json({ submissionId: lead.id, status, duplicate: false });
   } catch (error) {
-    console.error("Submission error", error);
+    logger.error({ err: error }, "CRM status webhook error");
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
 if (process.env.NODE_ENV !== "test") {
   app.listen(env.port, () => {
-    console.log(`API listening on port ${env.port}`);
+    logger.info({ port: env.port }, "API listening");
   });
 }
@@ -0,0 +1,181 @@
+import type { Pool } from "pg";
+import type { CaptchaVerifier } from "./captcha";
+import { verifyFormToken } from "./formToken";
+
+export type SpamSubmission = {
+  schoolId: string;
+  programId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  ip: string | null;
+  deviceId: string | null;
+  formToken?: string;
+  captchaToken?: string;
+};
+
+/** One signal a check found, stored on the submission so admins can see why it was quarantined. */
+export type SpamReason = {
+  check: string;
+  score: number;
+  detail: string;
+};
+
+export type SpamVerdict = {
+  score: number;
+  reasons: SpamReason[];
+  quarantined: boolean;
+};
+
+export type SpamCheck = (submission: SpamSubmission, now: Date) => Promise<SpamReason | null> | SpamReason | null;
+
+/**
+ * Runs every check and adds up their scores. Leads at or over the threshold are quarantined instead of
+ * delivered; a threshold of 0 scores leads without quarantining any.
+ */
+export function createSpamScorer(checks: SpamCheck[], threshold: number) {
+  return async (submission: SpamSubmission, now = new Date()): Promise<SpamVerdict> => {
+    const results = await Promise.all(checks.map((check) => check(submission, now)));
+    const reasons = results.filter((reason): reason is SpamReason => reason !== null);
+    const score = reasons.reduce((total, reason) => total + reason.score, 0);
+    return { score, reasons, quarantined: threshold > 0 && score >= threshold };
+  };
+}
+
+const FORM_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** Time from the landing page render (see issueFormToken) to submit; bots post instantly or without a token. */
+export function formTimingCheck(secret: string, minSeconds: number): SpamCheck {
+  return (submission, now) => {
+    if (!submission.formToken) {
+      return { check: "form_timing", score: 2, detail: "No form token" };
+    }
+
+    const claims = verifyFormToken(submission.formToken, secret);
+    if (!claims || claims.schoolId !== submission.schoolId || claims.programId !== submission.programId) {
+      return { check: "form_timing", score: 3, detail: "Form token is invalid or for another form" };
+    }
+
+    const elapsedMs = now.getTime() - claims.issuedAt;
+    if (elapsedMs < minSeconds * 1000) {
+      return {
+        check: "form_timing",
+        score: 4,
+        detail: `Submitted ${Math.max(elapsedMs / 1000, 0).toFixed(1)}s after the form was shown`
+      };
+    }
+    if (elapsedMs > FORM_TOKEN_MAX_AGE_MS) {
+      return { check: "form_timing", score: 1, detail: "Form token is more than a day old" };
+    }
+    return null;
+  };
+}
+
+// Common throwaway inboxes; extend with SPAM_DISPOSABLE_DOMAINS.
+export const DISPOSABLE_EMAIL_DOMAINS = [
+  "10minutemail.com",
+  "discard.email",
+  "dispostable.com",
+  "fakeinbox.com",
+  "getnada.com",
+  "guerrillamail.com",
+  "guerrillamail.net",
+  "mailcatch.com",
+  "maildrop.cc",
+  "mailinator.com",
+  "mailnesia.com",
+  "mintemail.com",
+  "mohmal.com",
+  "sharklasers.com",
+  "spamgourmet.com",
+  "temp-mail.org",
+  "tempmail.com",
+  "tempmailo.com",
+  "throwawaymail.com",
+  "trashmail.com",
+  "yopmail.com"
+];
+
+export function disposableEmailCheck(domains: string[]): SpamCheck {
+  const blocked = new Set(domains.map((domain) => domain.trim().toLowerCase()).filter(Boolean));
+  return (submission) => {
+    const domain = submission.email.split("@").pop()?.trim().toLowerCase() || "";
+    // Subdomains of a listed domain count too (e.g. abc.mailinator.com)
+    const listed = Array.from(blocked).find((item) => domain === item || domain.endsWith(`.${item}`));
+    return listed ? { check: "disposable_email", score: 3, detail: `Disposable email domain ${listed}` } : null;
+  };
+}
+
+function describeGibberish(name: string): string | null {
+  const value = name.trim().toLowerCase();
+  if (/https?:|www\.|@/.test(value)) return "contains a link or email";
+  if (/\d/.test(value)) return "contains digits";
+  if (/(.)\1{3,}/.test(value)) return "repeats a character";
+
+  // Vowel checks only judge plain Latin letters (accents removed); names using other letters (ø, CJK…) skip them.
+  const unaccented = value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+  if (/[^\x00-\x7f]/.test(unaccented)) return null;
+  const letters = unaccented.replace(/[^a-z]/g, "");
+  if (letters.length >= 4 && !/[aeiouy]/.test(letters)) return "has no vowels";
+  if (/[bcdfghjklmnpqrstvwxz]{6,}/.test(letters)) return "has a long run of consonants";
+  return null;
+}
+
+export const gibberishNameCheck: SpamCheck = (submission) => {
+  const problems = [
+    ["First name", describeGibberish(submission.firstName)],
+    ["Last name", describeGibberish(submission.lastName)]
+  ]
+    .filter(([, problem]) => problem)
+    .map(([label, problem]) => `${label} ${problem}`);
+
+  if (
+    problems.length === 0 &&
+    submission.firstName.trim().length > 1 &&
+    submission.firstName.trim().toLowerCase() === submission.lastName.trim().toLowerCase()
+  ) {
+    problems.push("First and last name are the same");
+  }
+
+  return problems.length > 0 ? { check: "gibberish_name", score: 2, detail: problems.join("; ") } : null;
+};
+
+/** Many leads from one IP address or browser (metadata.deviceId) in a short window, across all schools. */
+export function repeatSubmissionCheck(db: Pick<Pool, "query">, windowMs: number, maxSubmissions: number): SpamCheck {
+  return async (submission, now) => {
+    if (!submission.ip && !submission.deviceId) {
+      return null;
+    }
+
+    const result = await db.query(
+      `SELECT COUNT(*)::int AS count
+       FROM submissions
+       WHERE created_at >= $1 AND (metadata->>'ip' = $2 OR metadata->>'deviceId' = $3)`,
+      [new Date(now.getTime() - windowMs), submission.ip, submission.deviceId]
+    );
+    const count = Number(result.rows[0]?.count || 0);
+    if (count < maxSubmissions) {
+      return null;
+    }
+    return {
+      check: "repeat_submissions",
+      score: 3,
+      detail: `${count} earlier submissions from this IP or device in the last ${Math.round(windowMs / 60_000)} minutes`
+    };
+  };
+}
+
+export function captchaCheck(verifier: CaptchaVerifier): SpamCheck {
+  return async (submission) => {
+    if (!submission.captchaToken) {
+      return { check: "captcha", score: 3, detail: "No CAPTCHA token" };
+    }
+    try {
+      const result = await verifier.verify(submission.captchaToken, submission.ip);
+      return result.success ? null : { check: "captcha", score: 5, detail: `${verifier.name}: ${result.error}` };
+    } catch (error) {
+      // A provider outage should not quarantine real leads; the zero-score reason keeps it visible.
+      return { check: "captcha", score: 0, detail: `${verifier.name} unavailable: ${(error as Error).message}` };
+    }
+  };
+}
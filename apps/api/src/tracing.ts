@@ -0,0 +1,158 @@
+import fs from "fs";
+import type { NextFunction, Request, Response } from "express";
+import {
+  SpanKind,
+  SpanStatusCode,
+  context,
+  propagation,
+  trace,
+  type Attributes,
+  type Span,
+  type SpanOptions
+} from "@opentelemetry/api";
+import { ExportResultCode, hrTimeToMilliseconds, type ExportResult } from "@opentelemetry/core";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter,
+  type SpanProcessor
+} from "@opentelemetry/sdk-trace-node";
+import { env } from "./env";
+
+const SERVICE_NAME = "lead-lander-api";
+
+// Not cached at module load: a tracer fetched before startTracing() registers the provider stays a no-op.
+function getTracer() {
+  return trace.getTracer(SERVICE_NAME);
+}
+
+// W3C trace context (traceparent/tracestate) carried inside queued job data.
+export type TraceCarrier = Record<string, string>;
+
+type TracingOptions = {
+  otlpEndpoint?: string;
+  filePath?: string;
+};
+
+/** Appends finished spans to a file as JSON lines, for tests and local runs without a collector. */
+export class FileSpanExporter implements SpanExporter {
+  constructor(private readonly filePath: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void) {
+    try {
+      const lines = spans.map((span) =>
+        JSON.stringify({
+          traceId: span.spanContext().traceId,
+          spanId: span.spanContext().spanId,
+          parentSpanId: span.parentSpanContext?.spanId || null,
+          name: span.name,
+          service: span.resource.attributes["service.name"],
+          startTime: hrTimeToMilliseconds(span.startTime),
+          durationMs: hrTimeToMilliseconds(span.duration),
+          status: span.status,
+          attributes: span.attributes
+        })
+      );
+      fs.appendFileSync(this.filePath, lines.map((line) => `${line}\n`).join(""));
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch (error) {
+      resultCallback({ code: ExportResultCode.FAILED, error: error as Error });
+    }
+  }
+
+  async shutdown() {}
+}
+
+let provider: NodeTracerProvider | null = null;
+
+/**
+ * Registers the global tracer provider. Spans are exported to the OTLP/HTTP collector and/or the span file
+ * when configured; with neither set nothing is registered and every span below is a no-op.
+ */
+export function startTracing(options: TracingOptions = { otlpEndpoint: env.otlpEndpoint, filePath: env.tracingFile }) {
+  if (provider) {
+    return provider;
+  }
+
+  const spanProcessors: SpanProcessor[] = [];
+  if (options.otlpEndpoint) {
+    const url = `${options.otlpEndpoint.replace(/\/$/, "")}/v1/traces`;
+    spanProcessors.push(new BatchSpanProcessor(new OTLPTraceExporter({ url })));
+  }
+  if (options.filePath) {
+    spanProcessors.push(new SimpleSpanProcessor(new FileSpanExporter(options.filePath)));
+  }
+  if (spanProcessors.length === 0) {
+    return null;
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ "service.name": SERVICE_NAME }),
+    spanProcessors
+  });
+  provider.register();
+  return provider;
+}
+
+export async function flushTracing() {
+  await provider?.forceFlush();
+}
+
+export function withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+  return getTracer().startActiveSpan(name, options, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+export function withDbSpan<T>(operation: string, table: string, fn: () => Promise<T>) {
+  return withSpan(
+    `${operation} ${table}`,
+    {
+      kind: SpanKind.CLIENT,
+      attributes: { "db.system": "postgresql", "db.operation.name": operation, "db.collection.name": table }
+    },
+    fn
+  );
+}
+
+export function setSpanAttributes(attributes: Attributes) {
+  trace.getActiveSpan()?.setAttributes(attributes);
+}
+
+/** Opens a server span per request and keeps it active for the handler, so nested spans attach to it. */
+export function traceRoute(name: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const parentContext = propagation.extract(context.active(), req.headers);
+    const span = getTracer().startSpan(
+      name,
+      { kind: SpanKind.SERVER, attributes: { "http.request.method": req.method, "url.path": req.path } },
+      parentContext
+    );
+    res.on("finish", () => {
+      span.setAttribute("http.response.status_code", res.statusCode);
+      if (res.statusCode >= 500) {
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      span.end();
+    });
+    context.with(trace.setSpan(parentContext, span), next);
+  };
+}
+
+export function injectTraceContext(): TraceCarrier | undefined {
+  const carrier: TraceCarrier = {};
+  propagation.inject(context.active(), carrier);
+  return Object.keys(carrier).length > 0 ? carrier : undefined;
+}
@@ -0,0 +1,121 @@
+import path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { signPayload } from "@lead_lander/webhook-signing";
+import { loadConfig } from "@lead_lander/config-schema";
+
+const { mockQuery, mockClientQuery, getConfigForClient } = vi.hoisted(() => ({
+  mockQuery: vi.fn(),
+  mockClientQuery: vi.fn(),
+  getConfigForClient: vi.fn()
+}));
+
+vi.mock("../src/db", () => ({
+  pool: {
+    query: mockQuery,
+    connect: async () => ({ query: mockClientQuery, release: () => undefined })
+  }
+}));
+
+vi.mock("../src/config", () => ({
+  getConfigForClient,
+  invalidateConfigCache: vi.fn()
+}));
+
+vi.mock("bullmq", () => ({
+  Queue: class {
+    add = vi.fn();
+    constructor(public name: string) {}
+  }
+}));
+
+import { app } from "../src/server";
+
+const secret = "status-secret";
+const baseConfig = loadConfig(path.resolve(__dirname, "../../../configs"));
+const connectionId = baseConfig.crmConnections[0].id;
+const submissionId = "3d8f7a1e-2b4c-4e6f-8a1b-9c0d1e2f3a4b";
+
+function post(body: Record<string, unknown>, signingSecret = secret) {
+  const raw = JSON.stringify(body);
+  const { signature, timestamp } = signPayload({ secret: signingSecret, body: raw });
+  return request(app)
+    .post(`/api/crm/client-a/${connectionId}/status`)
+    .set("Content-Type", "application/json")
+    .set("X-LeadLander-Signature", signature)
+    .set("X-LeadLander-Timestamp", timestamp)
+    .send(raw);
+}
+
+beforeEach(() => {
+  mockQuery.mockReset();
+  mockClientQuery.mockReset();
+  getConfigForClient.mockReset();
+  getConfigForClient.mockResolvedValue({
+    ...baseConfig,
+    crmConnections: baseConfig.crmConnections.map((connection, index) =>
+      index === 0 ? { ...connection, statusWebhook: { secret, statusMap: { "Closed Won": "enrolled" } } } : connection
+    )
+  });
+  mockQuery.mockResolvedValue({ rows: [{ id: submissionId, school_id: "school_northwood" }] });
+});
+
+describe("CRM status webhook", () => {
+  it("records a mapped status in the history, submission and audit log", async () => {
+    mockClientQuery.mockImplementation(async (sql: string) =>
+      sql.includes("INSERT INTO submission_status_history") ? { rows: [{ id: "h-1" }] } : { rows: [] }
+    );
+
+    const response = await post({ crm_lead_id: "crm-42", status: "Closed Won", occurred_at: "2026-03-02T15:00:00Z" });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ submissionId, status: "enrolled", duplicate: false });
+    expect(mockQuery.mock.calls[0][1]).toEqual(["client-a", connectionId]);
+    expect(mockQuery.mock.calls[1][1]).toEqual(["client-a", connectionId, "crm-42"]);
+
+    const statements = mockClientQuery.mock.calls.map(([sql]) => sql.trim().split(/\s+/).slice(0, 3).join(" "));
+    expect(statements).toEqual([
+      "BEGIN",
+      "INSERT INTO submission_status_history",
+      "UPDATE submissions SET",
+      "INSERT INTO audit_log",
+      "COMMIT"
+    ]);
+    const audit = mockClientQuery.mock.calls[3][1];
+    expect(audit[3]).toBe("crm_status_updated");
+    expect(audit[4]).toMatchObject({ crmConnectionId: connectionId, status: "enrolled", crmStatus: "Closed Won" });
+  });
+
+  it("accepts lifecycle names directly and ignores repeated events", async () => {
+    mockClientQuery.mockResolvedValue({ rows: [] });
+
+    const response = await post({ crm_lead_id: "crm-42", status: "Appointment Set" });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ status: "appointment_set", duplicate: true });
+    expect(mockClientQuery.mock.calls.at(-1)?.[0]).toBe("ROLLBACK");
+  });
+
+  it("rejects unsigned or wrongly signed callbacks", async () => {
+    const response = await post({ crm_lead_id: "crm-42", status: "contacted" }, "wrong-secret");
+
+    expect(response.status).toBe(401);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+    expect(mockClientQuery).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for an unknown client or connection without loading its config", async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+
+    const response = await post({ crm_lead_id: "crm-42", status: "contacted" }, "wrong-secret");
+
+    expect(response.status).toBe(404);
+    expect(getConfigForClient).not.toHaveBeenCalled();
+  });
+
+  it("rejects statuses it cannot map", async () => {
+    const response = await post({ crm_lead_id: "crm-42", status: "Nurture" });
+
+    expect(response.status).toBe(422);
+  });
+});
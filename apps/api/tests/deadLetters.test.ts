@@ -0,0 +1,199 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+
+const { mockQuery, queueAdd } = vi.hoisted(() => ({
+  mockQuery: vi.fn(),
+  queueAdd: vi.fn()
+}));
+
+vi.mock("../src/db", () => ({
+  pool: {
+    query: mockQuery
+  }
+}));
+
+vi.mock("../src/config", () => ({
+  getConfigForClient: vi.fn(),
+  invalidateConfigCache: vi.fn()
+}));
+
+vi.mock("bullmq", () => ({
+  Queue: class {
+    add = queueAdd;
+    constructor(public name: string) {}
+  }
+}));
+
+import { app } from "../src/server";
+import { createSessionToken } from "../src/auth";
+import { env } from "../src/env";
+
+const failed = "11111111-1111-4111-8111-111111111111";
+const partial = "22222222-2222-4222-8222-222222222222";
+const delivered = "33333333-3333-4333-8333-333333333333";
+const beforeFanOut = "44444444-4444-4444-8444-444444444444";
+
+const session = `${env.authCookieName}=${createSessionToken("admin-1")}`;
+
+type QueryHandler = (sql: string, params: unknown[]) => { rows: unknown[] } | undefined;
+
+// Signed in as a client admin of Northwood; `handler` answers the route's own queries.
+function mockQueries(handler: QueryHandler) {
+  mockQuery.mockImplementation(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes("FROM users WHERE id")) {
+      return {
+        rows: [
+          {
+            id: "admin-1",
+            email: "admin@northwood.example",
+            password_hash: "x",
+            email_verified: true,
+            client_id: "client_northwood",
+            is_active: true
+          }
+        ]
+      };
+    }
+    if (sql.includes("FROM user_roles")) {
+      return { rows: [{ role: "client_admin", school_id: null }] };
+    }
+    if (sql.includes("FROM schools")) {
+      return { rows: [{ id: "school_northwood", client_id: "client_northwood", slug: "northwood", name: "Northwood" }] };
+    }
+    return handler(sql, params) || { rows: [] };
+  });
+}
+
+const callsTo = (fragment: string) => mockQuery.mock.calls.filter(([sql]) => String(sql).includes(fragment));
+
+beforeEach(() => {
+  mockQuery.mockReset();
+  queueAdd.mockReset();
+  queueAdd.mockResolvedValue({});
+});
+
+describe("GET /api/admin/schools/:schoolId/dead-letters", () => {
+  it("lists failed and partially delivered leads with their failed destinations", async () => {
+    mockQueries((sql) => {
+      if (sql.includes("COUNT(*)")) return { rows: [{ total: 2 }] };
+      if (sql.includes("FROM submissions")) {
+        return {
+          rows: [
+            { id: failed, status: "failed", first_name: "Ada", email: "ada@example.com" },
+            { id: partial, status: "partially_delivered", first_name: "Grace", email: "grace@example.com" }
+          ]
+        };
+      }
+      if (sql.includes("FROM submission_destinations d")) {
+        return {
+          rows: [
+            {
+              submission_id: partial,
+              crm_connection_id: "crm_backup",
+              last_error: "HTTP 500",
+              job_type: "create_lead",
+              step_index: 1,
+              attempt_number: 5,
+              response_code: 500,
+              error: null,
+              error_class: "retryable"
+            }
+          ]
+        };
+      }
+      return undefined;
+    });
+
+    const res = await request(app).get("/api/admin/schools/school_northwood/dead-letters").set("Cookie", session);
+
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(2);
+    expect(res.body.rows.map((row: { id: string; status: string }) => [row.id, row.status])).toEqual([
+      [failed, "failed"],
+      [partial, "partially_delivered"]
+    ]);
+    expect(res.body.rows[0].failures).toEqual([]);
+    expect(res.body.rows[1].failures).toEqual([
+      expect.objectContaining({ crmConnectionId: "crm_backup", error: "HTTP 500", errorClass: "retryable", responseCode: 500 })
+    ]);
+    for (const [sql] of callsTo("FROM submissions")) {
+      expect(sql).toContain("status IN ('failed', 'partially_delivered')");
+    }
+  });
+});
+
+describe("POST /api/admin/schools/:schoolId/dead-letters/retry", () => {
+  beforeEach(() => {
+    mockQueries((sql, params) => {
+      // Only failed and partially delivered leads are retryable; `delivered` is not returned.
+      if (sql.includes("FROM submissions") && sql.includes("status IN ('failed', 'partially_delivered')")) {
+        return { rows: [{ id: failed }, { id: partial }, { id: beforeFanOut }] };
+      }
+      if (sql.includes("SELECT DISTINCT da.crm_connection_id")) {
+        return params[1] === failed
+          ? {
+              rows: [
+                { crm_connection_id: "crm_backup", job_type: "create_lead", step_index: 1 },
+                { crm_connection_id: "crm_backup", job_type: "update_lead", step_index: 2 }
+              ]
+            }
+          : { rows: [] };
+      }
+      // The partially delivered lead has no failed attempts left to retry; the other never reached fan-out.
+      if (sql.includes("SELECT 1 FROM submission_destinations")) {
+        return { rows: params[1] === partial ? [{ exists: 1 }] : [] };
+      }
+      return undefined;
+    });
+  });
+
+  it("requeues only failed destinations and reports what it skipped", async () => {
+    const res = await request(app)
+      .post("/api/admin/schools/school_northwood/dead-letters/retry")
+      .set("Cookie", session)
+      .send({ submissionIds: [failed, partial, delivered, beforeFanOut] });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      retried: [
+        { submissionId: failed, jobs: 2 },
+        { submissionId: beforeFanOut, jobs: 1 }
+      ],
+      skipped: [partial, delivered]
+    });
+
+    expect(queueAdd.mock.calls.map(([name, data]) => [name, data.submissionId, data.crmConnectionId])).toEqual([
+      ["create_lead", failed, "crm_backup"],
+      ["update_lead", failed, "crm_backup"],
+      ["create_lead", beforeFanOut, undefined]
+    ]);
+
+    const destinationUpdates = callsTo("UPDATE submission_destinations");
+    expect(destinationUpdates).toHaveLength(1);
+    expect(destinationUpdates[0][1]).toEqual([expect.any(Date), "client_northwood", failed, ["crm_backup", "crm_backup"]]);
+  });
+
+  it("audits each requeued lead and the request as a whole", async () => {
+    await request(app)
+      .post("/api/admin/schools/school_northwood/dead-letters/retry")
+      .set("Cookie", session)
+      .send({ submissionIds: [failed, partial] })
+      .expect(200);
+
+    const submissionAudits = callsTo("INSERT INTO audit_log");
+    expect(submissionAudits).toHaveLength(1);
+    const [, submissionId, event, payload] = submissionAudits[0][1].slice(1);
+    expect([submissionId, event]).toEqual([failed, "retry_requested"]);
+    expect(payload).toMatchObject({ userId: "admin-1", email: "admin@northwood.example" });
+    expect(payload.jobs).toHaveLength(2);
+
+    const adminAudits = callsTo("INSERT INTO admin_audit_log");
+    expect(adminAudits).toHaveLength(1);
+    expect(adminAudits[0][1].slice(1, 5)).toEqual([
+      "client_northwood",
+      "school_northwood",
+      "delivery_retry_requested",
+      { userId: "admin-1", email: "admin@northwood.example", submissionIds: [failed], jobs: 2, skipped: [partial] }
+    ]);
+  });
+});
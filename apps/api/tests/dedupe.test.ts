@@ -0,0 +1,118 @@
+import type { Pool, PoolClient } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { DedupePolicySchema } from "@lead_lander/config-schema";
+import { dedupeLockKey, findDuplicate, persistLead, type DedupeLead } from "../src/dedupe";
+
+const lead: DedupeLead = {
+  clientId: "client-a",
+  schoolId: "school-a",
+  programId: "program-a",
+  email: "Ada@Example.com",
+  phoneE164: "+15551234567",
+  idempotencyKey: "key-1",
+  answers: { start_timeline: "30_days" }
+};
+
+const earlier = { id: "sub-earlier", created_at: new Date("2026-01-01T00:00:00Z"), last_step_completed: 2 };
+
+// Answers the dedupe lookups in order (retry check, then policy match); everything else succeeds.
+function fakePool(lookups: Array<Record<string, unknown> | null>) {
+  const query = vi.fn(async (sql: string) => {
+    if (sql.trim().startsWith("SELECT id")) {
+      const row = lookups.shift();
+      return { rows: row ? [row] : [] };
+    }
+    return { rows: [] };
+  });
+  return { query, pool: { connect: async () => ({ query, release: vi.fn() }) } as unknown as Pool };
+}
+
+describe("findDuplicate", () => {
+  it("matches on the configured keys, scope and window", async () => {
+    const query = vi.fn(async () => ({ rows: [] }));
+    const now = new Date("2026-03-01T00:00:00Z");
+    const policy = DedupePolicySchema.parse({ matchOn: ["phone"], scope: "school", windowDays: 30 });
+
+    await findDuplicate({ query } as unknown as PoolClient, policy, lead, now);
+
+    const [sql, values] = query.mock.calls[0] as unknown as [string, unknown[]];
+    expect(sql).toContain("client_id = $1 AND status <> 'quarantined' AND phone_e164 = $2 AND school_id = $3 AND created_at >= $4");
+    expect(sql).not.toContain("program_id");
+    expect(values).toEqual(["client-a", "+15551234567", "school-a", new Date("2026-01-30T00:00:00Z")]);
+  });
+
+  it("matches leads without a phone on email alone", async () => {
+    const query = vi.fn(async () => ({ rows: [earlier] }));
+    const noPhone = { ...lead, phoneE164: null };
+
+    expect(await findDuplicate({ query } as unknown as PoolClient, DedupePolicySchema.parse({}), noPhone, new Date())).toEqual(earlier);
+    const [sql, values] = query.mock.calls[0] as unknown as [string, unknown[]];
+    expect(sql).toContain("LOWER(email) = $2");
+    expect(sql).not.toContain("phone_e164");
+    expect(values.slice(0, 2)).toEqual(["client-a", "ada@example.com"]);
+
+    query.mockClear();
+    const phoneOnly = DedupePolicySchema.parse({ matchOn: ["phone"] });
+    expect(await findDuplicate({ query } as unknown as PoolClient, phoneOnly, noPhone, new Date())).toBeNull();
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe("dedupeLockKey", () => {
+  it("locks on the key every possible match shares", () => {
+    expect(dedupeLockKey(DedupePolicySchema.parse({}), lead)).toBe("client-a|ada@example.com");
+    expect(dedupeLockKey(DedupePolicySchema.parse({ matchOn: ["phone"] }), lead)).toBe("client-a|phone:+15551234567");
+    expect(dedupeLockKey(DedupePolicySchema.parse({ matchOn: ["phone"] }), { ...lead, phoneE164: null })).toBe(
+      "client-a|ada@example.com"
+    );
+  });
+});
+
+describe("persistLead", () => {
+  it("inserts when nothing matches", async () => {
+    const { pool } = fakePool([null, null]);
+    const insert = vi.fn();
+
+    const outcome = await persistLead(pool, DedupePolicySchema.parse({}), lead, "sub-new", insert);
+
+    expect(outcome).toEqual({ kind: "created", submissionId: "sub-new" });
+    expect(insert).toHaveBeenCalledWith(expect.anything(), null);
+  });
+
+  it("treats an identical resubmit as a retry whatever the policy", async () => {
+    const { pool } = fakePool([earlier]);
+    const insert = vi.fn();
+
+    const outcome = await persistLead(pool, DedupePolicySchema.parse({ action: "new_lead" }), lead, "sub-new", insert);
+
+    expect(outcome).toMatchObject({ kind: "retry", submissionId: "sub-earlier" });
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("drops, merges or repeats a matched lead as configured", async () => {
+    const insert = vi.fn();
+
+    const dropped = await persistLead(fakePool([null, earlier]).pool, DedupePolicySchema.parse({}), lead, "sub-new", insert);
+    expect(dropped).toMatchObject({ kind: "dropped", submissionId: "sub-earlier" });
+
+    const merging = fakePool([null, earlier]);
+    const merged = await persistLead(merging.pool, DedupePolicySchema.parse({ action: "merge" }), lead, "sub-new", insert);
+    expect(merged).toMatchObject({ kind: "merged", submissionId: "sub-earlier" });
+    expect(merging.query).toHaveBeenCalledWith(expect.stringContaining("UPDATE submissions"), [
+      lead.answers,
+      expect.any(Date),
+      "sub-earlier"
+    ]);
+    expect(insert).not.toHaveBeenCalled();
+
+    const repeat = await persistLead(
+      fakePool([null, earlier]).pool,
+      DedupePolicySchema.parse({ action: "new_lead" }),
+      lead,
+      "sub-new",
+      insert
+    );
+    expect(repeat).toEqual({ kind: "repeat", submissionId: "sub-new", match: earlier });
+    expect(insert).toHaveBeenCalledWith(expect.anything(), earlier);
+  });
+});
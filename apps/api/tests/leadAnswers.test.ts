@@ -0,0 +1,81 @@
+import path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { loadConfig } from "@lead_lander/config-schema";
+
+const { mockQuery, getConfigForClient } = vi.hoisted(() => ({
+  mockQuery: vi.fn(),
+  getConfigForClient: vi.fn()
+}));
+
+vi.mock("../src/db", () => ({
+  pool: {
+    query: mockQuery
+  }
+}));
+
+vi.mock("../src/config", () => ({
+  getConfigForClient,
+  invalidateConfigCache: vi.fn()
+}));
+
+vi.mock("bullmq", () => ({
+  Queue: class {
+    add = vi.fn();
+    constructor(public name: string) {}
+  }
+}));
+
+import { app } from "../src/server";
+
+const submissionId = "9a3b1c2d-4e5f-4a6b-8c7d-0e1f2a3b4c5d";
+
+const lead = {
+  firstName: "Ada",
+  lastName: "Lovelace",
+  email: "ada@example.com",
+  phone: "555-0100",
+  schoolId: "school_northwood",
+  campusId: "campus_downtown",
+  programId: "program_welding",
+  consent: { consented: true, textVersion: "v1", timestamp: "2026-01-01T00:00:00.000Z" }
+};
+
+beforeEach(() => {
+  mockQuery.mockReset();
+  getConfigForClient.mockResolvedValue(loadConfig(path.resolve(__dirname, "../../../configs")));
+});
+
+describe("lead answer validation", () => {
+  it("rejects a submission with field errors before storing anything", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ id: "school_northwood", client_id: "client-a" }] });
+
+    const response = await request(app)
+      .post("/api/submit")
+      .send({ ...lead, answers: { program_interest: "program_welding", start_timeline: "someday", extra: 1 } });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe("Invalid answers");
+    expect(response.body.fieldErrors).toMatchObject({
+      start_timeline: "Choose from the listed options",
+      extra: "Unknown question",
+      campus_selection: "This question is required"
+    });
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects step answers that do not belong to the submission's form", async () => {
+    mockQuery.mockResolvedValueOnce({
+      rowCount: 1,
+      rows: [{ client_id: "client-a", program_id: "program_welding", answers: { start_timeline: "30_days" } }]
+    });
+
+    const response = await request(app)
+      .post("/api/lead/step")
+      .send({ submissionId, stepIndex: 2, answers: { education_level: ["college"] } });
+
+    expect(response.status).toBe(400);
+    expect(response.body.fieldErrors).toEqual({ education_level: "Choose one option" });
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,75 @@
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { loadConfig } from "@lead_lander/config-schema";
+
+const { queueAdd, getConfigForClient } = vi.hoisted(() => ({ queueAdd: vi.fn(), getConfigForClient: vi.fn() }));
+
+vi.mock("../src/db", () => ({
+  pool: {
+    query: vi.fn()
+  }
+}));
+
+vi.mock("../src/config", () => ({
+  getConfigForClient,
+  invalidateConfigCache: vi.fn()
+}));
+
+vi.mock("bullmq", () => ({
+  Queue: class {
+    add = queueAdd;
+    constructor(public name: string) {}
+  }
+}));
+
+import { app } from "../src/server";
+import { pool } from "../src/db";
+import { createLogger } from "../src/logger";
+
+const mockQuery = pool.query as unknown as ReturnType<typeof vi.fn>;
+
+describe("structured logging", () => {
+  it("redacts contact details but keeps lead identifiers", () => {
+    const lines: Record<string, any>[] = [];
+    const log = createLogger({ write: (line: string) => lines.push(JSON.parse(line)) });
+    log.level = "info";
+
+    log.info(
+      { submissionId: "sub-1", email: "ada@example.com", contact: { firstName: "Ada", phone: "555-0100" } },
+      "Submission received"
+    );
+
+    expect(lines[0]).toMatchObject({
+      msg: "Submission received",
+      service: "lead-lander-api",
+      submissionId: "sub-1",
+      email: "[redacted]",
+      contact: { firstName: "[redacted]", phone: "[redacted]" }
+    });
+  });
+
+  it("keeps the caller's request id and carries it into queued jobs", async () => {
+    const submissionId = "0b7a4a3e-8f0e-4a53-9a43-7a1f0f3f2c11";
+    getConfigForClient.mockResolvedValue(loadConfig(path.resolve(__dirname, "../../../configs")));
+    mockQuery
+      .mockResolvedValueOnce({ rowCount: 1, rows: [{ client_id: "client-a", program_id: "program_welding", answers: {} }] })
+      .mockResolvedValueOnce({ rowCount: 1, rows: [{ id: submissionId, status: "delivered", client_id: "client-a", school_id: "school-a" }] })
+      .mockResolvedValueOnce({ rowCount: 1, rows: [] });
+
+    const response = await request(app)
+      .post("/api/lead/step")
+      .set("X-Request-Id", "req-123")
+      .send({ submissionId, stepIndex: 2, answers: { start_timeline: "30_days" } });
+
+    expect(response.status).toBe(202);
+    expect(response.headers["x-request-id"]).toBe("req-123");
+    expect(queueAdd.mock.calls[0][1]).toMatchObject({ submissionId, requestId: "req-123" });
+  });
+
+  it("assigns a request id when none is sent", async () => {
+    const response = await request(app).get("/healthz");
+
+    expect(response.headers["x-request-id"]).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from "vitest";
+import request from "supertest";
+
+vi.mock("../src/db", () => ({
+  pool: {
+    query: vi.fn()
+  }
+}));
+
+import { app } from "../src/server";
+
+describe("prometheus metrics", () => {
+  it("counts requests by route template and status", async () => {
+    await request(app).get("/healthz");
+
+    const response = await request(app).get("/metrics");
+
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toContain("text/plain");
+    expect(response.text).toContain('lead_lander_http_requests_total{method="GET",route="/healthz",status="200"} 1');
+    expect(response.text).toContain("# TYPE lead_lander_http_request_duration_seconds histogram");
+  });
+
+  it("labels unknown paths without the raw URL", async () => {
+    await request(app).get("/api/does-not-exist/lead-42");
+
+    const response = await request(app).get("/metrics");
+
+    expect(response.text).toContain('route="unmatched",status="404"');
+    expect(response.text).not.toContain("does-not-exist");
+  });
+});
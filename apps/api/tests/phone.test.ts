@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { computeIdempotencyKey } from "../src/idempotency";
+import { normalizePhone } from "../src/phone";
+
+describe("normalizePhone", () => {
+  it("normalizes national and international formats to E.164", () => {
+    expect(normalizePhone("+1 (555) 123-4567", "US")).toEqual({ ok: true, e164: "+15551234567" });
+    expect(normalizePhone("555-123-4567", "US")).toEqual({ ok: true, e164: "+15551234567" });
+    expect(normalizePhone("020 7946 0958", "GB")).toEqual({ ok: true, e164: "+442079460958" });
+    expect(normalizePhone("+44 20 7946 0958", "US")).toEqual({ ok: true, e164: "+442079460958" });
+  });
+
+  it("rejects numbers that cannot be valid with a message for the prospect", () => {
+    expect(normalizePhone("555-0100", "US")).toEqual({
+      ok: false,
+      error: "This phone number is too short. Include the area code"
+    });
+    expect(normalizePhone("+1 415 555 26711", "US")).toEqual({ ok: false, error: "This phone number is too long" });
+    expect(normalizePhone("call me", "US")).toMatchObject({ ok: false });
+  });
+
+  it("gives differently formatted numbers the same idempotency key", () => {
+    const key = (phone: string) =>
+      computeIdempotencyKey({
+        clientId: "client-1",
+        email: "ada@example.com",
+        phone: (normalizePhone(phone, "US") as { e164: string }).e164,
+        schoolId: "school",
+        campusId: null,
+        programId: "program"
+      });
+
+    expect(key("+1 (555) 123-4567")).toEqual(key("555-123-4567"));
+  });
+});
@@ -0,0 +1,128 @@
+import path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { loadConfig } from "@lead_lander/config-schema";
+
+const { mockQuery, mockClientQuery, getConfigForClient, queueAdd } = vi.hoisted(() => ({
+  mockQuery: vi.fn(),
+  mockClientQuery: vi.fn(),
+  getConfigForClient: vi.fn(),
+  queueAdd: vi.fn()
+}));
+
+vi.mock("../src/db", () => ({
+  pool: {
+    query: mockQuery,
+    connect: async () => ({ query: mockClientQuery, release: () => undefined })
+  }
+}));
+
+vi.mock("../src/config", () => ({
+  getConfigForClient,
+  invalidateConfigCache: vi.fn()
+}));
+
+vi.mock("bullmq", () => ({
+  Queue: class {
+    add = queueAdd;
+    constructor(public name: string) {}
+  }
+}));
+
+import { app } from "../src/server";
+import { createSessionToken } from "../src/auth";
+import { env } from "../src/env";
+
+const submissionId = "3d8f7a1e-2b4c-4e6f-8a1b-9c0d1e2f3a4b";
+const session = `${env.authCookieName}=${createSessionToken("admin-1")}`;
+
+// Signed in as a client admin of Northwood; the route's own queries fall through to `rows: []`.
+function mockAdminQueries() {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes("FROM users WHERE id")) {
+      return {
+        rows: [
+          {
+            id: "admin-1",
+            email: "admin@northwood.example",
+            password_hash: "x",
+            email_verified: true,
+            client_id: "client_northwood",
+            is_active: true
+          }
+        ]
+      };
+    }
+    if (sql.includes("FROM user_roles")) {
+      return { rows: [{ role: "client_admin", school_id: null }] };
+    }
+    if (sql.includes("FROM schools")) {
+      return { rows: [{ id: "school_northwood", client_id: "client_northwood", slug: "northwood", name: "Northwood" }] };
+    }
+    return { rows: [] };
+  });
+}
+
+function quarantinedLead(rows: unknown[]) {
+  mockClientQuery.mockImplementation(async (sql: string) => (sql.includes("FOR UPDATE") ? { rows } : { rows: [] }));
+}
+
+function release() {
+  return request(app)
+    .post(`/api/admin/schools/school_northwood/submissions/${submissionId}/release`)
+    .set("Cookie", session);
+}
+
+const clientStatements = () => mockClientQuery.mock.calls.map(([sql]) => String(sql).trim());
+
+beforeEach(() => {
+  mockQuery.mockReset();
+  mockClientQuery.mockReset();
+  queueAdd.mockReset();
+  getConfigForClient.mockResolvedValue(loadConfig(path.resolve(__dirname, "../../../configs")));
+  mockAdminQueries();
+});
+
+describe("POST /api/admin/schools/:schoolId/submissions/:submissionId/release", () => {
+  it("marks the lead received, commits and then queues its delivery", async () => {
+    quarantinedLead([{ id: submissionId, program_id: "program_welding", spam_score: 7 }]);
+    queueAdd.mockImplementation(async () => {
+      expect(clientStatements().at(-1)).toBe("COMMIT");
+      return {};
+    });
+
+    const res = await release();
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ submissionId, status: "received" });
+    expect(queueAdd).toHaveBeenCalledWith("create_lead", expect.objectContaining({ submissionId }), expect.anything());
+    expect(clientStatements()[0]).toBe("BEGIN");
+    expect(clientStatements().some((sql) => sql.startsWith("UPDATE submissions SET status = 'received'"))).toBe(true);
+    expect(clientStatements().at(-1)).toBe("COMMIT");
+
+    const adminAudit = mockQuery.mock.calls.find(([sql]) => String(sql).includes("INSERT INTO admin_audit_log"));
+    expect(adminAudit?.[1]).toContain("submission_released");
+  });
+
+  it("puts the lead back in quarantine when its delivery cannot be queued", async () => {
+    quarantinedLead([{ id: submissionId, program_id: "program_welding", spam_score: 7 }]);
+    queueAdd.mockRejectedValue(new Error("Redis connection refused"));
+
+    const res = await release();
+
+    expect(res.status).toBe(500);
+    const restore = mockQuery.mock.calls.find(([sql]) => String(sql).includes("SET status = 'quarantined'"));
+    expect(restore?.[1]).toEqual([expect.any(Date), submissionId]);
+    expect(mockQuery.mock.calls.some(([sql]) => String(sql).includes("INSERT INTO admin_audit_log"))).toBe(false);
+  });
+
+  it("returns 404 for a lead that is not quarantined", async () => {
+    quarantinedLead([]);
+
+    const res = await release();
+
+    expect(res.status).toBe(404);
+    expect(queueAdd).not.toHaveBeenCalled();
+    expect(clientStatements().at(-1)).toBe("ROLLBACK");
+  });
+});
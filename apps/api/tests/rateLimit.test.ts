@@ -0,0 +1,84 @@
+import express from "express";
+import type { Options } from "express-rate-limit";
+import type Redis from "ioredis";
+import request from "supertest";
+import { describe, expect, it, vi } from "vitest";
+import { env } from "../src/env";
+import { createRateLimiter, RedisRateLimitStore, rateLimitKey } from "../src/middleware/rateLimit";
+
+function fakeRequest(fields: { params?: Record<string, string>; body?: unknown }) {
+  return { ip: "203.0.113.9", params: {}, body: {}, ...fields } as unknown as express.Request;
+}
+
+const noAuth = { locals: {} } as unknown as express.Response;
+
+describe("rateLimitKey", () => {
+  it("keys public routes by IP and the URL's school, falling back to the client for CRM callbacks", () => {
+    expect(rateLimitKey("public", fakeRequest({ params: { schoolId: "School_A" } }), noAuth)).toBe("203.0.113.9|school_a");
+    // The body is the sender's to pick, so it never chooses the bucket.
+    expect(rateLimitKey("public", fakeRequest({ body: { schoolId: "school_b" } }), noAuth)).toBe("203.0.113.9|-");
+    expect(rateLimitKey("public", fakeRequest({ params: { clientId: "client-a" } }), noAuth)).toBe("203.0.113.9|client-a");
+    expect(rateLimitKey("public", fakeRequest({ body: { submissionId: "abc" } }), noAuth)).toBe("203.0.113.9|-");
+  });
+
+  it("keys auth routes by IP and email, and admin routes by user", () => {
+    expect(rateLimitKey("auth", fakeRequest({ body: { email: " Admin@Example.com " } }), noAuth)).toBe(
+      "203.0.113.9|admin@example.com"
+    );
+
+    const signedIn = { locals: { auth: { user: { id: "user-1" }, roles: [] } } } as unknown as express.Response;
+    expect(rateLimitKey("admin", fakeRequest({}), signedIn)).toBe("user:user-1");
+    expect(rateLimitKey("admin", fakeRequest({}), noAuth)).toBe("ip:203.0.113.9");
+  });
+});
+
+describe("RedisRateLimitStore", () => {
+  it("counts hits under the group prefix with the limiter's window", async () => {
+    const redis = { eval: vi.fn().mockResolvedValue([3, 45_000]), decr: vi.fn(), del: vi.fn() };
+    const store = new RedisRateLimitStore(redis as unknown as Redis, "rate-limit:public:");
+    store.init({ windowMs: 60_000 } as Options);
+
+    const info = await store.increment("203.0.113.9|school_a");
+
+    expect(info.totalHits).toBe(3);
+    expect(info.resetTime!.getTime()).toBeGreaterThan(Date.now() + 40_000);
+    expect(redis.eval).toHaveBeenCalledWith(expect.stringContaining("INCR"), 1, "rate-limit:public:203.0.113.9|school_a", 60_000);
+  });
+
+  it("lets requests through when Redis is unreachable", async () => {
+    const redis = { eval: vi.fn().mockRejectedValue(new Error("Connection is closed.")), decr: vi.fn(), del: vi.fn() };
+    const store = new RedisRateLimitStore(redis as unknown as Redis, "rate-limit:auth:");
+
+    expect(await store.increment("key")).toEqual({ totalHits: 0, resetTime: undefined });
+  });
+});
+
+describe("createRateLimiter", () => {
+  it("gives each email its own auth budget", async () => {
+    const app = express();
+    app.use(express.json());
+    app.post("/login", createRateLimiter("auth"), (_req, res) => res.json({ ok: true }));
+
+    for (let attempt = 0; attempt < env.rateLimitAuthMax; attempt += 1) {
+      await request(app).post("/login").send({ email: "a@example.com" }).expect(200);
+    }
+
+    const limited = await request(app).post("/login").send({ email: "a@example.com" });
+    expect(limited.status).toBe(429);
+    expect(limited.body.error).toMatch(/Too many requests/);
+
+    await request(app).post("/login").send({ email: "b@example.com" }).expect(200);
+  });
+
+  it("caps one IP across every email it tries", async () => {
+    const app = express();
+    app.use(express.json());
+    app.post("/login", createRateLimiter("auth"), (_req, res) => res.json({ ok: true }));
+
+    for (let attempt = 0; attempt < env.rateLimitAuthIpMax; attempt += 1) {
+      await request(app).post("/login").send({ email: `user${attempt}@example.com` }).expect(200);
+    }
+
+    await request(app).post("/login").send({ email: "fresh@example.com" }).expect(429);
+  });
+});
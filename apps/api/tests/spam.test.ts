@@ -0,0 +1,125 @@
+import type { Pool } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { createCaptchaVerifier, stubCaptchaVerifier } from "../src/captcha";
+import { issueFormToken, verifyFormToken } from "../src/formToken";
+import {
+  captchaCheck,
+  createSpamScorer,
+  disposableEmailCheck,
+  DISPOSABLE_EMAIL_DOMAINS,
+  formTimingCheck,
+  gibberishNameCheck,
+  repeatSubmissionCheck,
+  type SpamSubmission
+} from "../src/spam";
+
+const secret = "form-secret";
+const renderedAt = new Date("2026-03-01T12:00:00Z");
+const secondsLater = (seconds: number) => new Date(renderedAt.getTime() + seconds * 1000);
+
+const lead: SpamSubmission = {
+  schoolId: "school_northwood",
+  programId: "program_welding",
+  firstName: "Ada",
+  lastName: "Lovelace",
+  email: "ada@example.com",
+  ip: "203.0.113.9",
+  deviceId: "device-1",
+  formToken: issueFormToken({ schoolId: "school_northwood", programId: "program_welding" }, secret, renderedAt)
+};
+
+describe("form tokens", () => {
+  it("round-trips claims and rejects tampered or foreign tokens", () => {
+    expect(verifyFormToken(lead.formToken as string, secret)).toEqual({
+      schoolId: "school_northwood",
+      programId: "program_welding",
+      issuedAt: renderedAt.getTime()
+    });
+
+    const [body, signature] = (lead.formToken as string).split(".");
+    const forged = Buffer.from(JSON.stringify({ schoolId: "school_northwood", programId: "program_welding", issuedAt: 0 }))
+      .toString("base64url");
+    expect(verifyFormToken(`${forged}.${signature}`, secret)).toBeNull();
+    expect(verifyFormToken(`${body}.${signature}`, "other-secret")).toBeNull();
+    expect(verifyFormToken("not-a-token", secret)).toBeNull();
+  });
+});
+
+describe("spam checks", () => {
+  const timing = formTimingCheck(secret, 3);
+
+  it("scores instant, missing and mismatched form tokens", () => {
+    expect(timing(lead, secondsLater(45))).toBeNull();
+    expect(timing(lead, secondsLater(1))).toMatchObject({ check: "form_timing", score: 4, detail: "Submitted 1.0s after the form was shown" });
+    expect(timing({ ...lead, formToken: undefined }, secondsLater(45))).toMatchObject({ score: 2 });
+    expect(timing({ ...lead, programId: "program_hvac" }, secondsLater(45))).toMatchObject({ score: 3 });
+    expect(timing(lead, secondsLater(2 * 24 * 60 * 60))).toMatchObject({ score: 1 });
+  });
+
+  it("flags disposable email domains and their subdomains", () => {
+    const check = disposableEmailCheck([...DISPOSABLE_EMAIL_DOMAINS, "junk.test"]);
+
+    expect(check({ ...lead, email: "bot@Mailinator.com" }, renderedAt)).toMatchObject({ score: 3 });
+    expect(check({ ...lead, email: "bot@x.junk.test" }, renderedAt)).toMatchObject({ detail: "Disposable email domain junk.test" });
+    expect(check(lead, renderedAt)).toBeNull();
+  });
+
+  it("flags gibberish names but not real ones", () => {
+    expect(gibberishNameCheck({ ...lead, firstName: "xkcdqz", lastName: "Smith99" }, renderedAt)).toMatchObject({
+      check: "gibberish_name",
+      detail: "First name has no vowels; Last name contains digits"
+    });
+    expect(gibberishNameCheck({ ...lead, firstName: "Bob", lastName: "bob" }, renderedAt)).toMatchObject({
+      detail: "First and last name are the same"
+    });
+
+    for (const [firstName, lastName] of [["Siobhan", "Nguyen"], ["Bjørn", "Schwartz"], ["Zoë", "Đỗ"], ["李", "小龙"], ["Jo", "Lynn"]]) {
+      expect(gibberishNameCheck({ ...lead, firstName, lastName }, renderedAt)).toBeNull();
+    }
+  });
+
+  it("counts recent submissions from the same IP or device", async () => {
+    const query = vi.fn().mockResolvedValueOnce({ rows: [{ count: 5 }] }).mockResolvedValueOnce({ rows: [{ count: 1 }] });
+    const check = repeatSubmissionCheck({ query } as unknown as Pool, 60 * 60 * 1000, 5);
+
+    expect(await check(lead, renderedAt)).toMatchObject({
+      check: "repeat_submissions",
+      detail: "5 earlier submissions from this IP or device in the last 60 minutes"
+    });
+    expect(query.mock.calls[0][1]).toEqual([new Date("2026-03-01T11:00:00Z"), "203.0.113.9", "device-1"]);
+    expect(await check(lead, renderedAt)).toBeNull();
+  });
+
+  it("verifies CAPTCHA tokens through the configured verifier", async () => {
+    const check = captchaCheck(stubCaptchaVerifier);
+
+    expect(await check({ ...lead, captchaToken: "ok" }, renderedAt)).toBeNull();
+    expect(await check({ ...lead, captchaToken: "fail" }, renderedAt)).toMatchObject({ score: 5 });
+    expect(await check(lead, renderedAt)).toMatchObject({ score: 3, detail: "No CAPTCHA token" });
+
+    const down = captchaCheck({ name: "remote", verify: async () => Promise.reject(new Error("timeout")) });
+    expect(await down({ ...lead, captchaToken: "ok" }, renderedAt)).toMatchObject({ score: 0 });
+
+    expect(createCaptchaVerifier("")).toBeNull();
+    expect(() => createCaptchaVerifier("recaptcha")).toThrow('Unknown CAPTCHA_PROVIDER "recaptcha"');
+  });
+});
+
+describe("createSpamScorer", () => {
+  it("adds up the reasons and quarantines at the threshold", async () => {
+    const score = createSpamScorer([formTimingCheck(secret, 3), disposableEmailCheck(DISPOSABLE_EMAIL_DOMAINS)], 5);
+
+    expect(await score(lead, secondsLater(30))).toEqual({ score: 0, reasons: [], quarantined: false });
+
+    const verdict = await score({ ...lead, email: "bot@yopmail.com" }, secondsLater(0.5));
+    expect(verdict.score).toBe(7);
+    expect(verdict.quarantined).toBe(true);
+    expect(verdict.reasons.map((reason) => reason.check)).toEqual(["form_timing", "disposable_email"]);
+  });
+
+  it("only scores when the threshold is 0", async () => {
+    const score = createSpamScorer([gibberishNameCheck], 0);
+
+    expect(await score({ ...lead, firstName: "zzzzzz" }, renderedAt)).toMatchObject({ score: 2, quarantined: false });
+  });
+});
@@ -0,0 +1,82 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { loadConfig } from "@lead_lander/config-schema";
+
+const { queueAdd, getConfigForClient } = vi.hoisted(() => ({ queueAdd: vi.fn(), getConfigForClient: vi.fn() }));
+
+vi.mock("../src/db", () => ({
+  pool: {
+    query: vi.fn()
+  }
+}));
+
+vi.mock("../src/config", () => ({
+  getConfigForClient,
+  invalidateConfigCache: vi.fn()
+}));
+
+vi.mock("bullmq", () => ({
+  Queue: class {
+    add = queueAdd;
+    constructor(public name: string) {}
+  }
+}));
+
+import { app } from "../src/server";
+import { pool } from "../src/db";
+import { flushTracing, startTracing } from "../src/tracing";
+
+const mockQuery = pool.query as unknown as ReturnType<typeof vi.fn>;
+const spanFile = path.join(os.tmpdir(), `lead-lander-spans-${process.pid}.jsonl`);
+
+startTracing({ filePath: spanFile });
+
+afterAll(() => {
+  fs.rmSync(spanFile, { force: true });
+});
+
+async function readSpans() {
+  await flushTracing();
+  return fs
+    .readFileSync(spanFile, "utf8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+}
+
+describe("tracing", () => {
+  it("traces a step update through the DB and queue, and hands the context to the job", async () => {
+    const submissionId = "6f1c2a52-3f55-4d7f-9a55-2f5d8c1d9a10";
+    getConfigForClient.mockResolvedValue(loadConfig(path.resolve(__dirname, "../../../configs")));
+    mockQuery
+      .mockResolvedValueOnce({ rowCount: 1, rows: [{ client_id: "client-a", program_id: "program_welding", answers: {} }] })
+      .mockResolvedValueOnce({ rowCount: 1, rows: [{ id: submissionId, status: "delivered", client_id: "client-a", school_id: "school-a" }] })
+      .mockResolvedValueOnce({ rowCount: 1, rows: [] });
+
+    const response = await request(app)
+      .post("/api/lead/step")
+      .send({ submissionId, stepIndex: 2, answers: { start_timeline: "30_days" } });
+
+    expect(response.status).toBe(202);
+
+    const spans = await readSpans();
+    const route = spans.find((span) => span.name === "POST /api/lead/step");
+    expect(route).toBeDefined();
+    expect(route.attributes).toMatchObject({
+      "http.response.status_code": 202,
+      "lead.client_id": "client-a",
+      "lead.submission_id": submissionId
+    });
+
+    const children = spans.filter((span) => span.parentSpanId === route.spanId).map((span) => span.name);
+    expect(children).toEqual(["SELECT submissions", "UPDATE submissions", "INSERT audit_log", "lead_delivery-client-a publish"]);
+
+    const publish = spans.find((span) => span.name === "lead_delivery-client-a publish");
+    const [jobType, jobData] = queueAdd.mock.calls[0];
+    expect(jobType).toBe("update_lead");
+    expect(jobData.traceContext.traceparent).toBe(`00-${route.traceId}-${publish.spanId}-01`);
+  });
+});
@@ -2,7 +2,7 @@
 
 import { useEffect, useMemo, useState } from "react";
 
-const STATUS_OPTIONS = ["received", "delivering", "delivered", "failed"] as const;
+const STATUS_OPTIONS = ["received", "delivering", "delivered", "partially_delivered", "failed", "quarantined"] as const;
 
 const EXPORT_FIELDS = [
   { key: "id", label: "Submission ID" },
@@ -66,6 +66,26 @@ type SubmissionRow = {
   crmLeadId: string | null;
   lastStepCompleted: number | null;
   createdFromStep: number | null;
+  spamScore: number | null;
+  spamReasons: SpamReason[];
+  destinations: SubmissionDestination[];
+};
+
+type SpamReason = {
+  check: string;
+  score: number;
+  detail: string;
+};
+
+type SubmissionDestination = {
+  crmConnectionId: string;
+  status: string;
+  crmLeadId: string | null;
+  isPrimary: boolean;
+  routingRuleId: string | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  updatedAt: string;
 };
 
 type DatabaseViewProps = {
@@ -121,6 +141,8 @@ export function DatabaseView({ schoolSlug, apiBase, programs, campuses }: Databa
   const [exportOpen, setExportOpen] = useState(false);
   const [exportScope, setExportScope] = useState<"page" | "filtered">("page");
   const [exportFields, setExportFields] = useState<Set<string>>(new Set(DEFAULT_EXPORT_FIELDS));
+  const [releasingId, setReleasingId] = useState<string | null>(null);
+  const [releaseError, setReleaseError] = useState<string | null>(null);
 
   const headers = useMemo(() => ({} as Record<string, string>), []);
 
@@ -258,6 +280,54 @@ export function DatabaseView({ schoolSlug, apiBase, programs, campuses }: Databa
     window.URL.revokeObjectURL(url);
   };
 
+  const handleRelease = async (submissionId: string) => {
+    setReleasingId(submissionId);
+    setReleaseError(null);
+
+    try {
+      const response = await fetch(`/api/admin/schools/${schoolSlug}/submissions/${submissionId}/release`, {
+        method: "POST",
+        credentials: "include"
+      });
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "Release failed");
+      }
+      setRows((prev) => prev.map((row) => (row.id === submissionId ? { ...row, status: "received" } : row)));
+    } catch (err) {
+      setReleaseError((err as Error).message || "Release failed");
+    } finally {
+      setReleasingId(null);
+    }
+  };
+
+  const renderSpam = (row: SubmissionRow) => {
+    return (
+      <>
+        <p>Score: {row.spamScore ?? "—"}</p>
+        {row.spamReasons.length > 0 && (
+          <ul className="admin-db__list">
+            {row.spamReasons.map((reason) => (
+              <li key={reason.check}>
+                <strong>{reason.check.replace(/_/g, " ")} (+{reason.score})</strong>
+                <span>{reason.detail}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {row.status === "quarantined" && (
+          <>
+            <p className="admin-muted">Held back from CRM delivery until released.</p>
+            <button className="admin-btn" onClick={() => handleRelease(row.id)} disabled={releasingId === row.id}>
+              {releasingId === row.id ? "Releasing..." : "Release for delivery"}
+            </button>
+            {releaseError && <p className="admin-muted">Unable to release: {releaseError}</p>}
+          </>
+        )}
+      </>
+    );
+  };
+
   const renderAnswers = (answers: Record<string, unknown>) => {
     const entries = Object.entries(answers || {});
     if (entries.length === 0) return <span className="admin-muted">No answers yet.</span>;
@@ -290,6 +360,29 @@ export function DatabaseView({ schoolSlug, apiBase, programs, campuses }: Databa
     );
   };
 
+  const renderDestinations = (destinations: SubmissionDestination[]) => {
+    if (!destinations || destinations.length === 0) {
+      return <span className="admin-muted">No CRM destinations recorded.</span>;
+    }
+
+    return (
+      <ul className="admin-db__list">
+        {destinations.map((destination) => (
+          <li key={destination.crmConnectionId}>
+            <strong>{destination.crmConnectionId}</strong>
+            <span>
+              <span className={`admin-status admin-status--${destination.status}`}>{destination.status}</span>
+              {" "}CRM Lead: {destination.crmLeadId || "—"}
+              {destination.isPrimary ? ` · Primary (${destination.routingRuleId ? `rule ${destination.routingRuleId}` : "school default"})` : ""}
+              {destination.deliveredAt ? ` · Delivered ${formatDate(destination.deliveredAt)}` : ""}
+              {destination.lastError ? ` · ${destination.lastError}` : ""}
+            </span>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
   const renderDetails = (row: SubmissionRow) => {
     return (
       <div className="admin-db__details">
@@ -321,6 +414,14 @@ export function DatabaseView({ schoolSlug, apiBase, programs, campuses }: Databa
           <p>Updated: {formatDate(row.updatedAt)}</p>
           <p>Delivered: {formatDate(row.deliveredAt)}</p>
         </div>
+        <div className="admin-db__panel">
+          <h4>Delivery</h4>
+          {renderDestinations(row.destinations)}
+        </div>
+        <div className="admin-db__panel">
+          <h4>Spam check</h4>
+          {renderSpam(row)}
+        </div>
         <div className="admin-db__panel">
           <h4>Answers</h4>
           {renderAnswers(row.answers)}
@@ -361,7 +462,7 @@ export function DatabaseView({ schoolSlug, apiBase, programs, campuses }: Databa
               >
                 <option value="">All</option>
                 {STATUS_OPTIONS.map((status) => (
-                  <option key={status} value={status}>{status}</option>
+                  <option key={status} value={status}>{status.replace(/_/g, " ")}</option>
                 ))}
               </select>
             </label>
@@ -494,7 +595,7 @@ export function DatabaseView({ schoolSlug, apiBase, programs, campuses }: Databa
                       <td>{row.phone || "—"}</td>
                       <td>{programName}</td>
                       <td>{campusName}</td>
-                      <td><span className={`admin-status admin-status--${row.status}`}>{row.status}</span></td>
+                      <td><span className={`admin-status admin-status--${row.status}`}>{row.status.replace(/_/g, " ")}</span></td>
                       <td>{row.lastStepCompleted ?? "—"}</td>
                       <td>{formatDate(row.createdAt)}</td>
                       <td>
@@ -527,7 +628,7 @@ export function DatabaseView({ schoolSlug, apiBase, programs, campuses }: Databa
                     <h4>{row.firstName} {row.lastName}</h4>
                     <p className="admin-muted">{row.email} · {row.phone || "—"}</p>
                   </div>
-                  <span className={`admin-status admin-status--${row.status}`}>{row.status}</span>
+                  <span className={`admin-status admin-status--${row.status}`}>{row.status.replace(/_/g, " ")}</span>
                 </div>
                 <div className="admin-db__card-grid">
                   <div>
@@ -569,6 +670,10 @@ export function DatabaseView({ schoolSlug, apiBase, programs, campuses }: Databa
                   <summary>Metadata</summary>
                   {renderMetadata(row.metadata)}
                 </details>
+                <details className="admin-db__card-panel" open={row.status === "quarantined"}>
+                  <summary>Spam check</summary>
+                  {renderSpam(row)}
+                </details>
               </article>
             ))}
           </div>
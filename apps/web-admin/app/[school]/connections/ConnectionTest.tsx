@@ -0,0 +1,256 @@
+"use client";
+
+import { useState } from "react";
+
+type Option = {
+  id: string;
+  name: string;
+};
+
+type Connection = {
+  id: string;
+  type: string;
+  isPrimary: boolean;
+};
+
+type CapturedRequest = {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string | null;
+  response?: { statusCode: number; body: string };
+  error?: string;
+};
+
+type TestResult = {
+  crmConnectionId: string;
+  adapter: string;
+  dryRun: boolean;
+  success: boolean;
+  statusCode: number | null;
+  crmLeadId: string | null;
+  error: string | null;
+  mappingErrors: string[];
+  payload: Record<string, unknown>;
+  requests: CapturedRequest[];
+};
+
+type ConnectionTestProps = {
+  schoolSlug: string;
+  connections: Connection[];
+  programs: Option[];
+  campuses: Option[];
+  canTest: boolean;
+};
+
+// JSON bodies are pretty-printed; anything else (form bodies, plain text) is shown as sent.
+function formatBody(body: string) {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+export function ConnectionTest({ schoolSlug, connections, programs, campuses, canTest }: ConnectionTestProps) {
+  const [connectionId, setConnectionId] = useState(connections[0]?.id || "");
+  const [programId, setProgramId] = useState(programs[0]?.id || "");
+  const [campusId, setCampusId] = useState("");
+  const [action, setAction] = useState<"create" | "update">("create");
+  const [crmLeadId, setCrmLeadId] = useState("");
+  const [result, setResult] = useState<TestResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runTest = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm("Send a sample lead to this CRM? It will create or update a real record.")) {
+      return;
+    }
+
+    setRunning(true);
+    setError(null);
+    setResult(null);
+    try {
+      const response = await fetch(`/api/admin/schools/${schoolSlug}/crm-connections/${connectionId}/test`, {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          programId: programId || undefined,
+          campusId: campusId || undefined,
+          action,
+          crmLeadId: action === "update" ? crmLeadId || undefined : undefined,
+          dryRun
+        })
+      });
+
+      if (response.status === 401) {
+        window.location.href = `/${schoolSlug}/login`;
+        return;
+      }
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "Connection test failed");
+      }
+
+      setResult((await response.json()) as TestResult);
+    } catch (err) {
+      setError((err as Error).message || "Connection test failed");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (connections.length === 0) {
+    return (
+      <div className="admin-card">
+        <h3>Connection test</h3>
+        <p className="admin-muted">No CRM connections are configured for this school.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="admin-card">
+      <h3>Connection test</h3>
+      <p className="admin-muted">
+        A dry run builds the exact request the worker would send for a sample lead, without sending it. A live test
+        sends it and shows the CRM&apos;s response. Neither creates a submission; secrets are masked.
+      </p>
+
+      <div className="admin-builder">
+        <div className="admin-builder__row">
+          <label className="admin-muted">Connection</label>
+          <select
+            className="admin-builder__select"
+            value={connectionId}
+            onChange={(event) => setConnectionId(event.target.value)}
+          >
+            {connections.map((connection) => (
+              <option key={connection.id} value={connection.id}>
+                {connection.id} ({connection.type}
+                {connection.isPrimary ? ", primary" : ""})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="admin-builder__row">
+          <label className="admin-muted">Sample program</label>
+          <select
+            className="admin-builder__select"
+            value={programId}
+            onChange={(event) => setProgramId(event.target.value)}
+          >
+            {programs.map((program) => (
+              <option key={program.id} value={program.id}>
+                {program.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="admin-builder__row">
+          <label className="admin-muted">Sample campus</label>
+          <select
+            className="admin-builder__select"
+            value={campusId}
+            onChange={(event) => setCampusId(event.target.value)}
+          >
+            <option value="">Unspecified</option>
+            {campuses.map((campus) => (
+              <option key={campus.id} value={campus.id}>
+                {campus.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="admin-builder__row">
+          <label className="admin-muted">Action</label>
+          <select
+            className="admin-builder__select"
+            value={action}
+            onChange={(event) => setAction(event.target.value as "create" | "update")}
+          >
+            <option value="create">Create lead</option>
+            <option value="update">Update lead</option>
+          </select>
+        </div>
+        {action === "update" && (
+          <div className="admin-builder__row">
+            <label className="admin-muted">CRM lead id</label>
+            <input
+              className="admin-builder__input"
+              value={crmLeadId}
+              onChange={(event) => setCrmLeadId(event.target.value)}
+            />
+          </div>
+        )}
+
+        {canTest ? (
+          <div className="admin-builder__actions">
+            <button className="admin-btn" onClick={() => runTest(true)} disabled={running || !connectionId}>
+              {running ? "Running..." : "Dry run"}
+            </button>
+            <button className="admin-official__ghost" onClick={() => runTest(false)} disabled={running || !connectionId}>
+              Send test lead
+            </button>
+          </div>
+        ) : (
+          <p className="admin-muted">Only config editors can test connections.</p>
+        )}
+      </div>
+
+      {error && <p className="admin-muted" style={{ color: "#d9534f" }}>{error}</p>}
+      {result && (
+        <div style={{ marginTop: "16px" }}>
+          <p>
+            <strong>{result.success ? "Succeeded" : "Failed"}</strong>
+            {result.dryRun ? " (dry run, nothing was sent)" : result.statusCode ? ` · HTTP ${result.statusCode}` : ""}
+            {result.crmLeadId && ` · CRM lead id ${result.crmLeadId}`}
+          </p>
+          {result.error && <p className="admin-muted" style={{ color: "#d9534f" }}>{result.error}</p>}
+          {result.mappingErrors.length > 0 && (
+            <>
+              <p className="admin-muted">Mapping problems</p>
+              <ul>
+                {result.mappingErrors.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {result.requests.map((request, index) => (
+            <div key={index} style={{ marginTop: "12px" }}>
+              <p className="admin-muted">
+                Request {index + 1}: {request.method} {request.url}
+              </p>
+              <pre style={{ whiteSpace: "pre-wrap" }}>
+                {Object.entries(request.headers)
+                  .map(([name, value]) => `${name}: ${value}`)
+                  .join("\n")}
+                {request.body ? `\n\n${formatBody(request.body)}` : ""}
+              </pre>
+              {request.response && (
+                <>
+                  <p className="admin-muted">Response: HTTP {request.response.statusCode}</p>
+                  <pre style={{ whiteSpace: "pre-wrap" }}>{formatBody(request.response.body) || "(empty body)"}</pre>
+                </>
+              )}
+              {request.error && <p className="admin-muted" style={{ color: "#d9534f" }}>{request.error}</p>}
+            </div>
+          ))}
+          {result.requests.length === 0 && (
+            <p className="admin-muted">The adapter stopped before making a request.</p>
+          )}
+
+          <details style={{ marginTop: "12px" }}>
+            <summary className="admin-muted">Sample lead payload</summary>
+            <pre style={{ whiteSpace: "pre-wrap" }}>{JSON.stringify(result.payload, null, 2)}</pre>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { hasSessionCookie } from "@/lib/authCookies";
+import { canEditConfig, type User } from "@/lib/permissions";
+import { ConnectionTest } from "./ConnectionTest";
+import "../styles.css";
+
+export const dynamic = "force-dynamic";
+
+type ConfigResponse = {
+  config: {
+    schools: {
+      id: string;
+      name: string;
+      slug: string;
+      branding: { logoUrl?: string };
+      crmConnectionId: string;
+      additionalCrmConnectionIds?: string[];
+      routingRules?: { crmConnectionId: string }[];
+    }[];
+    programs: { id: string; name: string }[];
+    campuses: { id: string; name: string }[];
+    crmConnections: { id: string; type: string }[];
+  };
+};
+
+type AuthMeResponse = {
+  user: User;
+};
+
+export default async function AdminConnections({ params }: { params: { school: string } }) {
+  const requestHeaders = headers();
+  const cookie = requestHeaders.get("cookie");
+  if (!hasSessionCookie(cookie)) {
+    redirect(`/${params.school}/login`);
+  }
+
+  const apiBase =
+    process.env.ADMIN_API_BASE_URL ||
+    process.env.NEXT_PUBLIC_API_BASE_URL ||
+    "http://localhost:4000";
+  const authHeaders: Record<string, string> = cookie ? { cookie } : {};
+
+  const configResponse = await fetch(`${apiBase}/api/admin/schools/${params.school}/config`, {
+    credentials: "include",
+    headers: authHeaders,
+    cache: "no-store"
+  });
+
+  if (configResponse.status === 401) {
+    redirect(`/${params.school}/login`);
+  }
+
+  if (configResponse.status === 403 || configResponse.status === 404) {
+    redirect(`/${params.school}/not-authorized`);
+  }
+
+  if (!configResponse.ok) {
+    throw new Error("Failed to load config");
+  }
+
+  const configData = (await configResponse.json()) as ConfigResponse;
+  const school = configData.config.schools.find((item) => item.slug === params.school);
+
+  if (!school) {
+    return (
+      <div className="admin-shell">
+        <div className="admin-card">
+          <h2>Account not found</h2>
+          <p className="admin-muted">Check the URL or configuration.</p>
+        </div>
+      </div>
+    );
+  }
+
+  let userCanEdit = false;
+  const authResponse = await fetch(`${apiBase}/api/auth/me`, {
+    credentials: "include",
+    headers: authHeaders,
+    cache: "no-store"
+  });
+  if (authResponse.ok) {
+    const authData = (await authResponse.json()) as AuthMeResponse;
+    userCanEdit = canEditConfig(authData.user);
+  }
+
+  // Primary first, then the other destinations this school's leads can be sent to.
+  const connectionIds = Array.from(
+    new Set([
+      school.crmConnectionId,
+      ...(school.additionalCrmConnectionIds || []),
+      ...(school.routingRules || []).map((rule) => rule.crmConnectionId)
+    ])
+  );
+  const connections = connectionIds
+    .map((id) => configData.config.crmConnections.find((connection) => connection.id === id))
+    .filter((connection): connection is { id: string; type: string } => Boolean(connection))
+    .map((connection) => ({
+      id: connection.id,
+      type: connection.type,
+      isPrimary: connection.id === school.crmConnectionId
+    }));
+
+  return (
+    <div className="admin-shell admin-official">
+      <header className="admin-official__header">
+        <div>
+          <div className="admin-official__org">
+            {school.branding.logoUrl && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={school.branding.logoUrl} alt={`${school.name} logo`} />
+            )}
+            <div>
+              <h1>{school.name} · CRM connections</h1>
+              <p className="admin-muted">Check a connection with a sample lead before real leads reach it.</p>
+            </div>
+          </div>
+        </div>
+        <div className="admin-official__actions">
+          <a className="admin-official__ghost" href={`/${school.slug}`}>Back to dashboard</a>
+        </div>
+      </header>
+
+      <ConnectionTest
+        schoolSlug={school.slug}
+        connections={connections}
+        programs={configData.config.programs.map((program) => ({ id: program.id, name: program.name }))}
+        campuses={configData.config.campuses.map((campus) => ({ id: campus.id, name: campus.name }))}
+        canTest={userCanEdit}
+      />
+    </div>
+  );
+}
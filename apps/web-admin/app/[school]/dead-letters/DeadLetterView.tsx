@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type DeliveryFailure = {
+  crmConnectionId: string;
+  jobType: string | null;
+  stepIndex: number | null;
+  attemptNumber: number | null;
+  responseCode: number | null;
+  responseBody: string | null;
+  error: string | null;
+  attemptedAt: string | null;
+};
+
+type DeadLetterRow = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  status: string;
+  failures: DeliveryFailure[];
+};
+
+type DeadLetterViewProps = {
+  schoolSlug: string;
+};
+
+const PAGE_SIZE = 25;
+
+function formatDate(value: string | null) {
+  if (!value) return "—";
+  return new Date(value).toLocaleString();
+}
+
+export function DeadLetterView({ schoolSlug }: DeadLetterViewProps) {
+  const [rows, setRows] = useState<DeadLetterRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadRows = () => {
+    setLoading(true);
+    setError(null);
+    fetch(`/api/admin/schools/${schoolSlug}/dead-letters?limit=${PAGE_SIZE}&offset=${offset}`, {
+      credentials: "include",
+      cache: "no-store"
+    })
+      .then(async (response) => {
+        if (response.status === 401 || response.status === 403) {
+          window.location.href = `/${schoolSlug}/login`;
+          return;
+        }
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "Failed to load failed deliveries");
+        }
+        const data = await response.json();
+        setRows(data.rows || []);
+        setTotal(data.total || 0);
+        setSelected(new Set());
+      })
+      .catch((err) => {
+        setError(err.message || "Failed to load failed deliveries");
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  };
+
+  useEffect(() => {
+    loadRows();
+  }, [offset]);
+
+  const handleRetry = async (submissionIds: string[]) => {
+    if (submissionIds.length === 0) return;
+    setRetrying(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`/api/admin/schools/${schoolSlug}/dead-letters/retry`, {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ submissionIds })
+      });
+
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "Retry failed");
+      }
+
+      const data = await response.json();
+      const retried = (data.retried || []).length;
+      const skipped = (data.skipped || []).length;
+      setNotice(`Queued ${retried} submission${retried === 1 ? "" : "s"} for delivery${skipped ? `, skipped ${skipped}` : ""}.`);
+      loadRows();
+    } catch (err) {
+      setError((err as Error).message || "Retry failed");
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = rows.length > 0 && rows.every((row) => selected.has(row.id));
+
+  return (
+    <div className="admin-card">
+      <div className="admin-deadletter__header">
+        <div>
+          <h3>Failed deliveries</h3>
+          <p className="admin-muted">{total.toLocaleString()} submissions need attention.</p>
+        </div>
+        <button
+          className="admin-btn"
+          type="button"
+          disabled={retrying || selected.size === 0}
+          onClick={() => handleRetry(Array.from(selected))}
+        >
+          {retrying ? "Retrying..." : `Retry selected (${selected.size})`}
+        </button>
+      </div>
+      {error && <p className="admin-muted" style={{ color: "#d9534f" }}>{error}</p>}
+      {notice && <p className="admin-muted">{notice}</p>}
+      {loading && <p className="admin-muted">Loading failed deliveries…</p>}
+      {!loading && rows.length === 0 && <p className="admin-muted">No failed deliveries. Nice.</p>}
+      {!loading && rows.length > 0 && (
+        <div className="admin-users__table">
+          <label className="admin-muted">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelected(allSelected ? new Set() : new Set(rows.map((row) => row.id)))}
+            />{" "}
+            Select all on this page
+          </label>
+          {rows.map((row) => (
+            <div key={row.id} className="admin-users__row admin-deadletter__row">
+              <input
+                type="checkbox"
+                checked={selected.has(row.id)}
+                onChange={() => toggleSelected(row.id)}
+                aria-label={`Select ${row.email}`}
+              />
+              <div>
+                <strong>{row.firstName} {row.lastName}</strong>
+                <p className="admin-muted">{row.email}</p>
+                <p className="admin-muted">Submitted {formatDate(row.createdAt)}</p>
+                <span className={`admin-status admin-status--${row.status}`}>{row.status.replace(/_/g, " ")}</span>
+              </div>
+              <div>
+                {row.failures.length === 0 && (
+                  <p className="admin-muted">Failed before reaching a CRM destination.</p>
+                )}
+                {row.failures.map((failure) => (
+                  <div key={failure.crmConnectionId} className="admin-deadletter__failure">
+                    <strong>{failure.crmConnectionId}</strong>
+                    <p className="admin-muted">
+                      {failure.jobType ? failure.jobType.replace(/_/g, " ") : "delivery"}
+                      {failure.stepIndex ? ` · step ${failure.stepIndex}` : ""}
+                      {failure.attemptNumber ? ` · attempt ${failure.attemptNumber}` : ""}
+                      {failure.responseCode ? ` · HTTP ${failure.responseCode}` : ""}
+                      {` · ${formatDate(failure.attemptedAt)}`}
+                    </p>
+                    {failure.error && <p>{failure.error}</p>}
+                    {failure.responseBody && <pre className="admin-muted">{failure.responseBody}</pre>}
+                  </div>
+                ))}
+              </div>
+              <button
+                className="admin-official__ghost"
+                type="button"
+                disabled={retrying}
+                onClick={() => handleRetry([row.id])}
+              >
+                Retry now
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {total > PAGE_SIZE && (
+        <div className="admin-deadletter__pager">
+          <button
+            className="admin-official__ghost"
+            type="button"
+            disabled={offset === 0 || loading}
+            onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+          >
+            Previous
+          </button>
+          <span className="admin-muted">
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <button
+            className="admin-official__ghost"
+            type="button"
+            disabled={offset + PAGE_SIZE >= total || loading}
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
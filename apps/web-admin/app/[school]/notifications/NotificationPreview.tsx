@@ -0,0 +1,233 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Option = {
+  id: string;
+  name: string;
+};
+
+type NotificationTemplate = {
+  subject?: string;
+  textTemplate?: string;
+  htmlTemplate?: string;
+};
+
+type PreviewResponse = {
+  subject: string;
+  text: string;
+  html: string;
+  template: NotificationTemplate | null;
+};
+
+type NotificationPreviewProps = {
+  schoolSlug: string;
+  programs: Option[];
+  campuses: Option[];
+  canEdit: boolean;
+};
+
+const EMPTY_TEMPLATE = { subject: "", textTemplate: "", htmlTemplate: "" };
+
+// Empty fields fall back to the built-in layout, so they are left out of the override.
+function toTemplate(draft: typeof EMPTY_TEMPLATE): NotificationTemplate | null {
+  const template: NotificationTemplate = {};
+  if (draft.subject.trim()) template.subject = draft.subject;
+  if (draft.textTemplate.trim()) template.textTemplate = draft.textTemplate;
+  if (draft.htmlTemplate.trim()) template.htmlTemplate = draft.htmlTemplate;
+  return Object.keys(template).length > 0 ? template : null;
+}
+
+export function NotificationPreview({ schoolSlug, programs, campuses, canEdit }: NotificationPreviewProps) {
+  const [programId, setProgramId] = useState(programs[0]?.id || "");
+  const [campusId, setCampusId] = useState("");
+  const [draft, setDraft] = useState(EMPTY_TEMPLATE);
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const loadPreview = async (template: NotificationTemplate | null, initial = false) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/schools/${schoolSlug}/notifications/preview`, {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          programId: programId || undefined,
+          campusId: campusId || undefined,
+          // Omitting the template renders the saved one; an empty draft renders the default layout.
+          template: initial ? undefined : template ?? {}
+        })
+      });
+
+      if (response.status === 401 || response.status === 403) {
+        window.location.href = `/${schoolSlug}/login`;
+        return;
+      }
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "Failed to render preview");
+      }
+
+      const data = (await response.json()) as PreviewResponse;
+      setPreview(data);
+      if (initial && data.template) {
+        setDraft({ ...EMPTY_TEMPLATE, ...data.template });
+      }
+    } catch (err) {
+      setError((err as Error).message || "Failed to render preview");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The first render loads the saved template into the editor; later ones preview the draft.
+  useEffect(() => {
+    loadPreview(preview ? toTemplate(draft) : null, !preview);
+  }, [programId, campusId]);
+
+  const handleChange = (field: keyof typeof EMPTY_TEMPLATE, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async (template: NotificationTemplate | null) => {
+    setSaving(true);
+    setStatus(null);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/schools/${schoolSlug}/notifications/template`, {
+        method: "PUT",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ template })
+      });
+
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "Save failed");
+      }
+
+      if (!template) {
+        setDraft(EMPTY_TEMPLATE);
+      }
+      setStatus(template ? "Template saved." : "Reset to the default template.");
+      await loadPreview(template);
+    } catch (err) {
+      setError((err as Error).message || "Save failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="admin-card">
+      <h3>Lead notification email</h3>
+      <p className="admin-muted">
+        Templates use {"{{mergeField}}"} placeholders such as {"{{programName}}"}, {"{{campusName}}"} or{" "}
+        {"{{answersText}}"}; HTML templates can insert {"{{{answersHtml}}}"} and {"{{{logoHtml}}}"}. Leave a field
+        empty to use the default layout.
+      </p>
+
+      <div className="admin-builder">
+        <div className="admin-builder__row">
+          <label className="admin-muted">Sample program</label>
+          <select
+            className="admin-builder__select"
+            value={programId}
+            onChange={(event) => setProgramId(event.target.value)}
+          >
+            {programs.map((program) => (
+              <option key={program.id} value={program.id}>
+                {program.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="admin-builder__row">
+          <label className="admin-muted">Sample campus</label>
+          <select
+            className="admin-builder__select"
+            value={campusId}
+            onChange={(event) => setCampusId(event.target.value)}
+          >
+            <option value="">Unspecified</option>
+            {campuses.map((campus) => (
+              <option key={campus.id} value={campus.id}>
+                {campus.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {canEdit && (
+          <div className="admin-builder__fields">
+            <div>
+              <label className="admin-muted">Subject</label>
+              <input
+                className="admin-builder__input"
+                value={draft.subject}
+                onChange={(event) => handleChange("subject", event.target.value)}
+              />
+            </div>
+            <div>
+              <label className="admin-muted">Text template</label>
+              <textarea
+                className="admin-builder__textarea"
+                value={draft.textTemplate}
+                onChange={(event) => handleChange("textTemplate", event.target.value)}
+              />
+            </div>
+            <div>
+              <label className="admin-muted">HTML template</label>
+              <textarea
+                className="admin-builder__textarea"
+                value={draft.htmlTemplate}
+                onChange={(event) => handleChange("htmlTemplate", event.target.value)}
+              />
+            </div>
+            <div className="admin-builder__actions">
+              <button className="admin-official__ghost" onClick={() => loadPreview(toTemplate(draft))} disabled={loading}>
+                {loading ? "Rendering..." : "Preview draft"}
+              </button>
+              <button className="admin-btn" onClick={() => handleSave(toTemplate(draft))} disabled={saving}>
+                {saving ? "Saving..." : "Save template"}
+              </button>
+              <button className="admin-official__ghost" onClick={() => handleSave(null)} disabled={saving}>
+                Reset to default
+              </button>
+              {status && <p className="admin-muted">{status}</p>}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="admin-muted" style={{ color: "#d9534f" }}>{error}</p>}
+      {loading && !preview && <p className="admin-muted">Rendering preview…</p>}
+      {preview && (
+        <div className="admin-builder__preview" style={{ marginTop: "16px" }}>
+          <div>
+            <p className="admin-muted">Subject: {preview.subject}</p>
+            <iframe
+              title="HTML notification preview"
+              srcDoc={preview.html}
+              sandbox=""
+              style={{ width: "100%", minHeight: "520px", border: "1px solid rgba(15, 23, 42, 0.08)", borderRadius: "12px" }}
+            />
+          </div>
+          <div>
+            <p className="admin-muted">Plain-text version</p>
+            <pre style={{ whiteSpace: "pre-wrap" }}>{preview.text}</pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ type MetricsResponse = {
     leads: number;
     delivered: number;
     failed: number;
+    partiallyDelivered: number;
     delivering: number;
     received: number;
     maxStep: number;
@@ -124,6 +125,7 @@ export default async function AdminAccount({ params }: { params: { school: strin
     leads: 0,
     delivered: 0,
     failed: 0,
+    partiallyDelivered: 0,
     delivering: 0,
     received: 0,
     maxStep: 3
@@ -136,6 +138,7 @@ export default async function AdminAccount({ params }: { params: { school: strin
   const leads = summary.leads;
   const delivered = summary.delivered;
   const failed = summary.failed;
+  const partiallyDelivered = summary.partiallyDelivered || 0;
   const delivering = summary.delivering;
   const received = summary.received;
   const maxStep = Math.max(summary.maxStep || 0, 3);
@@ -208,8 +211,11 @@ export default async function AdminAccount({ params }: { params: { school: strin
             <>
               <a className="admin-official__ghost" href={`/${school.slug}/config`}>Config builder</a>
               <a className="admin-official__ghost" href={`/${school.slug}/quiz`}>Quiz builder</a>
+              <a className="admin-official__ghost" href={`/${school.slug}/connections`}>CRM connections</a>
             </>
           )}
+          <a className="admin-official__ghost" href={`/${school.slug}/dead-letters`}>Failed deliveries</a>
+          <a className="admin-official__ghost" href={`/${school.slug}/notifications`}>Notifications</a>
           <a className="admin-official__ghost" href={`/${school.slug}/users`}>Users</a>
           <a className="admin-official__ghost" href={`/${school.slug}/audit`}>Audit</a>
         </div>
@@ -278,7 +284,12 @@ export default async function AdminAccount({ params }: { params: { school: strin
             </li>
             <li>
               <span className="admin-tag">Failures</span>
-              {failed.toLocaleString()} errors in last 30 days
+              {failed.toLocaleString()} errors in last 30 days ·{" "}
+              <a href={`/${school.slug}/dead-letters`}>Review and retry</a>
+            </li>
+            <li>
+              <span className="admin-tag">Partial</span>
+              {partiallyDelivered.toLocaleString()} missing at least one CRM destination
             </li>
             <li>
               <span className="admin-tag">Delivered</span>
@@ -63,6 +63,7 @@ type LandingResponse = {
   };
   campuses?: { id: string; name: string; schoolId: string }[];
   programs?: { id: string; name: string; schoolId: string }[];
+  formToken?: string;
 };
 
 export default async function LandingPage({
@@ -186,6 +187,7 @@ export default async function LandingPage({
           initialAnswers={{ program_interest: program.id }}
           ctaText={landingCopy.ctaText}
           enableQuiz={program.useQuizRouting || false}
+          formToken={data.formToken}
         />
 
         {/* Additional Content Sections - Only shown for "full" template */}
@@ -43,6 +43,8 @@ type FormEngineProps = {
   apiBaseUrl?: string;
   ctaText?: string;
   enableQuiz?: boolean; // New prop to enable quiz functionality
+  formToken?: string; // Signed by the API when the page rendered; used for spam scoring
+  captchaToken?: string;
 };
 
 type ContactInfo = {
@@ -120,6 +122,22 @@ function isQuestionVisible(question: Question, answers: Record<string, unknown>)
   return current === expected;
 }
 
+const DEVICE_ID_KEY = "lead_lander_device_id";
+
+// Stable per browser so the API can count leads coming from one device.
+function getDeviceId() {
+  try {
+    let deviceId = window.localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = window.crypto.randomUUID();
+      window.localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    return undefined;
+  }
+}
+
 function isQuizQuestionVisible(question: QuizQuestion, quizAnswers: Record<string, string | string[]>) {
   if (!question.conditionalOn) return true;
   const current = quizAnswers[question.conditionalOn.questionId];
@@ -146,7 +164,9 @@ export function FormEngine({
   initialAnswers,
   apiBaseUrl,
   ctaText,
-  enableQuiz = false
+  enableQuiz = false,
+  formToken,
+  captchaToken
 }: FormEngineProps) {
   const [currentStep, setCurrentStep] = useState(0);
   const [answers, setAnswers] = useState<Record<string, unknown>>(initialAnswers || {});
@@ -155,6 +175,8 @@ export function FormEngine({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Per-field messages (questions and phone), from the required check below or the API's validation
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [honeypot, setHoneypot] = useState("");
   const [submissionId, setSubmissionId] = useState<string | null>(null);
 
@@ -319,6 +341,17 @@ export function FormEngine({
     return !value;
   };
 
+  const readErrorResponse = async (response: Response) => {
+    const body = (await response.json().catch(() => null)) as
+      | { error?: string; fieldErrors?: Record<string, string> }
+      | null;
+    if (body?.fieldErrors) {
+      setFieldErrors(body.fieldErrors);
+      return "Please check the fields marked below.";
+    }
+    return body?.error || "Submission failed";
+  };
+
   const renderQuestion = (question: Question) => {
     return (
       <div className="form-question field" key={question.id}>
@@ -415,6 +448,7 @@ export function FormEngine({
             })}
           </div>
         )}
+        {fieldErrors[question.id] && <p style={{ color: "#d9534f" }}>{fieldErrors[question.id]}</p>}
       </div>
     );
   };
@@ -473,11 +507,13 @@ export function FormEngine({
 
   const handleBack = () => {
     setError(null);
+    setFieldErrors({});
     setCurrentStep((prev) => Math.max(prev - 1, 0));
   };
 
   const handleNext = async () => {
     setError(null);
+    setFieldErrors({});
 
     // Step 0: Contact info submission (creates CRM lead)
     if (isStartStep) {
@@ -491,11 +527,11 @@ export function FormEngine({
         return;
       }
 
-      for (const question of visibleLeadQuestions) {
-        if (question.required && isAnswerMissing(question)) {
-          setError("Please answer all required questions to continue.");
-          return;
-        }
+      const missing = visibleLeadQuestions.filter((question) => question.required && isAnswerMissing(question));
+      if (missing.length > 0) {
+        setFieldErrors(Object.fromEntries(missing.map((question) => [question.id, "This question is required"])));
+        setError("Please answer all required questions to continue.");
+        return;
       }
 
       setIsSubmitting(true);
@@ -526,10 +562,13 @@ export function FormEngine({
           programId,
           answers: payloadAnswers,
           honeypot,
+          formToken,
+          captchaToken,
           metadata: {
             utm: Object.fromEntries(new URLSearchParams(window.location.search)),
             referrer: document.referrer,
-            userAgent: navigator.userAgent
+            userAgent: navigator.userAgent,
+            deviceId: getDeviceId()
           },
           consent: {
             consented: consentChecked,
@@ -545,8 +584,7 @@ export function FormEngine({
         });
 
         if (!response.ok) {
-          const message = await response.text();
-          throw new Error(message || "Submission failed");
+          throw new Error(await readErrorResponse(response));
         }
 
         const data = (await response.json()) as { submissionId?: string };
@@ -600,8 +638,7 @@ export function FormEngine({
         });
 
         if (!response.ok) {
-          const message = await response.text();
-          throw new Error(message || "Submission failed");
+          throw new Error(await readErrorResponse(response));
         }
 
         let recommendation: { recommendedProgram: QuizProgram | null; quizScore: Record<string, number> } | undefined;
@@ -739,6 +776,7 @@ export function FormEngine({
                 value={contact.phone}
                 onChange={(event) => setContact({ ...contact, phone: event.target.value })}
               />
+              {fieldErrors.phone && <p style={{ color: "#d9534f" }}>{fieldErrors.phone}</p>}
             </div>
           </div>
           <div className="field-stack">
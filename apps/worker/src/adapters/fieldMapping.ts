@@ -0,0 +1,39 @@
+import type { DeliveryPayload } from "./types";
+import { getValueByPath } from "./http";
+
+export type FieldValue = string | number | boolean | unknown[] | Record<string, unknown>;
+
+export type FieldMappingConfig = {
+  fields: Record<string, string>;
+  staticFields: Record<string, string | number | boolean>;
+  create?: { fields?: Record<string, string> };
+  update?: { fields?: Record<string, string> };
+};
+
+/**
+ * Resolves `sourcePath -> crmField` mappings against the payload, layering the
+ * action-specific (`create` / `update`) mapping over the shared one.
+ */
+export function mapPayloadFields(config: FieldMappingConfig, payload: DeliveryPayload) {
+  const mapping = { ...config.fields, ...config[payload.action]?.fields };
+  const fields: Record<string, FieldValue> = { ...config.staticFields };
+
+  for (const [sourcePath, crmField] of Object.entries(mapping)) {
+    const value = getValueByPath(payload, sourcePath);
+    if (value === undefined || value === null) continue;
+    fields[crmField] = value as FieldValue;
+  }
+
+  return fields;
+}
+
+/** The mappings whose source path has no value in the payload; their CRM fields would be left out. */
+export function findUnmappedFields(config: Partial<FieldMappingConfig>, payload: DeliveryPayload) {
+  const mapping = { ...config.fields, ...config[payload.action]?.fields };
+  return Object.entries(mapping)
+    .filter(([sourcePath]) => {
+      const value = getValueByPath(payload, sourcePath);
+      return value === undefined || value === null;
+    })
+    .map(([sourcePath, crmField]) => ({ sourcePath, crmField }));
+}
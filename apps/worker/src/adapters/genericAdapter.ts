@@ -1,10 +1,84 @@
-import { AdapterResult, CrmAdapter } from "./types";
+import { GenericCrmConfigSchema } from "@lead_lander/config-schema";
+import { CrmAdapter, DeliveryPayload } from "./types";
+import { applyAuthHeader, extractCrmLeadId, formatConfigError, getValueByPath, httpFailure, sendRequest } from "./http";
+import { mapPayloadFields, type FieldValue } from "./fieldMapping";
 
-export const genericAdapter: CrmAdapter = async () => {
-  const result: AdapterResult = {
-    success: false,
-    error: "Generic CRM adapter not implemented"
+function resolveUrl(template: string, payload: DeliveryPayload) {
+  const missing: string[] = [];
+  const url = template.replace(/\{(\w+)\}/g, (_match, key: string) => {
+    const value = getValueByPath(payload, key);
+    if (value === undefined || value === null || value === "") {
+      missing.push(key);
+      return "";
+    }
+    return encodeURIComponent(String(value));
+  });
+  return { url, missing };
+}
+
+function encodeFormBody(fields: Record<string, FieldValue>) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(fields)) {
+    if (Array.isArray(value)) {
+      params.append(key, value.join(","));
+    } else if (typeof value === "object") {
+      params.append(key, JSON.stringify(value));
+    } else {
+      params.append(key, String(value));
+    }
+  }
+  return params.toString();
+}
+
+export const genericAdapter: CrmAdapter = async (payload, connectionConfig) => {
+  const parsed = GenericCrmConfigSchema.safeParse(connectionConfig);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: `Invalid generic CRM config: ${formatConfigError(parsed.error)}`,
+      errorClass: "permanent"
+    };
+  }
+
+  const config = parsed.data;
+  const actionConfig = config[payload.action];
+  const { url, missing } = resolveUrl(actionConfig?.url || config.url, payload);
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: `Missing values for URL placeholders: ${missing.join(", ")}`,
+      errorClass: "permanent"
+    };
+  }
+
+  const fields = mapPayloadFields(config, payload);
+  if (Object.keys(fields).length === 0) {
+    return { success: false, error: `No field mappings configured for ${payload.action}`, errorClass: "permanent" };
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": config.bodyFormat === "form" ? "application/x-www-form-urlencoded" : "application/json",
+    ...config.headers
   };
 
-  return result;
+  applyAuthHeader(headers, config);
+
+  try {
+    const response = await sendRequest(url, {
+      method: actionConfig?.method || config.method,
+      headers,
+      body: config.bodyFormat === "form" ? encodeFormBody(fields) : JSON.stringify(fields)
+    });
+    const { ok, statusCode, responseBody } = response;
+
+    if (!ok) {
+      return httpFailure(response);
+    }
+
+    const crmLeadId = extractCrmLeadId(responseBody, config.leadIdField) ?? payload.crmLeadId ?? undefined;
+
+    return { success: true, statusCode, responseBody, crmLeadId };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, errorClass: "retryable" };
+  }
 };
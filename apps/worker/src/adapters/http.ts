@@ -0,0 +1,161 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { SpanKind } from "@opentelemetry/api";
+import { env } from "../env";
+import { withSpan } from "../tracing";
+import type { AdapterErrorClass, AdapterResult } from "./types";
+
+export type HttpResponse = {
+  ok: boolean;
+  statusCode: number;
+  responseBody: string;
+  // From the Retry-After header, when the CRM sent one
+  retryAfterMs?: number;
+  // Set when a dry run answered in place of the CRM
+  dryRun?: boolean;
+};
+
+export type CapturedRequest = {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string | null;
+  response?: { statusCode: number; body: string };
+  error?: string;
+};
+
+type RequestCapture = {
+  dryRun: boolean;
+  requests: CapturedRequest[];
+};
+
+const requestCapture = new AsyncLocalStorage<RequestCapture>();
+
+/**
+ * Records every request an adapter makes while `fn` runs. In a dry run nothing is sent: each request is answered
+ * with an empty 2xx response marked `dryRun`.
+ */
+export async function captureRequests<T>(dryRun: boolean, fn: () => Promise<T>) {
+  const capture: RequestCapture = { dryRun, requests: [] };
+  const result = await requestCapture.run(capture, fn);
+  return { result, requests: capture.requests };
+}
+
+export function getValueByPath(value: unknown, path: string) {
+  if (!value || typeof value !== "object") return undefined;
+  const segments = path.split(".").filter(Boolean);
+  let current: any = value;
+  for (const segment of segments) {
+    if (current == null || typeof current !== "object" || !(segment in current)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+export function formatConfigError(error: { issues: { path: (string | number)[]; message: string }[] }) {
+  return error.issues
+    .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+/** Retry-After as delta-seconds or an HTTP date, in ms; capped so one bad header cannot park a lead for days. */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()) {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  const delayMs = /^\d+$/.test(trimmed) ? Number(trimmed) * 1000 : Date.parse(trimmed) - now;
+  if (!Number.isFinite(delayMs)) return undefined;
+  return Math.min(Math.max(delayMs, 0), env.crmMaxRetryAfterMs);
+}
+
+export function classifyStatus(statusCode: number, retryAfterMs?: number): AdapterErrorClass {
+  if (statusCode === 429 || (statusCode === 503 && retryAfterMs !== undefined)) return "rate_limited";
+  if (statusCode >= 500 || statusCode === 408 || statusCode === 425) return "retryable";
+  // Any other 4xx (validation, auth, duplicates) fails the same way until someone changes the config or data.
+  return "permanent";
+}
+
+/** The AdapterResult for a non-2xx CRM response. */
+export function httpFailure({ statusCode, responseBody, retryAfterMs }: HttpResponse): AdapterResult {
+  const errorClass = classifyStatus(statusCode, retryAfterMs);
+  return {
+    success: false,
+    statusCode,
+    responseBody,
+    errorClass,
+    ...(errorClass === "rate_limited" && retryAfterMs !== undefined ? { retryAfterMs } : {})
+  };
+}
+
+export function applyAuthHeader(headers: Record<string, string>, connectionConfig: Record<string, any>) {
+  if (!connectionConfig.authHeaderName) return;
+
+  const headerName = String(connectionConfig.authHeaderName);
+  const envKey = connectionConfig.authHeaderEnv ? String(connectionConfig.authHeaderEnv) : null;
+  const headerValue = envKey ? process.env[envKey] : connectionConfig.authHeaderValue;
+
+  if (headerValue) {
+    headers[headerName] = String(headerValue);
+  }
+}
+
+export function extractCrmLeadId(responseBody: string, leadIdField = "id") {
+  try {
+    const parsed = JSON.parse(responseBody);
+    const candidate = getValueByPath(parsed, leadIdField);
+    if (candidate !== undefined && candidate !== null) {
+      return String(candidate);
+    }
+  } catch {
+    return undefined;
+  }
+  return undefined;
+}
+
+export async function sendRequest(url: string, init: RequestInit): Promise<HttpResponse> {
+  const method = init.method || "GET";
+  const capture = requestCapture.getStore();
+  const captured: CapturedRequest | null = capture
+    ? {
+        url,
+        method,
+        headers: { ...(init.headers as Record<string, string> | undefined) },
+        body: typeof init.body === "string" ? init.body : null
+      }
+    : null;
+  if (capture && captured) {
+    capture.requests.push(captured);
+    if (capture.dryRun) {
+      return { ok: true, statusCode: 200, responseBody: "", dryRun: true };
+    }
+  }
+
+  // Only the host is recorded; paths and query strings can carry CRM credentials.
+  const attributes = { "http.request.method": method, "server.address": new URL(url).host };
+
+  return withSpan(method, { kind: SpanKind.CLIENT, attributes }, async (span) => {
+    const controller = new AbortController();
+    const timeoutMs = env.adapterTimeoutMs || 10_000;
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      const responseBody = await response.text();
+      span.setAttribute("http.response.status_code", response.status);
+      if (captured) captured.response = { statusCode: response.status, body: responseBody };
+      const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      return {
+        ok: response.ok,
+        statusCode: response.status,
+        responseBody,
+        ...(retryAfterMs !== undefined ? { retryAfterMs } : {})
+      };
+    } catch (error) {
+      const failure = (error as Error).name === "AbortError" ? new Error(`Adapter timeout after ${timeoutMs}ms`) : error;
+      if (captured) captured.error = (failure as Error).message;
+      throw failure;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  });
+}
@@ -0,0 +1,84 @@
+import { HubspotCrmConfigSchema } from "@lead_lander/config-schema";
+import { CrmAdapter } from "./types";
+import { extractCrmLeadId, formatConfigError, httpFailure, sendRequest } from "./http";
+import { mapPayloadFields } from "./fieldMapping";
+
+export const hubspotAdapter: CrmAdapter = async (payload, connectionConfig) => {
+  const parsed = HubspotCrmConfigSchema.safeParse(connectionConfig);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: `Invalid HubSpot config: ${formatConfigError(parsed.error)}`,
+      errorClass: "permanent"
+    };
+  }
+
+  const config = parsed.data;
+  const accessToken = process.env[config.accessTokenEnv];
+  if (!accessToken) {
+    return {
+      success: false,
+      error: `Missing HubSpot access token (${config.accessTokenEnv})`,
+      errorClass: "permanent"
+    };
+  }
+
+  if (payload.action === "update" && !payload.crmLeadId) {
+    return { success: false, error: "Missing crm_lead_id for HubSpot update", errorClass: "permanent" };
+  }
+
+  const properties = mapPayloadFields(config, payload);
+  // Multiple checkbox properties take semicolon-separated values.
+  for (const [key, value] of Object.entries(properties)) {
+    if (Array.isArray(value)) {
+      properties[key] = value.join(";");
+    }
+  }
+
+  // The step's answers reach HubSpot through `fields`; this only records how far the lead got.
+  if (config.stepProperty && payload.stepIndex != null) {
+    properties[config.stepProperty] = payload.stepIndex;
+  }
+
+  const baseUrl = `${config.baseUrl.replace(/\/$/, "")}/crm/v3/objects/contacts`;
+  const headers = {
+    Authorization: `Bearer ${accessToken}`,
+    "Content-Type": "application/json"
+  };
+
+  try {
+    if (payload.action === "update") {
+      const response = await sendRequest(
+        `${baseUrl}/${encodeURIComponent(payload.crmLeadId as string)}`,
+        { method: "PATCH", headers, body: JSON.stringify({ properties }) }
+      );
+      const { ok, statusCode, responseBody } = response;
+
+      if (!ok) {
+        return httpFailure(response);
+      }
+
+      return { success: true, statusCode, responseBody, crmLeadId: payload.crmLeadId ?? undefined };
+    }
+
+    const email = payload.contact.email.trim().toLowerCase();
+    const response = await sendRequest(`${baseUrl}/batch/upsert`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        inputs: [{ idProperty: "email", id: email, properties }]
+      })
+    });
+    const { ok, statusCode, responseBody } = response;
+
+    if (!ok) {
+      return httpFailure(response);
+    }
+
+    const crmLeadId = extractCrmLeadId(responseBody, "results.0.id");
+
+    return { success: true, statusCode, responseBody, crmLeadId };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, errorClass: "retryable" };
+  }
+};
@@ -0,0 +1,29 @@
+import type { CrmConnection } from "@lead_lander/config-schema";
+import type { AdapterResult, CrmAdapter, DeliveryEntities, DeliveryPayload } from "./types";
+import { webhookAdapter } from "./webhookAdapter";
+import { genericAdapter } from "./genericAdapter";
+import { salesforceAdapter } from "./salesforceAdapter";
+import { hubspotAdapter } from "./hubspotAdapter";
+
+const adapters: Record<string, CrmAdapter> = {
+  webhook: webhookAdapter,
+  generic: genericAdapter,
+  salesforce: salesforceAdapter,
+  hubspot: hubspotAdapter
+};
+
+export function runAdapter(
+  connection: CrmConnection,
+  payload: DeliveryPayload,
+  entities?: DeliveryEntities
+): Promise<AdapterResult> {
+  const adapter = adapters[connection.type];
+  if (!adapter) {
+    return Promise.resolve({
+      success: false,
+      error: `Unsupported CRM connection type: ${connection.type}`,
+      errorClass: "permanent"
+    });
+  }
+  return adapter(payload, connection.config || {}, { payloadFormat: connection.payload, entities });
+}
@@ -0,0 +1,108 @@
+import type { CrmPayloadFormat } from "@lead_lander/config-schema";
+import { getValueByPath } from "./http";
+import type { DeliveryEntities, DeliveryPayload } from "./types";
+
+type PayloadVersion = CrmPayloadFormat["version"];
+type Serializer = (payload: DeliveryPayload, entities?: DeliveryEntities) => Record<string, unknown>;
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+const SPREAD_KEY = "...";
+
+function named(entity: { id: string; name: string } | null | undefined) {
+  return entity ? { id: entity.id, name: entity.name } : null;
+}
+
+// Each version lists its fields explicitly, so a field added to DeliveryPayload only reaches receivers
+// through a new version. Never change a released serializer.
+const serializers: Record<PayloadVersion, Serializer> = {
+  v1: (payload) => ({
+    submissionId: payload.submissionId,
+    idempotencyKey: payload.idempotencyKey,
+    action: payload.action,
+    crmLeadId: payload.crmLeadId,
+    stepIndex: payload.stepIndex,
+    schoolId: payload.schoolId,
+    campusId: payload.campusId,
+    programId: payload.programId,
+    contact: payload.contact,
+    answers: payload.answers,
+    metadata: payload.metadata,
+    consent: payload.consent,
+    routingTags: payload.routingTags
+  }),
+  v2: (payload, entities) => ({
+    version: 2,
+    event: payload.action === "create" ? "lead.created" : "lead.updated",
+    submissionId: payload.submissionId,
+    idempotencyKey: payload.idempotencyKey,
+    crmLeadId: payload.crmLeadId ?? null,
+    stepIndex: payload.stepIndex ?? null,
+    school: { id: payload.schoolId, name: entities?.school.name ?? null },
+    campus: payload.campusId ? { id: payload.campusId, name: entities?.campus?.name ?? null } : null,
+    program: { id: payload.programId, name: entities?.program.name ?? null },
+    contact: payload.contact,
+    answers: payload.answers,
+    metadata: payload.metadata,
+    consent: payload.consent,
+    routingTags: payload.routingTags
+  })
+};
+
+function formatInline(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(formatInline).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Renders a transform template. A string that is exactly one placeholder keeps the value's type (objects,
+ * arrays, numbers); placeholders inside longer strings are interpolated. A "..." key merges the object it
+ * renders to into its parent, and keys after it win.
+ */
+export function applyPayloadTransform(template: unknown, context: Record<string, unknown>): unknown {
+  if (typeof template === "string") {
+    const whole = template.match(WHOLE_PLACEHOLDER);
+    if (whole) {
+      return getValueByPath(context, whole[1]) ?? null;
+    }
+    return template.replace(PLACEHOLDER, (_match, path: string) => formatInline(getValueByPath(context, path)));
+  }
+
+  if (Array.isArray(template)) {
+    return template.map((item) => applyPayloadTransform(item, context));
+  }
+
+  if (template && typeof template === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(template)) {
+      const rendered = applyPayloadTransform(value, context);
+      if (key !== SPREAD_KEY) {
+        result[key] = rendered;
+      } else if (rendered && typeof rendered === "object" && !Array.isArray(rendered)) {
+        Object.assign(result, rendered);
+      }
+    }
+    return result;
+  }
+
+  return template;
+}
+
+/** The body a webhook connection sends: the pinned payload version, reshaped by the connection's transform. */
+export function serializeDeliveryPayload(
+  payload: DeliveryPayload,
+  format?: CrmPayloadFormat,
+  entities?: DeliveryEntities
+): unknown {
+  const body = serializers[format?.version || "v1"](payload, entities);
+  if (!format?.transform) {
+    return body;
+  }
+
+  const context = entities
+    ? { ...body, school: named(entities.school), campus: named(entities.campus), program: named(entities.program) }
+    : body;
+  return applyPayloadTransform(format.transform, context);
+}
@@ -0,0 +1,183 @@
+import { createSign } from "crypto";
+import { SalesforceCrmConfigSchema, type SalesforceCrmConfig } from "@lead_lander/config-schema";
+import type { AdapterErrorClass, CrmAdapter } from "./types";
+import { classifyStatus, extractCrmLeadId, formatConfigError, httpFailure, sendRequest } from "./http";
+import { mapPayloadFields } from "./fieldMapping";
+
+type CachedToken = {
+  accessToken: string;
+  instanceUrl: string;
+  expiresAt: number;
+};
+
+// Tokens are shared across jobs for the life of the worker process.
+const tokenCache = new Map<string, CachedToken>();
+
+export function clearSalesforceTokenCache() {
+  tokenCache.clear();
+}
+
+// Token failures carry their own class: a missing key or rejected credentials will not fix themselves.
+class SalesforceAuthError extends Error {
+  constructor(message: string, readonly errorClass: AdapterErrorClass, readonly retryAfterMs?: number) {
+    super(message);
+  }
+}
+
+function cacheKey(config: SalesforceCrmConfig) {
+  return [config.authFlow, config.loginUrl, config.clientId, config.username || ""].join("|");
+}
+
+function base64Url(value: string | Buffer) {
+  return Buffer.from(value).toString("base64url");
+}
+
+function buildJwtAssertion(config: SalesforceCrmConfig, privateKey: string) {
+  const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const claims = base64Url(
+    JSON.stringify({
+      iss: config.clientId,
+      sub: config.username,
+      aud: config.loginUrl,
+      exp: Math.floor(Date.now() / 1000) + 180
+    })
+  );
+  const signer = createSign("RSA-SHA256");
+  signer.update(`${header}.${claims}`);
+  return `${header}.${claims}.${base64Url(signer.sign(privateKey))}`;
+}
+
+function buildTokenRequest(config: SalesforceCrmConfig) {
+  const params = new URLSearchParams();
+
+  if (config.authFlow === "jwt_bearer") {
+    const privateKey = process.env[config.privateKeyEnv as string]?.replace(/\\n/g, "\n");
+    if (!privateKey) {
+      throw new SalesforceAuthError(`Missing Salesforce private key (${config.privateKeyEnv})`, "permanent");
+    }
+    params.set("grant_type", "urn:ietf:params:oauth:grant-type:jwt-bearer");
+    params.set("assertion", buildJwtAssertion(config, privateKey));
+    return params;
+  }
+
+  const clientSecret = process.env[config.clientSecretEnv as string];
+  if (!clientSecret) {
+    throw new SalesforceAuthError(`Missing Salesforce client secret (${config.clientSecretEnv})`, "permanent");
+  }
+  params.set("grant_type", "client_credentials");
+  params.set("client_id", config.clientId);
+  params.set("client_secret", clientSecret);
+  return params;
+}
+
+async function getAccessToken(config: SalesforceCrmConfig, forceRefresh = false): Promise<CachedToken> {
+  const key = cacheKey(config);
+  const cached = tokenCache.get(key);
+  if (!forceRefresh && cached && cached.expiresAt > Date.now()) {
+    return cached;
+  }
+
+  const { ok, statusCode, responseBody, retryAfterMs, dryRun } = await sendRequest(
+    `${config.loginUrl.replace(/\/$/, "")}/services/oauth2/token`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: buildTokenRequest(config).toString()
+    }
+  );
+
+  // Dry runs get a placeholder (never cached) so the sObject request can still be shown.
+  if (dryRun) {
+    return { accessToken: "dry-run-token", instanceUrl: config.loginUrl.replace(/\/$/, ""), expiresAt: 0 };
+  }
+
+  if (!ok) {
+    tokenCache.delete(key);
+    throw new SalesforceAuthError(
+      `Salesforce token request failed with status ${statusCode}: ${responseBody}`,
+      classifyStatus(statusCode, retryAfterMs),
+      retryAfterMs
+    );
+  }
+
+  const parsed = JSON.parse(responseBody) as { access_token?: string; instance_url?: string; expires_in?: number };
+  if (!parsed.access_token || !parsed.instance_url) {
+    throw new Error("Salesforce token response missing access_token or instance_url");
+  }
+
+  const ttlSeconds = Number(parsed.expires_in) > 0 ? Number(parsed.expires_in) : config.tokenTtlSeconds;
+  const token: CachedToken = {
+    accessToken: parsed.access_token,
+    instanceUrl: parsed.instance_url.replace(/\/$/, ""),
+    // Refresh a minute early so in-flight requests do not race the expiry.
+    expiresAt: Date.now() + Math.max(ttlSeconds - 60, 1) * 1000
+  };
+  tokenCache.set(key, token);
+  return token;
+}
+
+export const salesforceAdapter: CrmAdapter = async (payload, connectionConfig) => {
+  const parsed = SalesforceCrmConfigSchema.safeParse(connectionConfig);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: `Invalid Salesforce config: ${formatConfigError(parsed.error)}`,
+      errorClass: "permanent"
+    };
+  }
+
+  const config = parsed.data;
+
+  if (payload.action === "update" && !payload.crmLeadId) {
+    return { success: false, error: "Missing crm_lead_id for Salesforce update", errorClass: "permanent" };
+  }
+
+  const fields = mapPayloadFields(config, payload);
+  // Multi-select picklists take semicolon-separated values.
+  for (const [key, value] of Object.entries(fields)) {
+    if (Array.isArray(value)) {
+      fields[key] = value.join(";");
+    }
+  }
+
+  const send = async (token: CachedToken) => {
+    const basePath = `${token.instanceUrl}/services/data/${config.apiVersion}/sobjects/${encodeURIComponent(config.sobject)}`;
+    const url = payload.action === "create"
+      ? basePath
+      : `${basePath}/${encodeURIComponent(payload.crmLeadId as string)}`;
+
+    return sendRequest(url, {
+      method: payload.action === "create" ? "POST" : "PATCH",
+      headers: {
+        Authorization: `Bearer ${token.accessToken}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(fields)
+    });
+  };
+
+  try {
+    let response = await send(await getAccessToken(config));
+
+    if (response.statusCode === 401) {
+      response = await send(await getAccessToken(config, true));
+    }
+
+    const { ok, statusCode, responseBody } = response;
+
+    if (!ok) {
+      return httpFailure(response);
+    }
+
+    const crmLeadId = payload.action === "create"
+      ? extractCrmLeadId(responseBody, "id")
+      : payload.crmLeadId ?? undefined;
+
+    return { success: true, statusCode, responseBody, crmLeadId };
+  } catch (error) {
+    if (error instanceof SalesforceAuthError) {
+      return { success: false, error: error.message, errorClass: error.errorClass, retryAfterMs: error.retryAfterMs };
+    }
+    return { success: false, error: (error as Error).message, errorClass: "retryable" };
+  }
+};
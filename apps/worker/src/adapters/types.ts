@@ -1,3 +1,5 @@
+import type { CrmPayloadFormat } from "@lead_lander/config-schema";
+
 export type DeliveryPayload = {
   submissionId: string;
   idempotencyKey: string;
@@ -23,12 +25,39 @@ export type DeliveryPayload = {
   routingTags: string[];
 };
 
+/**
+ * How a failed delivery should be retried: `retryable` with the usual backoff, `rate_limited` after
+ * `retryAfterMs` when the CRM sent one, `permanent` never (bad config or a payload the CRM rejects).
+ */
+export type AdapterErrorClass = "retryable" | "rate_limited" | "permanent";
+
 export type AdapterResult = {
   success: boolean;
   statusCode?: number;
   responseBody?: string;
   crmLeadId?: string;
   error?: string;
+  errorClass?: AdapterErrorClass;
+  retryAfterMs?: number;
+};
+
+type NamedEntity = { id: string; name: string };
+
+/** The lead's school, campus and program, for payloads that include names as well as ids. */
+export type DeliveryEntities = {
+  school: NamedEntity;
+  campus: NamedEntity | null;
+  program: NamedEntity;
+};
+
+/** Connection-level settings that are not part of the adapter's own `config`. */
+export type AdapterContext = {
+  payloadFormat?: CrmPayloadFormat;
+  entities?: DeliveryEntities;
 };
 
-export type CrmAdapter = (payload: DeliveryPayload, connectionConfig: Record<string, any>) => Promise<AdapterResult>;
+export type CrmAdapter = (
+  payload: DeliveryPayload,
+  connectionConfig: Record<string, any>,
+  context?: AdapterContext
+) => Promise<AdapterResult>;
@@ -1,79 +1,75 @@
-import { AdapterResult, CrmAdapter } from "./types";
-import { env } from "../env";
+import { WebhookSigningSchema } from "@lead_lander/config-schema";
+import {
+  DEFAULT_SIGNATURE_HEADER,
+  DEFAULT_TIMESTAMP_HEADER,
+  signPayload
+} from "@lead_lander/webhook-signing";
+import { CrmAdapter } from "./types";
+import { applyAuthHeader, extractCrmLeadId, formatConfigError, httpFailure, sendRequest } from "./http";
+import { serializeDeliveryPayload } from "./payload";
 
-function getValueByPath(value: unknown, path: string) {
-  if (!value || typeof value !== "object") return undefined;
-  const segments = path.split(".").filter(Boolean);
-  let current: any = value;
-  for (const segment of segments) {
-    if (current == null || typeof current !== "object" || !(segment in current)) {
-      return undefined;
-    }
-    current = current[segment];
+function applySignatureHeaders(
+  headers: Record<string, string>,
+  signingConfig: unknown,
+  body: string
+): string | null {
+  const parsed = WebhookSigningSchema.safeParse(signingConfig);
+  if (!parsed.success) {
+    return `Invalid webhook signing config: ${formatConfigError(parsed.error)}`;
+  }
+
+  const signing = parsed.data;
+  const secret = signing.secretEnv ? process.env[signing.secretEnv] : signing.secret;
+  if (!secret) {
+    return `Missing webhook signing secret${signing.secretEnv ? ` (${signing.secretEnv})` : ""}`;
   }
-  return current;
+
+  const { signature, timestamp } = signPayload({ secret, body });
+  headers[signing.signatureHeader || DEFAULT_SIGNATURE_HEADER] = signature;
+  headers[signing.timestampHeader || DEFAULT_TIMESTAMP_HEADER] = timestamp;
+  return null;
 }
 
-export const webhookAdapter: CrmAdapter = async (payload, connectionConfig) => {
+export const webhookAdapter: CrmAdapter = async (payload, connectionConfig, context = {}) => {
   const endpoint = connectionConfig.endpoint as string | undefined;
   if (!endpoint) {
-    return { success: false, error: "Missing webhook endpoint" };
+    return { success: false, error: "Missing webhook endpoint", errorClass: "permanent" };
   }
 
   const headers: Record<string, string> = {
     "Content-Type": "application/json"
   };
 
-  if (connectionConfig.authHeaderName) {
-    const headerName = String(connectionConfig.authHeaderName);
-    const envKey = connectionConfig.authHeaderEnv ? String(connectionConfig.authHeaderEnv) : null;
-    const headerValue = envKey ? process.env[envKey] : connectionConfig.authHeaderValue;
+  applyAuthHeader(headers, connectionConfig);
+
+  const body = JSON.stringify(serializeDeliveryPayload(payload, context.payloadFormat, context.entities));
 
-    if (headerValue) {
-      headers[headerName] = String(headerValue);
+  if (connectionConfig.signing) {
+    const signingError = applySignatureHeaders(headers, connectionConfig.signing, body);
+    if (signingError) {
+      return { success: false, error: signingError, errorClass: "permanent" };
     }
   }
 
-  const controller = new AbortController();
-  const timeoutMs = env.adapterTimeoutMs || 10_000;
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
   try {
-    const response = await fetch(endpoint, {
+    const response = await sendRequest(endpoint, {
       method: "POST",
       headers,
-      body: JSON.stringify(payload),
-      signal: controller.signal
+      body
     });
+    const { ok, statusCode, responseBody } = response;
 
-    const responseBody = await response.text();
-
-    if (!response.ok) {
-      return { success: false, statusCode: response.status, responseBody };
+    if (!ok) {
+      return httpFailure(response);
     }
 
-    let crmLeadId: string | undefined;
     const leadIdField = connectionConfig.leadIdField
       ? String(connectionConfig.leadIdField)
       : "id";
+    const crmLeadId = extractCrmLeadId(responseBody, leadIdField);
 
-    try {
-      const parsed = JSON.parse(responseBody);
-      const candidate = getValueByPath(parsed, leadIdField);
-      if (candidate !== undefined && candidate !== null) {
-        crmLeadId = String(candidate);
-      }
-    } catch {
-      crmLeadId = undefined;
-    }
-
-    return { success: true, statusCode: response.status, responseBody, crmLeadId };
+    return { success: true, statusCode, responseBody, crmLeadId };
   } catch (error) {
-    if ((error as Error).name === "AbortError") {
-      return { success: false, error: `Adapter timeout after ${timeoutMs}ms` };
-    }
-    return { success: false, error: (error as Error).message };
-  } finally {
-    clearTimeout(timeoutId);
+    return { success: false, error: (error as Error).message, errorClass: "retryable" };
   }
 };
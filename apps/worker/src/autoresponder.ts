@@ -0,0 +1,45 @@
+import type { Campus, MergeFields, Program, School } from "@lead_lander/config-schema";
+
+type AutoresponderSubmission = {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string | null;
+  answers: Record<string, unknown> | null;
+};
+
+type AutoresponderEntities = {
+  school: School;
+  campus: Campus | null;
+  program: Program;
+};
+
+function formatAnswer(value: unknown) {
+  if (Array.isArray(value)) return value.map(String).join(", ");
+  if (value === null || value === undefined) return "";
+  return String(value);
+}
+
+export function buildMergeFields(submission: AutoresponderSubmission, entities: AutoresponderEntities): MergeFields {
+  const thankYou = entities.school.thankYou || {};
+  const fields: MergeFields = {
+    firstName: submission.first_name,
+    lastName: submission.last_name,
+    email: submission.email,
+    phone: submission.phone || "",
+    schoolName: entities.school.name,
+    campusName: entities.campus?.name || "",
+    programName: entities.program.name,
+    thankYouTitle: thankYou.title || "",
+    thankYouMessage: thankYou.message || "",
+    thankYouBody: thankYou.body || "",
+    ctaText: thankYou.ctaText || "",
+    ctaUrl: thankYou.ctaUrl || ""
+  };
+
+  for (const [questionId, value] of Object.entries(submission.answers || {})) {
+    fields[`answers.${questionId}`] = formatAnswer(value);
+  }
+
+  return fields;
+}
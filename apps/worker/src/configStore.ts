@@ -1,6 +1,7 @@
 import type { Pool } from "pg";
 import { ConfigSchema, type Config } from "@lead_lander/config-schema";
 import { env } from "./env";
+import { configCacheLookupsTotal } from "./metrics";
 
 const cache = new Map<string, { expiresAt: number; value: Config }>();
 const ttlMs = Number(env.configCacheTtlSeconds || 60) * 1000;
@@ -10,8 +11,10 @@ export function createConfigStore(pool: Pool) {
     async getClientConfig(clientId: string): Promise<Config> {
       const cached = cache.get(clientId);
       if (cached && cached.expiresAt > Date.now()) {
+        configCacheLookupsTotal.inc({ result: "hit" });
         return cached.value;
       }
+      configCacheLookupsTotal.inc({ result: "miss" });
 
       const [schools, campuses, programs, landingPages, crmConnections, quizQuestions, quizAnswerOptions] = await Promise.all([
         pool.query("SELECT * FROM schools WHERE client_id = $1", [clientId]),
@@ -37,8 +40,14 @@ export function createConfigStore(pool: Pool) {
             : row.branding,
           compliance: row.compliance,
           crmConnectionId: row.crm_connection_id,
+          defaultPhoneCountry: row.default_phone_country || undefined,
+          dedupe: row.dedupe_policy || undefined,
+          additionalCrmConnectionIds: row.additional_crm_connection_ids || [],
+          routingRules: row.routing_rules || [],
           footerContent: row.footer_content || undefined,
-          thankYou: row.thank_you || undefined
+          thankYou: row.thank_you || undefined,
+          autoresponder: row.autoresponder || undefined,
+          notificationTemplate: row.notification_template || undefined
         })),
         campuses: campuses.rows.map((row) => ({
           id: row.id,
@@ -80,7 +89,8 @@ export function createConfigStore(pool: Pool) {
               faqs: true
             }
           },
-          useQuizRouting: row.use_quiz_routing || false
+          useQuizRouting: row.use_quiz_routing || false,
+          autoresponder: row.autoresponder || undefined
         })),
         landingPages: landingPages.rows.map((row) => ({
           id: row.id,
@@ -93,7 +103,10 @@ export function createConfigStore(pool: Pool) {
         crmConnections: crmConnections.rows.map((row) => ({
           id: row.id,
           type: row.type,
-          config: row.config || undefined
+          config: row.config || undefined,
+          delivery: row.delivery || undefined,
+          statusWebhook: row.status_webhook || undefined,
+          payload: row.payload_format || undefined
         })),
         quizQuestions: quizQuestions.rows.map((row) => ({
           id: row.id,
@@ -0,0 +1,112 @@
+export type BreakerState = "closed" | "open" | "half_open";
+
+export type ConnectionPolicy = {
+  requestsPerSecond: number;
+  failureThreshold: number;
+  cooldownMs: number;
+};
+
+export type GuardDecision =
+  | { allowed: true }
+  | { allowed: false; reason: "circuit_open" | "rate_limited"; retryAfterMs: number };
+
+type ConnectionState = {
+  breaker: BreakerState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  probeStartedAt: number | null;
+  nextSlotAt: number;
+  policy: ConnectionPolicy;
+};
+
+// State is per worker process; each replica trips and probes on its own.
+const states = new Map<string, ConnectionState>();
+
+export function resetConnectionGuards() {
+  states.clear();
+}
+
+function getState(connectionId: string, policy: ConnectionPolicy) {
+  let state = states.get(connectionId);
+  if (!state) {
+    state = {
+      breaker: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+      probeStartedAt: null,
+      nextSlotAt: 0,
+      policy
+    };
+    states.set(connectionId, state);
+  }
+  state.policy = policy;
+  return state;
+}
+
+/**
+ * Decides whether a delivery to this connection may run now. An open breaker lets a single probe
+ * through once the cooldown has passed (half-open); everything else is told how long to wait.
+ */
+export function acquireConnection(connectionId: string, policy: ConnectionPolicy, now = Date.now()): GuardDecision {
+  const state = getState(connectionId, policy);
+
+  if (state.breaker === "open" && state.openedAt !== null) {
+    const reopensAt = state.openedAt + policy.cooldownMs;
+    if (now < reopensAt) {
+      return { allowed: false, reason: "circuit_open", retryAfterMs: reopensAt - now };
+    }
+    state.breaker = "half_open";
+    state.probeStartedAt = null;
+  }
+
+  // A probe that never reported back (e.g. the job errored before reaching the CRM) expires after one cooldown.
+  if (state.breaker === "half_open" && state.probeStartedAt !== null && now - state.probeStartedAt < policy.cooldownMs) {
+    return { allowed: false, reason: "circuit_open", retryAfterMs: state.probeStartedAt + policy.cooldownMs - now };
+  }
+
+  if (policy.requestsPerSecond > 0) {
+    const slot = Math.max(state.nextSlotAt, now);
+    if (slot > now) {
+      return { allowed: false, reason: "rate_limited", retryAfterMs: slot - now };
+    }
+    state.nextSlotAt = slot + 1000 / policy.requestsPerSecond;
+  }
+
+  if (state.breaker === "half_open") {
+    state.probeStartedAt = now;
+  }
+
+  return { allowed: true };
+}
+
+export function recordConnectionResult(connectionId: string, policy: ConnectionPolicy, success: boolean, now = Date.now()) {
+  const state = getState(connectionId, policy);
+  state.probeStartedAt = null;
+
+  if (success) {
+    state.breaker = "closed";
+    state.consecutiveFailures = 0;
+    state.openedAt = null;
+    return;
+  }
+
+  state.consecutiveFailures += 1;
+  if (state.breaker === "half_open" || state.consecutiveFailures >= policy.failureThreshold) {
+    state.breaker = "open";
+    state.openedAt = now;
+  }
+}
+
+export function getConnectionStates(now = Date.now()) {
+  return Array.from(states.entries()).map(([connectionId, state]) => {
+    const reopensAt = state.breaker === "open" && state.openedAt !== null ? state.openedAt + state.policy.cooldownMs : null;
+    return {
+      connectionId,
+      state: reopensAt !== null && now >= reopensAt ? ("half_open" as BreakerState) : state.breaker,
+      consecutiveFailures: state.consecutiveFailures,
+      openedAt: state.openedAt ? new Date(state.openedAt).toISOString() : null,
+      retryAt: reopensAt !== null && now < reopensAt ? new Date(reopensAt).toISOString() : null,
+      requestsPerSecond: state.policy.requestsPerSecond || null
+    };
+  });
+}
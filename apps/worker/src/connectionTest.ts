@@ -0,0 +1,228 @@
+import type { Job } from "bullmq";
+import { v4 as uuidv4 } from "uuid";
+import {
+  buildSampleAnswers,
+  resolveEntitiesByIds,
+  resolveLeadQuestions,
+  type Config,
+  type CrmConnection
+} from "@lead_lander/config-schema";
+import { getConfigForClient } from "./config";
+import { logger } from "./logger";
+import { runAdapter } from "./adapters";
+import { captureRequests, type CapturedRequest } from "./adapters/http";
+import { findUnmappedFields } from "./adapters/fieldMapping";
+import type { DeliveryPayload } from "./adapters/types";
+
+export type ConnectionTestJobData = {
+  clientId: string;
+  schoolId: string;
+  crmConnectionId: string;
+  programId: string;
+  campusId?: string | null;
+  action: "create" | "update";
+  crmLeadId?: string | null;
+  // Live tests send the sample lead to the CRM; dry runs only build the requests.
+  dryRun: boolean;
+  requestId?: string;
+};
+
+export type ConnectionTestResult = {
+  crmConnectionId: string;
+  adapter: string;
+  dryRun: boolean;
+  success: boolean;
+  statusCode: number | null;
+  crmLeadId: string | null;
+  error: string | null;
+  mappingErrors: string[];
+  payload: DeliveryPayload;
+  requests: CapturedRequest[];
+};
+
+const MASK = "••••••";
+const SENSITIVE_HEADER = /authorization|cookie|token|secret|signature|api[-_]?key/i;
+const SENSITIVE_FORM_FIELD = /secret|assertion|password|token/i;
+const SECRET_KEY = /secret|password|token|authHeaderValue/i;
+// OAuth token responses (e.g. Salesforce's /services/oauth2/token) hand these back in the JSON body.
+const ISSUED_TOKEN_KEYS = new Set(["access_token", "refresh_token", "id_token"]);
+
+/** A sample lead for the program (and campus) with the answers its landing form would collect. */
+export function buildTestPayload(config: Config, data: ConnectionTestJobData): DeliveryPayload | null {
+  const entities = resolveEntitiesByIds(config, data.schoolId, data.campusId ?? null, data.programId);
+  if (!entities) return null;
+
+  const landingPage = config.landingPages.find(
+    (item) => item.schoolId === data.schoolId && item.programId === data.programId
+  );
+
+  return {
+    submissionId: uuidv4(),
+    idempotencyKey: `connection-test-${uuidv4()}`,
+    action: data.action,
+    crmLeadId: data.crmLeadId ?? null,
+    stepIndex: data.action === "create" ? 1 : null,
+    schoolId: data.schoolId,
+    campusId: entities.campus?.id ?? null,
+    programId: data.programId,
+    contact: {
+      firstName: "Jordan",
+      lastName: "Sample",
+      email: "jordan.sample@example.com",
+      phone: "555-0100"
+    },
+    answers: buildSampleAnswers(resolveLeadQuestions(config, entities.program, landingPage)),
+    metadata: { source: "connection_test" },
+    consent: {
+      consented: true,
+      textVersion: entities.school.compliance.version,
+      timestamp: new Date().toISOString()
+    },
+    routingTags: entities.campus?.routingTags || []
+  };
+}
+
+// Secrets referenced by the connection config, either inline or through `*Env` variables.
+function collectSecrets(value: unknown, secrets: Set<string>) {
+  if (!value || typeof value !== "object") return secrets;
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry === "string") {
+      const secret = key.endsWith("Env") ? process.env[entry] : SECRET_KEY.test(key) ? entry : undefined;
+      // Very short values would mask unrelated text.
+      if (secret && secret.length >= 4) secrets.add(secret);
+    } else {
+      collectSecrets(entry, secrets);
+    }
+  }
+  return secrets;
+}
+
+function maskText(value: string, secrets: Set<string>) {
+  let masked = value;
+  for (const secret of secrets) {
+    masked = masked.split(secret).join(MASK).split(encodeURIComponent(secret)).join(MASK);
+  }
+  return masked;
+}
+
+function maskBody(body: string, headers: Record<string, string>, secrets: Set<string>) {
+  const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === "content-type")?.[1];
+  if (contentType?.includes("application/x-www-form-urlencoded")) {
+    body = body
+      .split("&")
+      .map((pair) => {
+        const key = pair.split("=")[0];
+        return SENSITIVE_FORM_FIELD.test(decodeURIComponent(key)) ? `${key}=${MASK}` : pair;
+      })
+      .join("&");
+  }
+  return maskText(body, secrets);
+}
+
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
+// Tokens the CRM issued during the test; they are secrets too wherever else they show up (e.g. a bearer header).
+function collectIssuedTokens(value: unknown, secrets: Set<string>) {
+  if (!value || typeof value !== "object") return secrets;
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry === "string" && ISSUED_TOKEN_KEYS.has(key)) {
+      if (entry.length >= 4) secrets.add(entry);
+    } else {
+      collectIssuedTokens(entry, secrets);
+    }
+  }
+  return secrets;
+}
+
+function maskIssuedTokens(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(maskIssuedTokens);
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [key, ISSUED_TOKEN_KEYS.has(key) ? MASK : maskIssuedTokens(entry)])
+  );
+}
+
+function maskResponseBody(body: string, secrets: Set<string>) {
+  const json = parseJson(body);
+  return maskText(json && typeof json === "object" ? JSON.stringify(maskIssuedTokens(json)) : body, secrets);
+}
+
+/**
+ * Masks credentials in captured requests: auth and signature headers, secret form fields, tokens issued in
+ * responses and any configured secret.
+ */
+export function maskCapturedRequests(connection: CrmConnection, requests: CapturedRequest[]): CapturedRequest[] {
+  const secrets = collectSecrets(connection.config, new Set());
+  for (const request of requests) {
+    if (request.response) collectIssuedTokens(parseJson(request.response.body), secrets);
+  }
+  const authHeaderName = String(connection.config?.authHeaderName || "").toLowerCase();
+
+  return requests.map((request) => ({
+    ...request,
+    url: maskText(request.url, secrets),
+    headers: Object.fromEntries(
+      Object.entries(request.headers).map(([name, value]) => [
+        name,
+        SENSITIVE_HEADER.test(name) || name.toLowerCase() === authHeaderName ? MASK : maskText(value, secrets)
+      ])
+    ),
+    body: request.body === null ? null : maskBody(request.body, request.headers, secrets),
+    response: request.response && { ...request.response, body: maskResponseBody(request.response.body, secrets) },
+    error: request.error && maskText(request.error, secrets)
+  }));
+}
+
+function findMappingErrors(connection: CrmConnection, payload: DeliveryPayload) {
+  if (connection.type === "webhook") return [];
+  return findUnmappedFields(connection.config || {}, payload).map(
+    ({ sourcePath, crmField }) => `${sourcePath} → ${crmField}: no value in the sample lead`
+  );
+}
+
+/**
+ * Runs the connection's adapter against a sample lead without creating a submission. Nothing is written to
+ * the database and the connection guard is bypassed, so a test never counts towards the breaker.
+ */
+export async function processConnectionTest(job: Job<ConnectionTestJobData>): Promise<ConnectionTestResult> {
+  const data = job.data;
+  const config = await getConfigForClient(data.clientId);
+  const connection = config.crmConnections.find((item) => item.id === data.crmConnectionId);
+  if (!connection) {
+    throw new Error("Missing CRM connection");
+  }
+
+  const payload = buildTestPayload(config, data);
+  if (!payload) {
+    throw new Error("Missing config entities");
+  }
+
+  const entities = resolveEntitiesByIds(config, data.schoolId, data.campusId ?? null, data.programId) ?? undefined;
+  const { result, requests } = await captureRequests(data.dryRun, () => runAdapter(connection, payload, entities));
+  const mappingErrors = findMappingErrors(connection, payload);
+  const secrets = collectSecrets(connection.config, new Set());
+
+  logger.info(
+    { jobId: job.id, clientId: data.clientId, crmConnectionId: connection.id, dryRun: data.dryRun, success: result.success },
+    "Connection test finished"
+  );
+
+  return {
+    crmConnectionId: connection.id,
+    adapter: connection.type,
+    dryRun: data.dryRun,
+    success: result.success,
+    statusCode: data.dryRun ? null : result.statusCode ?? null,
+    crmLeadId: result.crmLeadId ?? null,
+    error: result.error ? maskText(result.error, secrets) : null,
+    mappingErrors,
+    payload,
+    requests: maskCapturedRequests(connection, requests)
+  };
+}
@@ -0,0 +1,23 @@
+export type DestinationStatus = "pending" | "delivering" | "delivered" | "failed";
+
+export function resolveDestinationIds(primaryConnectionId: string, additionalConnectionIds: string[] = []) {
+  return Array.from(new Set([primaryConnectionId, ...additionalConnectionIds]));
+}
+
+// Submission status is derived from its destinations: it only settles once every destination has.
+export function rollupDestinationStatus(statuses: string[]) {
+  if (statuses.length === 0) {
+    return "received";
+  }
+
+  if (statuses.some((status) => status === "pending" || status === "delivering")) {
+    return "delivering";
+  }
+
+  const delivered = statuses.filter((status) => status === "delivered").length;
+  if (delivered === statuses.length) {
+    return "delivered";
+  }
+
+  return delivered > 0 ? "partially_delivered" : "failed";
+}
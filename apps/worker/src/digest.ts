@@ -0,0 +1,318 @@
+import type { Job, Queue } from "bullmq";
+import { v4 as uuidv4 } from "uuid";
+import {
+  escapeHtml,
+  formatUtcTimestamp,
+  resolveLeadNotificationTarget,
+  type Config,
+  type LeadNotificationTarget,
+  type RenderedEmail,
+  type School
+} from "@lead_lander/config-schema";
+import { env } from "./env";
+import { pool } from "./db";
+import { getConfigForClient } from "./config";
+import { sendNotificationEmail } from "./email";
+import { logger } from "./logger";
+
+export type DigestMode = "daily" | "weekly";
+
+export type DigestJobData = {
+  mode: DigestMode;
+};
+
+const DIGEST_WINDOW_MS: Record<DigestMode, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+export type DigestSubmission = {
+  id: string;
+  school_id: string;
+  campus_id: string | null;
+  program_id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  status: string;
+  created_at: Date;
+  // Failed destinations as "connection: last error", when any
+  failure: string | null;
+};
+
+export type DigestTarget = {
+  target: LeadNotificationTarget;
+  school: School;
+  submissions: DigestSubmission[];
+};
+
+type FunnelCounts = {
+  leads: number;
+  delivered: number;
+  inProgress: number;
+  failed: number;
+};
+
+function isFailed(status: string) {
+  return status === "failed" || status === "partially_delivered";
+}
+
+function countFunnel(submissions: DigestSubmission[]): FunnelCounts {
+  const delivered = submissions.filter((item) => item.status === "delivered").length;
+  const failed = submissions.filter((item) => isFailed(item.status)).length;
+  return { leads: submissions.length, delivered, failed, inProgress: submissions.length - delivered - failed };
+}
+
+function describeFunnel(counts: FunnelCounts) {
+  return `${counts.leads} lead${counts.leads === 1 ? "" : "s"}, ${counts.delivered} delivered, ${counts.inProgress} in progress, ${counts.failed} failed`;
+}
+
+/** Splits undigested submissions by the notification target they belong to, keeping targets digested in this mode. */
+export function groupDigestTargets(config: Config, submissions: DigestSubmission[], mode: DigestMode): DigestTarget[] {
+  const targets = new Map<string, DigestTarget>();
+
+  for (const submission of submissions) {
+    const target = resolveLeadNotificationTarget(config, {
+      schoolId: submission.school_id,
+      programId: submission.program_id,
+      campusId: submission.campus_id
+    });
+    if (!target || !target.settings.enabled || target.settings.mode !== mode || target.settings.recipients.length === 0) {
+      continue;
+    }
+
+    const school = config.schools.find((item) => item.id === submission.school_id);
+    if (!school) continue;
+
+    const existing = targets.get(target.key);
+    if (existing) {
+      existing.submissions.push(submission);
+    } else {
+      targets.set(target.key, { target, school, submissions: [submission] });
+    }
+  }
+
+  return Array.from(targets.values());
+}
+
+type DigestEmailInput = {
+  config: Config;
+  digest: DigestTarget;
+  mode: DigestMode;
+  windowStart: Date;
+  windowEnd: Date;
+};
+
+export function buildDigestEmail({ config, digest, mode, windowStart, windowEnd }: DigestEmailInput): RenderedEmail {
+  const { school, target, submissions } = digest;
+  const colors = school.branding.colors;
+  const title = `${mode === "daily" ? "Daily" : "Weekly"} lead digest for ${target.name}`;
+  const period = `${formatUtcTimestamp(windowStart)} – ${formatUtcTimestamp(windowEnd)}`;
+  const totals = countFunnel(submissions);
+
+  const groups = new Map<string, { heading: string; submissions: DigestSubmission[] }>();
+  for (const submission of submissions) {
+    const program = config.programs.find((item) => item.id === submission.program_id);
+    const campus = submission.campus_id ? config.campuses.find((item) => item.id === submission.campus_id) : null;
+    const heading = `${program?.name || submission.program_id} · ${campus?.name || "Unspecified campus"}`;
+    const group = groups.get(heading) || { heading, submissions: [] };
+    group.submissions.push(submission);
+    groups.set(heading, group);
+  }
+  const sortedGroups = Array.from(groups.values()).sort((a, b) => a.heading.localeCompare(b.heading));
+  const failures = submissions.filter((item) => isFailed(item.status));
+
+  const text = [title, school.name, period, "", `Totals: ${describeFunnel(totals)}`];
+  for (const group of sortedGroups) {
+    text.push("", `${group.heading} (${describeFunnel(countFunnel(group.submissions))})`);
+    for (const item of group.submissions) {
+      text.push(`- ${item.first_name} ${item.last_name} <${item.email}> · ${item.status.replace(/_/g, " ")}`);
+    }
+  }
+  if (failures.length > 0) {
+    text.push("", "Delivery failures:");
+    for (const item of failures) {
+      text.push(`- ${item.first_name} ${item.last_name} (${item.id}): ${item.failure || item.status}`);
+    }
+  }
+
+  const cell = "padding:6px;border-bottom:1px solid #e5e5e5;vertical-align:top;";
+  const groupHtml = sortedGroups
+    .map(
+      (group) => `<h2 style="margin:20px 0 4px;font-size:16px;color:${escapeHtml(colors.secondary)};">${escapeHtml(group.heading)}</h2>
+          <p style="margin:0 0 8px;font-size:13px;color:#6b6b6b;">${escapeHtml(describeFunnel(countFunnel(group.submissions)))}</p>
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;font-size:14px;">${group.submissions
+            .map(
+              (item) =>
+                `<tr><td style="${cell}">${escapeHtml(`${item.first_name} ${item.last_name}`)}</td><td style="${cell}">${escapeHtml(
+                  item.email
+                )}</td><td style="${cell}">${escapeHtml(item.status.replace(/_/g, " "))}</td></tr>`
+            )
+            .join("")}</table>`
+    )
+    .join("\n          ");
+  const failureHtml = failures.length
+    ? `<h2 style="margin:24px 0 8px;font-size:16px;color:#b42318;">Delivery failures</h2>
+          <ul style="margin:0;padding-left:20px;font-size:14px;">${failures
+            .map(
+              (item) =>
+                `<li>${escapeHtml(`${item.first_name} ${item.last_name}`)}: ${escapeHtml(item.failure || item.status)}</li>`
+            )
+            .join("")}</ul>`
+    : "";
+
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:${escapeHtml(colors.background || "#f4f4f4")};font-family:Arial,Helvetica,sans-serif;color:${escapeHtml(colors.text || "#1b1b1b")};">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:640px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+      <tr>
+        <td style="background:${escapeHtml(colors.primary)};padding:20px 24px;color:#ffffff;">
+          <div style="font-size:20px;font-weight:bold;">${escapeHtml(title)}</div>
+          <div style="font-size:14px;opacity:0.9;">${escapeHtml(school.name)} &middot; ${escapeHtml(period)}</div>
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:24px;">
+          <p style="margin:0;font-size:15px;"><strong>${escapeHtml(describeFunnel(totals))}</strong></p>
+          ${groupHtml}
+          ${failureHtml}
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+  return {
+    subject: `${title}: ${totals.leads} new lead${totals.leads === 1 ? "" : "s"}`,
+    text: text.join("\n"),
+    html
+  };
+}
+
+// Claims the submissions and sends the email in one transaction: a lead is recorded as digested only once the
+// email went out, and a concurrent run cannot claim it a second time.
+async function sendTargetDigest(clientId: string, config: Config, input: Omit<DigestEmailInput, "config">) {
+  const { digest, mode, windowStart, windowEnd } = input;
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const digestId = uuidv4();
+    await client.query(
+      `INSERT INTO notification_digests (id, client_id, target, mode, window_start, window_end, recipients, submission_count, sent_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        digestId,
+        clientId,
+        digest.target.key,
+        mode,
+        windowStart,
+        windowEnd,
+        JSON.stringify(digest.target.settings.recipients),
+        digest.submissions.length,
+        new Date()
+      ]
+    );
+
+    const claimed = await client.query<{ submission_id: string }>(
+      `INSERT INTO notification_digest_submissions (submission_id, digest_id, client_id)
+       SELECT UNNEST($1::uuid[]), $2, $3
+       ON CONFLICT (submission_id) DO NOTHING
+       RETURNING submission_id`,
+      [digest.submissions.map((item) => item.id), digestId, clientId]
+    );
+    const claimedIds = new Set(claimed.rows.map((row) => row.submission_id));
+    const submissions = digest.submissions.filter((item) => claimedIds.has(item.id));
+    if (submissions.length === 0) {
+      await client.query("ROLLBACK");
+      return 0;
+    }
+    if (submissions.length !== digest.submissions.length) {
+      await client.query("UPDATE notification_digests SET submission_count = $1 WHERE id = $2", [
+        submissions.length,
+        digestId
+      ]);
+    }
+
+    const email = buildDigestEmail({ ...input, config, digest: { ...digest, submissions } });
+    const result = await sendNotificationEmail(digest.target.settings.recipients, email);
+    if (result.skipped) {
+      await client.query("ROLLBACK");
+      logger.info({ target: digest.target.key, reason: result.reason }, "Lead digest skipped");
+      return 0;
+    }
+
+    await client.query("COMMIT");
+    logger.info({ target: digest.target.key, mode, submissions: submissions.length }, "Lead digest sent");
+    return submissions.length;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function processDigest(job: Job<DigestJobData>) {
+  const { mode } = job.data;
+  const windowEnd = new Date();
+  const windowStart = new Date(windowEnd.getTime() - DIGEST_WINDOW_MS[mode]);
+
+  const clients = await pool.query<{ id: string }>("SELECT id FROM clients");
+  let digested = 0;
+  let failedTargets = 0;
+
+  for (const { id: clientId } of clients.rows) {
+    // One client's broken config or failed query must not hold up every client after it.
+    let config: Config;
+    let leads: DigestSubmission[];
+    try {
+      config = await getConfigForClient(clientId);
+      const result = await pool.query<DigestSubmission>(
+        `SELECT s.id, s.school_id, s.campus_id, s.program_id, s.first_name, s.last_name, s.email, s.status, s.created_at,
+                (SELECT string_agg(d.crm_connection_id || ': ' || COALESCE(d.last_error, 'failed'), '; ')
+                 FROM submission_destinations d
+                 WHERE d.submission_id = s.id AND d.status = 'failed') AS failure
+         FROM submissions s
+         WHERE s.client_id = $1 AND s.created_at >= $2 AND s.created_at < $3
+           AND s.status <> 'quarantined'
+           AND NOT EXISTS (SELECT 1 FROM notification_digest_submissions n WHERE n.submission_id = s.id)
+         ORDER BY s.created_at`,
+        [clientId, windowStart, windowEnd]
+      );
+      leads = result.rows;
+    } catch (error) {
+      failedTargets += 1;
+      logger.error({ err: error, clientId }, "Lead digest failed to load client");
+      continue;
+    }
+
+    for (const digest of groupDigestTargets(config, leads, mode)) {
+      try {
+        digested += await sendTargetDigest(clientId, config, { digest, mode, windowStart, windowEnd });
+      } catch (error) {
+        failedTargets += 1;
+        logger.error({ err: error, clientId, target: digest.target.key }, "Lead digest failed");
+      }
+    }
+  }
+
+  // Targets that were sent are already recorded, so a retry only picks up the ones that failed.
+  if (failedTargets > 0) {
+    throw new Error(`${failedTargets} lead digest(s) failed`);
+  }
+  return { digested };
+}
+
+export async function scheduleDigests(queue: Queue<DigestJobData>) {
+  await queue.upsertJobScheduler(
+    "lead-digest-daily",
+    { pattern: env.digestDailyCron, tz: env.digestTimezone },
+    { name: "send_digest", data: { mode: "daily" } }
+  );
+  await queue.upsertJobScheduler(
+    "lead-digest-weekly",
+    { pattern: env.digestWeeklyCron, tz: env.digestTimezone },
+    { name: "send_digest", data: { mode: "weekly" } }
+  );
+}
@@ -1,20 +1,27 @@
 import nodemailer from "nodemailer";
 import { env } from "./env";
 
-export async function sendNotificationEmail(
-  recipients: string[],
-  subject: string,
-  body: string
-) {
-  if (!env.emailEnabled || recipients.length === 0) {
-    return { skipped: true };
-  }
+type NotificationEmail = {
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+type ProspectEmail = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  fromName?: string;
+  replyTo?: string;
+};
 
+function createTransport() {
   if (!env.smtpHost || !env.smtpUser || !env.smtpPass) {
-    return { skipped: true, reason: "SMTP not configured" };
+    return null;
   }
 
-  const transporter = nodemailer.createTransport({
+  return nodemailer.createTransport({
     host: env.smtpHost,
     port: env.smtpPort,
     auth: {
@@ -22,12 +29,47 @@ export async function sendNotificationEmail(
       pass: env.smtpPass
     }
   });
+}
+
+export async function sendNotificationEmail(recipients: string[], message: NotificationEmail) {
+  if (!env.emailEnabled || recipients.length === 0) {
+    return { skipped: true, reason: "Email disabled or no recipients" };
+  }
+
+  const transporter = createTransport();
+  if (!transporter) {
+    return { skipped: true, reason: "SMTP not configured" };
+  }
 
   const info = await transporter.sendMail({
     from: env.smtpFrom,
     to: recipients.join(","),
-    subject,
-    text: body
+    subject: message.subject,
+    text: message.text,
+    html: message.html
+  });
+
+  return { skipped: false, messageId: info.messageId };
+}
+
+export async function sendProspectEmail(message: ProspectEmail) {
+  if (!env.emailEnabled) {
+    return { skipped: true, reason: "Email disabled" };
+  }
+
+  const transporter = createTransport();
+  if (!transporter) {
+    return { skipped: true, reason: "SMTP not configured" };
+  }
+
+  const info = await transporter.sendMail({
+    // The display name is per school; the address stays the verified SMTP sender.
+    from: message.fromName ? { name: message.fromName, address: env.smtpFrom } : env.smtpFrom,
+    to: message.to,
+    replyTo: message.replyTo,
+    subject: message.subject,
+    text: message.text,
+    html: message.html
   });
 
   return { skipped: false, messageId: info.messageId };
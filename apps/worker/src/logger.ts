@@ -0,0 +1,57 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Job } from "bullmq";
+import pino from "pino";
+import { trace } from "@opentelemetry/api";
+import { env } from "./env";
+
+type LogContext = {
+  requestId?: string;
+  jobId?: string;
+  jobType?: string;
+  clientId?: string;
+  schoolId?: string;
+  submissionId?: string;
+  crmConnectionId?: string;
+};
+
+type LoggedJobData = {
+  submissionId: string;
+  clientId: string;
+  schoolId: string;
+  crmConnectionId?: string;
+  requestId?: string;
+};
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+export const logger = pino({
+  level: env.logLevel,
+  base: { service: "lead-lander-worker" },
+  timestamp: pino.stdTimeFunctions.isoTime,
+  redact: env.logRedactPii
+    ? {
+        paths: ["email", "phone", "firstName", "lastName", "*.email", "*.phone", "*.firstName", "*.lastName"],
+        censor: "[redacted]"
+      }
+    : undefined,
+  mixin() {
+    const traceId = trace.getActiveSpan()?.spanContext().traceId;
+    return { ...logContext.getStore(), ...(traceId ? { traceId } : {}) };
+  }
+});
+
+/** Runs a job with its ids (and the API request that queued it) attached to every log line. */
+export function withJobLogContext<T>(job: Job<LoggedJobData>, fn: () => Promise<T>) {
+  return logContext.run(
+    {
+      requestId: job.data.requestId,
+      jobId: job.id,
+      jobType: job.name,
+      clientId: job.data.clientId,
+      schoolId: job.data.schoolId,
+      submissionId: job.data.submissionId,
+      crmConnectionId: job.data.crmConnectionId
+    },
+    fn
+  );
+}
@@ -0,0 +1,42 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry, prefix: "lead_lander_worker_" });
+
+export const deliveryAttemptsTotal = new Counter({
+  name: "lead_lander_delivery_attempts_total",
+  help: "CRM adapter calls, by adapter type and outcome (delivered|failed)",
+  labelNames: ["adapter", "outcome"] as const,
+  registers: [registry]
+});
+
+export const adapterDuration = new Histogram({
+  name: "lead_lander_adapter_duration_seconds",
+  help: "CRM adapter call latency, by adapter type and outcome",
+  labelNames: ["adapter", "outcome"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry]
+});
+
+export const configCacheLookupsTotal = new Counter({
+  name: "lead_lander_config_cache_lookups_total",
+  help: "Client config lookups served from the configStore cache (hit) or the database (miss)",
+  labelNames: ["result"] as const,
+  registers: [registry]
+});
+
+// Gauges below are refreshed on each scrape.
+export const queueJobs = new Gauge({
+  name: "lead_lander_queue_jobs",
+  help: "Delivery jobs per queue and BullMQ state",
+  labelNames: ["queue", "state"] as const,
+  registers: [registry]
+});
+
+export const crmBreakerOpen = new Gauge({
+  name: "lead_lander_crm_breaker_open",
+  help: "1 while a CRM connection's circuit breaker is open or half-open in this worker",
+  labelNames: ["connection_id"] as const,
+  registers: [registry]
+});
@@ -0,0 +1,57 @@
+import {
+  buildNotificationEmail,
+  resolveLeadNotificationTarget,
+  resolveLeadQuestions,
+  type Campus,
+  type Config,
+  type NotificationSubmission,
+  type Program,
+  type School
+} from "@lead_lander/config-schema";
+import { env } from "./env";
+import { sendNotificationEmail } from "./email";
+import { logger } from "./logger";
+
+export type InstantNotificationLead = NotificationSubmission & {
+  school_id: string;
+  campus_id: string | null;
+  program_id: string;
+};
+
+/**
+ * Emails staff about a lead the CRM just accepted, when its notification target is in instant mode
+ * (digest targets get it in their next digest). The lead is already delivered, so a failed email is
+ * logged rather than thrown: throwing would send the delivery back through retries.
+ * Resolves to whether an email was sent.
+ */
+export async function sendInstantNotification(
+  config: Config,
+  entities: { school: School; campus: Campus | null; program: Program },
+  submission: InstantNotificationLead
+) {
+  const target = resolveLeadNotificationTarget(config, {
+    schoolId: submission.school_id,
+    programId: submission.program_id,
+    campusId: submission.campus_id
+  });
+  if (!target?.settings.enabled || target.settings.mode !== "instant") {
+    return false;
+  }
+
+  try {
+    const landingPage = config.landingPages.find(
+      (item) => item.schoolId === submission.school_id && item.programId === submission.program_id
+    );
+    const email = buildNotificationEmail({
+      ...entities,
+      questions: resolveLeadQuestions(config, entities.program, landingPage),
+      submission,
+      assetBaseUrl: env.emailAssetBaseUrl
+    });
+    await sendNotificationEmail(target.settings.recipients, email);
+    return true;
+  } catch (error) {
+    logger.error({ err: error, submissionId: submission.id, target: target.key }, "Staff notification failed");
+    return false;
+  }
+}
@@ -1,7 +1,45 @@
 import { Queue } from "bullmq";
 import { env } from "./env";
+import type { DigestJobData } from "./digest";
+import type { ConnectionTestJobData } from "./connectionTest";
 
-export const deliveryQueue = new Queue(env.queueName, {
+const queues = new Map<string, Queue>();
+
+// Each client gets its own delivery queue so one tenant's burst cannot hold up another's leads.
+export function tenantQueueName(clientId: string) {
+  return `${env.queueName}-${clientId.replace(/:/g, "-")}`;
+}
+
+export function getDeliveryQueue(clientId: string) {
+  const name = tenantQueueName(clientId);
+  let queue = queues.get(name);
+  if (!queue) {
+    queue = new Queue(name, {
+      connection: {
+        url: env.redisUrl
+      }
+    });
+    queues.set(name, queue);
+  }
+  return queue;
+}
+
+// The original shared queue; still consumed so jobs enqueued before the per-tenant split drain.
+export const legacyDeliveryQueue = new Queue(env.queueName, {
+  connection: {
+    url: env.redisUrl
+  }
+});
+
+// Repeatable digest jobs run on their own queue so they never wait behind lead deliveries.
+export const digestQueue = new Queue<DigestJobData>(`${env.queueName}-digests`, {
+  connection: {
+    url: env.redisUrl
+  }
+});
+
+// Admin connection tests; the API waits on the job's result, so they must not queue behind deliveries either.
+export const connectionTestQueue = new Queue<ConnectionTestJobData>(`${env.queueName}-connection-tests`, {
   connection: {
     url: env.redisUrl
   }
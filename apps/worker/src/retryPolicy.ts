@@ -0,0 +1,22 @@
+import type { MinimalJob } from "bullmq";
+
+/** Thrown for a failed attempt that should be retried, carrying the CRM's Retry-After when it sent one. */
+export class RetryableDeliveryError extends Error {
+  constructor(message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "RetryableDeliveryError";
+  }
+}
+
+/**
+ * Backoff for jobs enqueued with `backoff: { type: "crm_backoff", delay }`: the CRM's Retry-After when it asked for
+ * one, otherwise exponential from `delay` like BullMQ's built-in strategy.
+ */
+export function deliveryBackoff(attemptsMade: number, _type?: string, error?: Error, job?: MinimalJob) {
+  if (error instanceof RetryableDeliveryError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  const backoff = job?.opts.backoff;
+  const delay = typeof backoff === "number" ? backoff : backoff?.delay ?? 0;
+  return Math.round(2 ** Math.max(attemptsMade - 1, 0) * delay);
+}
@@ -0,0 +1,49 @@
+import type { CrmRoutingCondition, School } from "@lead_lander/config-schema";
+
+export type RoutingContext = {
+  campusId: string | null;
+  programId: string;
+  routingTags: string[];
+  answers: Record<string, unknown>;
+};
+
+export type CrmRoute = {
+  crmConnectionId: string;
+  ruleId: string | null;
+};
+
+function answerValues(value: unknown) {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).map((item) => String(item));
+}
+
+function matchesCondition(condition: CrmRoutingCondition, context: RoutingContext) {
+  if (condition.campusIds && (!context.campusId || !condition.campusIds.includes(context.campusId))) {
+    return false;
+  }
+
+  if (condition.programIds && !condition.programIds.includes(context.programId)) {
+    return false;
+  }
+
+  if (condition.routingTags && !condition.routingTags.some((tag) => context.routingTags.includes(tag))) {
+    return false;
+  }
+
+  return (condition.answers || []).every((answer) => {
+    const expected = Array.isArray(answer.equals) ? answer.equals : [answer.equals];
+    return answerValues(context.answers[answer.questionId]).some((value) => expected.includes(value));
+  });
+}
+
+export function resolveCrmRoute(
+  school: Pick<School, "crmConnectionId" | "routingRules">,
+  context: RoutingContext
+): CrmRoute {
+  const rule = (school.routingRules || []).find((item) => matchesCondition(item.when, context));
+  if (rule) {
+    return { crmConnectionId: rule.crmConnectionId, ruleId: rule.id };
+  }
+
+  return { crmConnectionId: school.crmConnectionId, ruleId: null };
+}
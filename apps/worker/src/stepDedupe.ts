@@ -0,0 +1,41 @@
+import type { Pool } from "pg";
+
+const DELIVERY_JOB_TYPES = ["create_lead", "update_lead", "merge_lead"] as const;
+
+// merge_lead sends a duplicate submission's answers to the lead it was merged into.
+export type DeliveryJobType = (typeof DELIVERY_JOB_TYPES)[number];
+
+export function isDeliveryJobType(name: string): name is DeliveryJobType {
+  return (DELIVERY_JOB_TYPES as readonly string[]).includes(name);
+}
+
+export type DeliveryStep = {
+  clientId: string;
+  submissionId: string;
+  jobType: DeliveryJobType;
+  stepIndex: number;
+  crmConnectionId: string;
+};
+
+/**
+ * Whether this step already reached the connection, so a re-enqueued create or step update is not sent twice.
+ * Merges are never skipped: each one carries answers from a new duplicate submission, even when the lead's
+ * last step was delivered long ago (its BullMQ job id already keeps one merge from being queued twice).
+ */
+export async function isStepDelivered(db: Pick<Pool, "query">, step: DeliveryStep) {
+  if (step.jobType === "merge_lead") {
+    return false;
+  }
+
+  const result = await db.query(
+    `
+      SELECT 1
+      FROM delivery_attempts
+      WHERE client_id = $1 AND submission_id = $2 AND job_type = $3 AND step_index = $4
+        AND crm_connection_id = $5 AND status = 'delivered'
+      LIMIT 1
+    `,
+    [step.clientId, step.submissionId, step.jobType, step.stepIndex, step.crmConnectionId]
+  );
+  return result.rows.length > 0;
+}
@@ -0,0 +1,144 @@
+import fs from "fs";
+import { DelayedError, type Job } from "bullmq";
+import {
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  context,
+  propagation,
+  trace,
+  type Span,
+  type SpanOptions
+} from "@opentelemetry/api";
+import { ExportResultCode, hrTimeToMilliseconds, type ExportResult } from "@opentelemetry/core";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter,
+  type SpanProcessor
+} from "@opentelemetry/sdk-trace-node";
+import { env } from "./env";
+
+const SERVICE_NAME = "lead-lander-worker";
+
+function getTracer() {
+  return trace.getTracer(SERVICE_NAME);
+}
+
+// W3C trace context (traceparent/tracestate) carried inside queued job data.
+export type TraceCarrier = Record<string, string>;
+
+type TracedJobData = {
+  submissionId: string;
+  clientId: string;
+  traceContext?: TraceCarrier;
+};
+
+/** Appends finished spans to a file as JSON lines, for tests and local runs without a collector. */
+export class FileSpanExporter implements SpanExporter {
+  constructor(private readonly filePath: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void) {
+    try {
+      const lines = spans.map((span) =>
+        JSON.stringify({
+          traceId: span.spanContext().traceId,
+          spanId: span.spanContext().spanId,
+          parentSpanId: span.parentSpanContext?.spanId || null,
+          name: span.name,
+          service: span.resource.attributes["service.name"],
+          startTime: hrTimeToMilliseconds(span.startTime),
+          durationMs: hrTimeToMilliseconds(span.duration),
+          status: span.status,
+          attributes: span.attributes
+        })
+      );
+      fs.appendFileSync(this.filePath, lines.map((line) => `${line}\n`).join(""));
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch (error) {
+      resultCallback({ code: ExportResultCode.FAILED, error: error as Error });
+    }
+  }
+
+  async shutdown() {}
+}
+
+let provider: NodeTracerProvider | null = null;
+
+/** Same exporter setup as the API: OTLP/HTTP and/or span file, or no-op spans when neither is configured. */
+export function startTracing() {
+  if (provider) {
+    return provider;
+  }
+
+  const spanProcessors: SpanProcessor[] = [];
+  if (env.otlpEndpoint) {
+    const url = `${env.otlpEndpoint.replace(/\/$/, "")}/v1/traces`;
+    spanProcessors.push(new BatchSpanProcessor(new OTLPTraceExporter({ url })));
+  }
+  if (env.tracingFile) {
+    spanProcessors.push(new SimpleSpanProcessor(new FileSpanExporter(env.tracingFile)));
+  }
+  if (spanProcessors.length === 0) {
+    return null;
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ "service.name": SERVICE_NAME }),
+    spanProcessors
+  });
+  provider.register();
+  return provider;
+}
+
+export function withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+  return getTracer().startActiveSpan(name, options, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      // A job moved back to delayed (rate limit / open breaker) is not a failure.
+      if (error instanceof DelayedError) {
+        span.setAttribute("lead.delayed", true);
+      } else {
+        span.recordException(error as Error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+      }
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/** Runs a job under a consumer span that continues the trace the API (or a fan-out job) put in `traceContext`. */
+export function withJobSpan<T>(job: Job<TracedJobData>, fn: () => Promise<T>) {
+  const parentContext = propagation.extract(ROOT_CONTEXT, job.data.traceContext || {});
+  return context.with(parentContext, () =>
+    withSpan(
+      `${job.queueName} process`,
+      {
+        kind: SpanKind.CONSUMER,
+        attributes: {
+          "messaging.system": "bullmq",
+          "messaging.destination.name": job.queueName,
+          "messaging.message.id": job.id || "",
+          "lead.job_type": job.name,
+          "lead.client_id": job.data.clientId,
+          "lead.submission_id": job.data.submissionId,
+          "lead.attempt": job.attemptsMade + 1
+        }
+      },
+      fn
+    )
+  );
+}
+
+export function injectTraceContext(): TraceCarrier | undefined {
+  const carrier: TraceCarrier = {};
+  propagation.inject(context.active(), carrier);
+  return Object.keys(carrier).length > 0 ? carrier : undefined;
+}
@@ -1,17 +1,43 @@
 import http from "http";
-import { Worker } from "bullmq";
+import { DelayedError, UnrecoverableError, Worker, type Job } from "bullmq";
+import { SpanStatusCode } from "@opentelemetry/api";
 import { v4 as uuidv4 } from "uuid";
 import { env } from "./env";
 import { pool } from "./db";
 import { getConfigForClient } from "./config";
-import { deliveryQueue } from "./queue";
-import { webhookAdapter } from "./adapters/webhookAdapter";
-import { genericAdapter } from "./adapters/genericAdapter";
+import { connectionTestQueue, digestQueue, getDeliveryQueue, legacyDeliveryQueue, tenantQueueName } from "./queue";
+import { processDigest, scheduleDigests, type DigestJobData } from "./digest";
+import { processConnectionTest, type ConnectionTestJobData } from "./connectionTest";
+import { runAdapter } from "./adapters";
 import type { AdapterResult, DeliveryPayload } from "./adapters/types";
-import { sendNotificationEmail } from "./email";
-import { resolveEntitiesByIds } from "@lead_lander/config-schema";
-
-void deliveryQueue;
+import { sendProspectEmail } from "./email";
+import { sendInstantNotification } from "./notifications";
+import { buildMergeFields } from "./autoresponder";
+import { resolveDestinationIds, rollupDestinationStatus, type DestinationStatus } from "./destinations";
+import { resolveCrmRoute } from "./routing";
+import { isDeliveryJobType, isStepDelivered } from "./stepDedupe";
+import { deliveryBackoff, RetryableDeliveryError } from "./retryPolicy";
+import { injectTraceContext, startTracing, withJobSpan, withSpan, type TraceCarrier } from "./tracing";
+import { logger, withJobLogContext } from "./logger";
+import {
+  acquireConnection,
+  getConnectionStates,
+  recordConnectionResult,
+  type ConnectionPolicy
+} from "./connectionGuard";
+import {
+  adapterDuration,
+  crmBreakerOpen,
+  deliveryAttemptsTotal,
+  queueJobs,
+  registry as metricsRegistry
+} from "./metrics";
+import {
+  renderTemplate,
+  resolveAutoresponder,
+  resolveEntitiesByIds,
+  type CrmDeliveryPolicy
+} from "@lead_lander/config-schema";
 
 type SubmissionRow = {
   id: string;
@@ -23,6 +49,7 @@ type SubmissionRow = {
   last_name: string;
   email: string;
   phone: string | null;
+  phone_e164: string | null;
   answers: Record<string, unknown>;
   metadata: Record<string, unknown>;
   status: string;
@@ -33,6 +60,7 @@ type SubmissionRow = {
   crm_lead_id: string | null;
   last_step_completed: number | null;
   created_from_step: number | null;
+  created_at: Date;
 };
 
 type DeliveryJobData = {
@@ -40,6 +68,22 @@ type DeliveryJobData = {
   clientId: string;
   schoolId: string;
   stepIndex?: number;
+  crmConnectionId?: string;
+  requestId?: string;
+  traceContext?: TraceCarrier;
+};
+
+type DestinationRow = {
+  status: DestinationStatus;
+  crm_lead_id: string | null;
+  is_primary: boolean;
+};
+
+type DestinationUpdate = {
+  status: DestinationStatus;
+  crmLeadId?: string | null;
+  lastError?: string | null;
+  deliveredAt?: Date;
 };
 
 function truncate(value: string | undefined, max = 5000) {
@@ -67,275 +111,606 @@ async function updateSubmissionStatus(clientId: string, submissionId: string, st
   );
 }
 
-function buildEmailBody(payload: DeliveryPayload) {
-  const lines = [
-    `Submission ID: ${payload.submissionId}`,
-    `School ID: ${payload.schoolId}`,
-    `Campus ID: ${payload.campusId}`,
-    `Program ID: ${payload.programId}`,
-    "",
-    `Name: ${payload.contact.firstName} ${payload.contact.lastName}`,
-    `Email: ${payload.contact.email}`,
-    `Phone: ${payload.contact.phone ?? ""}`,
-    "",
-    "Answers:"
-  ];
-
-  for (const [key, value] of Object.entries(payload.answers)) {
-    lines.push(`- ${key}: ${JSON.stringify(value)}`);
-  }
+async function updateDestination(
+  clientId: string,
+  submissionId: string,
+  crmConnectionId: string,
+  update: DestinationUpdate
+) {
+  const now = new Date();
+  // Fields left undefined keep their stored value.
+  await pool.query(
+    `INSERT INTO submission_destinations
+      (submission_id, client_id, crm_connection_id, status, crm_lead_id, last_error, delivered_at, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+     ON CONFLICT (submission_id, crm_connection_id) DO UPDATE SET
+       status = EXCLUDED.status,
+       crm_lead_id = CASE WHEN $9 THEN EXCLUDED.crm_lead_id ELSE submission_destinations.crm_lead_id END,
+       last_error = CASE WHEN $10 THEN EXCLUDED.last_error ELSE submission_destinations.last_error END,
+       delivered_at = COALESCE(EXCLUDED.delivered_at, submission_destinations.delivered_at),
+       updated_at = EXCLUDED.updated_at`,
+    [
+      submissionId,
+      clientId,
+      crmConnectionId,
+      update.status,
+      update.crmLeadId ?? null,
+      truncate(update.lastError ?? undefined) ?? null,
+      update.deliveredAt ?? null,
+      now,
+      update.crmLeadId !== undefined,
+      update.lastError !== undefined
+    ]
+  );
+}
+
+async function rollupSubmissionStatus(clientId: string, submissionId: string) {
+  const result = await pool.query<{ status: string }>(
+    "SELECT status FROM submission_destinations WHERE submission_id = $1 AND client_id = $2",
+    [submissionId, clientId]
+  );
+  const status = rollupDestinationStatus(result.rows.map((row) => row.status));
+  const now = new Date();
+
+  await pool.query(
+    `UPDATE submissions
+     SET status = $1,
+         delivered_at = CASE WHEN $1 IN ('delivered', 'partially_delivered') THEN $2 ELSE delivered_at END,
+         updated_at = $2
+     WHERE id = $3 AND client_id = $4`,
+    [status, now, submissionId, clientId]
+  );
+}
 
-  return lines.join("\n");
+function resolveConnectionPolicy(delivery?: CrmDeliveryPolicy): ConnectionPolicy {
+  return {
+    requestsPerSecond: delivery?.requestsPerSecond ?? env.crmRequestsPerSecond,
+    failureThreshold: delivery?.circuitBreaker?.failureThreshold ?? env.crmBreakerFailureThreshold,
+    cooldownMs: delivery?.circuitBreaker?.cooldownSeconds
+      ? delivery.circuitBreaker.cooldownSeconds * 1000
+      : env.crmBreakerCooldownMs
+  };
 }
 
-const worker = new Worker(
-  env.queueName,
-  async (job) => {
-    const submissionId = job.data.submissionId as string;
-    const clientId = job.data.clientId as string;
-    const schoolId = job.data.schoolId as string;
-    const jobType = job.name;
-    const action = jobType === "create_lead" ? "create" : "update";
-    const stepIndex = jobType === "create_lead"
-      ? 1
-      : typeof job.data.stepIndex === "number"
-        ? job.data.stepIndex
-        : 0;
-
-    if (jobType !== "create_lead" && jobType !== "update_lead") {
-      throw new Error(`Unsupported job type: ${jobType}`);
-    }
+// Only outages count towards the breaker; a 4xx means the CRM is up and rejected this payload.
+function isConnectionFailure(result: AdapterResult) {
+  if (result.success) return false;
+  return !result.statusCode || result.statusCode >= 500 || result.statusCode === 429;
+}
 
-    if (!submissionId || !clientId || !schoolId) {
-      throw new Error("Missing job payload context");
+// Runs on its own job so a CRM outage never holds up the prospect's confirmation email.
+const processAutoresponder = async (job: Job<DeliveryJobData>) => {
+  const { submissionId, clientId } = job.data;
+  const attemptNumber = job.attemptsMade + 1;
+
+  const submissionResult = await pool.query<SubmissionRow>(
+    "SELECT * FROM submissions WHERE id = $1 AND client_id = $2",
+    [submissionId, clientId]
+  );
+  const submission = submissionResult.rows[0];
+  if (!submission) {
+    throw new Error("Submission not found");
+  }
+
+  if (submission.status === "quarantined") {
+    logger.info("Submission is quarantined, skipping autoresponder");
+    return { skipped: true };
+  }
+
+  const alreadySent = await pool.query(
+    "SELECT 1 FROM audit_log WHERE client_id = $1 AND submission_id = $2 AND event = 'autoresponder_sent' LIMIT 1",
+    [clientId, submissionId]
+  );
+  if (alreadySent.rows.length > 0) {
+    logger.info("Autoresponder already sent, skipping");
+    return { skipped: true };
+  }
+
+  const config = await getConfigForClient(clientId);
+  const entities = resolveEntitiesByIds(config, submission.school_id, submission.campus_id, submission.program_id);
+  const autoresponder = entities ? resolveAutoresponder(entities.school, entities.program) : null;
+  if (!entities || !autoresponder) {
+    await logAudit(clientId, submissionId, "autoresponder_skipped", { reason: "Not configured" });
+    return { skipped: true };
+  }
+
+  const fields = buildMergeFields(submission, entities);
+  const subject = renderTemplate(autoresponder.subject, fields);
+
+  try {
+    const result = await sendProspectEmail({
+      to: submission.email,
+      subject,
+      text: renderTemplate(autoresponder.textTemplate, fields),
+      html: autoresponder.htmlTemplate ? renderTemplate(autoresponder.htmlTemplate, fields, { html: true }) : undefined,
+      fromName: autoresponder.fromName,
+      replyTo: autoresponder.replyTo
+    });
+
+    if (result.skipped) {
+      await logAudit(clientId, submissionId, "autoresponder_skipped", { reason: result.reason });
+      return result;
     }
 
-    const attemptNumber = job.attemptsMade + 1;
-    console.log(`[${submissionId}] ${jobType} attempt ${attemptNumber}`);
+    await logAudit(clientId, submissionId, "autoresponder_sent", { subject, messageId: result.messageId, attemptNumber });
+    logger.info("Autoresponder sent");
+    return result;
+  } catch (error) {
+    const reason = (error as Error)?.message || "Autoresponder failed";
+    await logAudit(clientId, submissionId, "autoresponder_failed", { reason: truncate(reason), attemptNumber });
+    logger.warn({ attemptNumber, reason }, "Autoresponder send failed");
+    throw error;
+  }
+};
+
+const processDelivery = async (job: Job<DeliveryJobData>, token?: string) => {
+  const submissionId = job.data.submissionId as string;
+  const clientId = job.data.clientId as string;
+  const schoolId = job.data.schoolId as string;
+  const crmConnectionId = job.data.crmConnectionId;
+  const jobType = job.name;
+  const action = jobType === "create_lead" ? "create" : "update";
+  const stepIndex = jobType === "create_lead"
+    ? 1
+    : typeof job.data.stepIndex === "number"
+      ? job.data.stepIndex
+      : 0;
+
+  if (jobType === "send_autoresponder") {
+    return processAutoresponder(job);
+  }
+
+  if (!isDeliveryJobType(jobType)) {
+    throw new Error(`Unsupported job type: ${jobType}`);
+  }
+
+  if (!submissionId || !clientId || !schoolId) {
+    throw new Error("Missing job payload context");
+  }
+
+  const attemptNumber = job.attemptsMade + 1;
+  logger.info({ attemptNumber }, "Delivery attempt started");
 
-    const submissionResult = await pool.query<SubmissionRow>(
-      "SELECT * FROM submissions WHERE id = $1 AND client_id = $2",
-      [submissionId, clientId]
+  const submissionResult = await pool.query<SubmissionRow>(
+    "SELECT * FROM submissions WHERE id = $1 AND client_id = $2",
+    [submissionId, clientId]
+  );
+
+  if (submissionResult.rows.length === 0) {
+    throw new Error("Submission not found");
+  }
+
+  const submission = submissionResult.rows[0];
+
+  // Defense-in-depth: Explicit client_id validation
+  if (submission.client_id !== clientId) {
+    await logAudit(clientId, submissionId, "job_payload_client_mismatch", {
+      expectedClientId: submission.client_id,
+      jobClientId: clientId
+    });
+    throw new Error("Job client_id mismatch - potential security issue");
+  }
+
+  if (submission.school_id !== schoolId) {
+    await logAudit(clientId, submissionId, "job_payload_mismatch", {
+      expectedSchoolId: submission.school_id,
+      jobSchoolId: schoolId
+    });
+    throw new Error("Job school_id mismatch");
+  }
+
+  // Nothing reaches the CRM while a lead is quarantined; releasing it queues a fresh create_lead.
+  if (submission.status === "quarantined") {
+    await logAudit(clientId, submissionId, "delivery_skipped", { jobType, reason: "quarantined" });
+    logger.info("Submission is quarantined, skipping delivery");
+    return { skipped: true };
+  }
+
+  // Jobs enqueued by the API carry no destination; fan them out into one job per CRM connection
+  // so each destination retries on its own.
+  if (!crmConnectionId) {
+    const config = await getConfigForClient(clientId);
+    const entities = resolveEntitiesByIds(
+      config,
+      submission.school_id,
+      submission.campus_id,
+      submission.program_id
     );
 
-    if (submissionResult.rows.length === 0) {
-      throw new Error("Submission not found");
+    if (!entities) {
+      await updateSubmissionStatus(clientId, submissionId, "failed");
+      await logAudit(clientId, submissionId, "failed", { reason: "Missing config entities" });
+      logger.error("Missing config entities");
+      throw new Error("Missing config entities");
     }
 
-    const submission = submissionResult.rows[0];
+    let destinationIds: string[];
 
-    // Defense-in-depth: Explicit client_id validation
-    if (submission.client_id !== clientId) {
-      await logAudit(clientId, submissionId, "job_payload_client_mismatch", {
-        expectedClientId: submission.client_id,
-        jobClientId: clientId
+    if (jobType === "create_lead") {
+      const route = resolveCrmRoute(entities.school, {
+        campusId: submission.campus_id,
+        programId: submission.program_id,
+        routingTags: entities.campus?.routingTags || [],
+        answers: submission.answers || {}
       });
-      throw new Error("Job client_id mismatch - potential security issue");
+      await logAudit(clientId, submissionId, "routed", {
+        crmConnectionId: route.crmConnectionId,
+        ruleId: route.ruleId,
+        fallback: route.ruleId === null
+      });
+
+      destinationIds = resolveDestinationIds(route.crmConnectionId, entities.school.additionalCrmConnectionIds);
+      for (const destinationId of destinationIds) {
+        const isPrimary = destinationId === route.crmConnectionId;
+        await pool.query(
+          `INSERT INTO submission_destinations
+            (submission_id, client_id, crm_connection_id, status, is_primary, routing_rule_id, created_at, updated_at)
+           VALUES ($1, $2, $3, 'pending', $4, $5, $6, $6)
+           ON CONFLICT (submission_id, crm_connection_id) DO NOTHING`,
+          [submissionId, clientId, destinationId, isPrimary, isPrimary ? route.ruleId : null, new Date()]
+        );
+      }
+    } else {
+      // Updates follow the lead to wherever it was created, even if later answers would route elsewhere.
+      const existing = await pool.query<{ crm_connection_id: string }>(
+        `SELECT crm_connection_id
+         FROM submission_destinations
+         WHERE submission_id = $1 AND client_id = $2
+         ORDER BY is_primary DESC, created_at ASC`,
+        [submissionId, clientId]
+      );
+      destinationIds = existing.rows.length > 0
+        ? existing.rows.map((row) => row.crm_connection_id)
+        : resolveDestinationIds(entities.school.crmConnectionId, entities.school.additionalCrmConnectionIds);
     }
 
-    if (submission.school_id !== schoolId) {
-      await logAudit(clientId, submissionId, "job_payload_mismatch", {
-        expectedSchoolId: submission.school_id,
-        jobSchoolId: schoolId
-      });
-      throw new Error("Job school_id mismatch");
+    for (const destinationId of destinationIds) {
+      await getDeliveryQueue(clientId).add(
+        jobType,
+        { ...job.data, crmConnectionId: destinationId, traceContext: injectTraceContext() },
+        {
+          // BullMQ custom job ids cannot contain ":"
+          jobId: `${job.id || `${jobType}-${submissionId}-${stepIndex}`}-${destinationId}`.replace(/:/g, "-"),
+          attempts: job.opts.attempts,
+          backoff: job.opts.backoff,
+          removeOnComplete: true,
+          removeOnFail: false
+        }
+      );
     }
 
-    const dedupeResult = await pool.query(
-      `
-        SELECT 1
-        FROM delivery_attempts
-        WHERE client_id = $1 AND submission_id = $2 AND job_type = $3 AND step_index = $4 AND status = 'delivered'
-        LIMIT 1
-      `,
-      [clientId, submissionId, jobType, stepIndex]
+    await logAudit(clientId, submissionId, "fanned_out", { jobType, stepIndex, destinations: destinationIds });
+    return { fannedOut: destinationIds.length };
+  }
+
+  if (await isStepDelivered(pool, { clientId, submissionId, jobType, stepIndex, crmConnectionId })) {
+    logger.info({ stepIndex }, "Step already delivered, skipping");
+    return { skipped: true };
+  }
+
+  const destinationResult = await pool.query<DestinationRow>(
+    `SELECT status, crm_lead_id, is_primary
+     FROM submission_destinations
+     WHERE submission_id = $1 AND client_id = $2 AND crm_connection_id = $3`,
+    [submissionId, clientId, crmConnectionId]
+  );
+  const destination = destinationResult.rows[0];
+
+  if (destination?.status === "delivered" && jobType === "create_lead") {
+    logger.info("Already delivered, skipping");
+    return { skipped: true };
+  }
+
+  // Delay (without using up an attempt) while the connection's breaker is open or it is over its rate limit.
+  const guardConfig = await getConfigForClient(clientId);
+  const guardConnection = guardConfig.crmConnections.find((connection) => connection.id === crmConnectionId);
+  const policy = resolveConnectionPolicy(guardConnection?.delivery);
+
+  if (guardConnection) {
+    const decision = acquireConnection(crmConnectionId, policy);
+    if (!decision.allowed) {
+      logger.info({ reason: decision.reason, retryAfterMs: decision.retryAfterMs }, "Delivery delayed by connection guard");
+      await job.moveToDelayed(Date.now() + decision.retryAfterMs, token);
+      throw new DelayedError();
+    }
+  }
+
+  await updateDestination(clientId, submissionId, crmConnectionId, { status: "delivering" });
+  await rollupSubmissionStatus(clientId, submissionId);
+
+  const attemptId = uuidv4();
+  const createdAt = new Date();
+
+  await pool.query(
+    `INSERT INTO delivery_attempts
+      (id, client_id, submission_id, attempt_number, status, job_type, step_index, crm_connection_id, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $9)`,
+    [attemptId, clientId, submissionId, attemptNumber, "started", jobType, stepIndex, crmConnectionId, createdAt]
+  );
+
+  // Set once the attempt's outcome is stored, so the catch-all below does not record it a second time.
+  let attemptRecorded = false;
+
+  const markFailed = async (reason: string) => {
+    await updateDestination(clientId, submissionId, crmConnectionId, { status: "failed", lastError: reason });
+    await rollupSubmissionStatus(clientId, submissionId);
+    await logAudit(clientId, submissionId, "failed", { crmConnectionId, reason });
+  };
+
+  try {
+    const config = await getConfigForClient(clientId);
+    const entities = resolveEntitiesByIds(
+      config,
+      submission.school_id,
+      submission.campus_id,
+      submission.program_id
     );
 
-    if (dedupeResult.rows.length > 0) {
-      console.log(`[${submissionId}] ${jobType} step ${stepIndex} already delivered, skipping`);
-      return { skipped: true };
+    if (!entities) {
+      await markFailed("Missing config entities");
+      logger.error("Missing config entities");
+      throw new Error("Missing config entities");
     }
 
-    if (submission.status === "delivered" && jobType === "create_lead") {
-      console.log(`[${submissionId}] Already delivered, skipping`);
-      return { skipped: true };
+    const crmConnection = config.crmConnections.find((connection) => connection.id === crmConnectionId);
+
+    if (!crmConnection) {
+      await markFailed("Missing CRM connection");
+      logger.error("Missing CRM connection");
+      throw new Error("Missing CRM connection");
     }
 
-    await updateSubmissionStatus(clientId, submissionId, "delivering");
+    // The primary connection's lead id also lives on the submission (and predates per-destination rows).
+    const isPrimary = destination ? destination.is_primary : crmConnectionId === entities.school.crmConnectionId;
+    const crmLeadId = destination?.crm_lead_id || (isPrimary ? submission.crm_lead_id : null);
 
-    const attemptId = uuidv4();
-    const createdAt = new Date();
+    if (jobType !== "create_lead" && !crmLeadId) {
+      logger.error("Missing crm_lead_id for update");
+      throw new Error("Missing crm_lead_id");
+    }
 
-    await pool.query(
-      `INSERT INTO delivery_attempts
-        (id, client_id, submission_id, attempt_number, status, job_type, step_index, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)`,
-      [attemptId, clientId, submissionId, attemptNumber, "started", jobType, stepIndex, createdAt]
+    const payload: DeliveryPayload = {
+      submissionId,
+      idempotencyKey: submission.idempotency_key,
+      action,
+      crmLeadId,
+      stepIndex: stepIndex || null,
+      schoolId: submission.school_id,
+      campusId: submission.campus_id,
+      programId: submission.program_id,
+      contact: {
+        firstName: submission.first_name,
+        lastName: submission.last_name,
+        email: submission.email,
+        // Leads from before normalization only have the number as typed.
+        phone: submission.phone_e164 || submission.phone
+      },
+      answers: submission.answers || {},
+      metadata: submission.metadata || {},
+      consent: {
+        consented: submission.consented,
+        textVersion: submission.consent_text_version,
+        timestamp: submission.consent_timestamp
+      },
+      routingTags: entities.campus?.routingTags || []
+    };
+
+    const endAdapterTimer = adapterDuration.startTimer({ adapter: crmConnection.type });
+
+    let result = await withSpan(
+      `${crmConnection.type} ${action}_lead`,
+      {
+        attributes: {
+          "lead.crm_connection_id": crmConnectionId,
+          "lead.adapter": crmConnection.type,
+          "lead.step_index": stepIndex
+        }
+      },
+      async (span) => {
+        const adapterResult = await runAdapter(crmConnection, payload, entities);
+        if (!adapterResult.success) {
+          span.setStatus({ code: SpanStatusCode.ERROR, message: adapterResult.error || `HTTP ${adapterResult.statusCode}` });
+        }
+        return adapterResult;
+      }
     );
 
-    try {
-      const config = await getConfigForClient(clientId);
-      const entities = resolveEntitiesByIds(
-        config,
-        submission.school_id,
-        submission.campus_id,
-        submission.program_id
-      );
+    recordConnectionResult(crmConnectionId, policy, !isConnectionFailure(result));
 
-      if (!entities) {
-        await updateSubmissionStatus(clientId, submissionId, "failed");
-        await logAudit(clientId, submissionId, "failed", { reason: "Missing config entities" });
-        console.error(`[${submissionId}] Missing config entities`);
-        throw new Error("Missing config entities");
-      }
+    // Retrying would create the lead a second time.
+    if (jobType === "create_lead" && result.success && !result.crmLeadId) {
+      result = { success: false, error: "Missing crm_lead_id from CRM response", errorClass: "permanent" };
+    }
 
-      const crmConnection = config.crmConnections.find(
-        (connection) => connection.id === entities.school.crmConnectionId
-      );
+    const outcome = result.success ? "delivered" : "failed";
+    endAdapterTimer({ outcome });
+    deliveryAttemptsTotal.inc({ adapter: crmConnection.type, outcome });
 
-      if (!crmConnection) {
-        await updateSubmissionStatus(clientId, submissionId, "failed");
-        await logAudit(clientId, submissionId, "failed", { reason: "Missing CRM connection" });
-        console.error(`[${submissionId}] Missing CRM connection`);
-        throw new Error("Missing CRM connection");
-      }
+    // Adapters classify their failures; anything unclassified is worth another attempt.
+    const errorClass = result.success ? null : result.errorClass || "retryable";
+    const retryAfterMs = errorClass === "rate_limited" ? result.retryAfterMs ?? null : null;
 
-      if (jobType === "update_lead" && !submission.crm_lead_id) {
-        console.error(`[${submissionId}] Missing crm_lead_id for update`);
-        throw new Error("Missing crm_lead_id");
-      }
+    await pool.query(
+      `UPDATE delivery_attempts
+       SET status = $1, response_code = $2, response_body = $3, error = $4, error_class = $5, retry_after_ms = $6,
+           updated_at = $7
+       WHERE id = $8`,
+      [
+        result.success ? "delivered" : "failed",
+        result.statusCode || null,
+        truncate(result.responseBody),
+        result.error || null,
+        errorClass,
+        retryAfterMs,
+        new Date(),
+        attemptId
+      ]
+    );
 
-      const payload: DeliveryPayload = {
-        submissionId,
-        idempotencyKey: submission.idempotency_key,
-        action,
-        crmLeadId: submission.crm_lead_id,
-        stepIndex: stepIndex || null,
-        schoolId: submission.school_id,
-        campusId: submission.campus_id,
-        programId: submission.program_id,
-        contact: {
-          firstName: submission.first_name,
-          lastName: submission.last_name,
-          email: submission.email,
-          phone: submission.phone
-        },
-        answers: submission.answers || {},
-        metadata: submission.metadata || {},
-        consent: {
-          consented: submission.consented,
-          textVersion: submission.consent_text_version,
-          timestamp: submission.consent_timestamp
-        },
-        routingTags: entities.campus?.routingTags || []
-      };
-
-      let result: AdapterResult;
-
-      if (crmConnection.type === "webhook") {
-        result = await webhookAdapter(payload, crmConnection.config || {});
+    if (!result.success) {
+      const reason = result.error || `Delivery failed with status ${result.statusCode}`;
+      const permanent = errorClass === "permanent";
+      if (permanent || attemptNumber >= env.maxAttempts) {
+        await markFailed(reason);
+        logger.error(
+          { attemptNumber, reason, errorClass },
+          permanent ? "Delivery failed permanently" : "Delivery failed after max attempts"
+        );
       } else {
-        result = await genericAdapter(payload, crmConnection.config || {});
+        await updateDestination(clientId, submissionId, crmConnectionId, { status: "delivering", lastError: reason });
+        await logAudit(clientId, submissionId, "retry_scheduled", {
+          crmConnectionId,
+          attemptNumber,
+          errorClass,
+          ...(retryAfterMs !== null ? { retryAfterMs } : {})
+        });
       }
+      attemptRecorded = true;
 
-      if (jobType === "create_lead" && result.success && !result.crmLeadId) {
-        result = { success: false, error: "Missing crm_lead_id from CRM response" };
+      // UnrecoverableError makes BullMQ fail the job now instead of using up the remaining attempts.
+      if (permanent) {
+        throw new UnrecoverableError(reason);
       }
+      throw new RetryableDeliveryError(reason, retryAfterMs ?? undefined);
+    }
 
-      await pool.query(
-        `UPDATE delivery_attempts
-         SET status = $1, response_code = $2, response_body = $3, error = $4, updated_at = $5
-         WHERE id = $6`,
-        [
-          result.success ? "delivered" : "failed",
-          result.statusCode || null,
-          truncate(result.responseBody),
-          result.error || null,
-          new Date(),
-          attemptId
-        ]
-      );
+    if (jobType === "create_lead" && result.crmLeadId && isPrimary) {
+      await pool.query("UPDATE submissions SET crm_lead_id = $1 WHERE id = $2 AND client_id = $3", [
+        result.crmLeadId,
+        submissionId,
+        clientId
+      ]);
+    }
 
-      if (!result.success) {
-        const maxReached = attemptNumber >= env.maxAttempts;
-        if (maxReached) {
-          await updateSubmissionStatus(clientId, submissionId, "failed");
-          await logAudit(clientId, submissionId, "failed", { reason: result.error || "Delivery failed" });
-          console.error(`[${submissionId}] Delivery failed after max attempts`);
-        } else {
-          await logAudit(clientId, submissionId, "retry_scheduled", { attemptNumber });
-        }
+    await updateDestination(clientId, submissionId, crmConnectionId, {
+      status: "delivered",
+      crmLeadId: result.crmLeadId || crmLeadId,
+      lastError: null,
+      deliveredAt: new Date()
+    });
+    attemptRecorded = true;
+    await rollupSubmissionStatus(clientId, submissionId);
+
+    await logAudit(clientId, submissionId, "delivered", { crmConnectionId, statusCode: result.statusCode });
+    logger.info({ statusCode: result.statusCode }, "Delivery succeeded");
+
+    // Staff are notified once per lead, when the primary CRM accepts it.
+    if (isPrimary) {
+      await sendInstantNotification(config, entities, submission);
+    }
 
-        throw new Error(result.error || `Delivery failed with status ${result.statusCode}`);
-      }
+    return { delivered: true };
+  } catch (error) {
+    if (attemptRecorded) {
+      throw error;
+    }
 
-      if (jobType === "create_lead" && result.crmLeadId) {
-        await pool.query("UPDATE submissions SET crm_lead_id = $1 WHERE id = $2 AND client_id = $3", [
-          result.crmLeadId,
-          submissionId,
-          clientId
-        ]);
-      }
+    const reason = (error as Error)?.message || "Delivery failed";
+    await pool.query(
+      `UPDATE delivery_attempts
+       SET status = $1, error = $2, updated_at = $3
+       WHERE id = $4`,
+      ["failed", truncate(reason), new Date(), attemptId]
+    );
 
-      await pool.query(
-        "UPDATE submissions SET status = $1, delivered_at = $2, updated_at = $2 WHERE id = $3 AND client_id = $4",
-        ["delivered", new Date(), submissionId, clientId]
-      );
+    const maxReached = attemptNumber >= env.maxAttempts;
+    if (maxReached) {
+      await markFailed(reason);
+    } else {
+      await updateDestination(clientId, submissionId, crmConnectionId, { status: "delivering", lastError: reason });
+      await logAudit(clientId, submissionId, "retry_scheduled", { crmConnectionId, attemptNumber });
+    }
 
-      await logAudit(clientId, submissionId, "delivered", { statusCode: result.statusCode });
-      console.log(`[${submissionId}] Delivery succeeded`);
+    throw error;
+  }
+};
 
-      const landingPage = config.landingPages.find(
-        (item) => item.schoolId === submission.school_id && item.programId === submission.program_id
-      );
+const workers = new Map<string, Worker<DeliveryJobData>>();
 
-      const notifications = landingPage?.notifications || entities.campus?.notifications;
+function tenantConcurrency(clientId: string) {
+  return env.tenantConcurrencyOverrides[clientId] ?? env.tenantConcurrency;
+}
 
-      if (notifications?.enabled) {
-        const campusName = entities.campus?.name || "Unspecified campus";
-        const subject = `New lead: ${entities.program.name} (${campusName})`;
-        const body = buildEmailBody(payload);
-        await sendNotificationEmail(notifications.recipients, subject, body);
+function startWorker(queueName: string, concurrency: number) {
+  const worker = new Worker<DeliveryJobData>(
+    queueName,
+    (job, token) => withJobLogContext(job, () => withJobSpan(job, () => processDelivery(job, token))),
+    {
+      connection: {
+        url: env.redisUrl
+      },
+      concurrency,
+      settings: {
+        backoffStrategy: deliveryBackoff
       }
+    }
+  );
 
-      return { delivered: true };
-    } catch (error) {
-      await pool.query(
-        `UPDATE delivery_attempts
-         SET status = $1, error = $2, updated_at = $3
-         WHERE id = $4`,
-        ["failed", truncate((error as Error)?.message), new Date(), attemptId]
-      );
+  worker.on("completed", (job) => {
+    logger.debug({ jobId: job.id, submissionId: job.data.submissionId }, "Job completed");
+  });
 
-      const maxReached = attemptNumber >= env.maxAttempts;
-      if (maxReached) {
-        await updateSubmissionStatus(clientId, submissionId, "failed");
-        await logAudit(clientId, submissionId, "failed", {
-          reason: (error as Error)?.message || "Delivery failed"
-        });
-      } else {
-        await logAudit(clientId, submissionId, "retry_scheduled", { attemptNumber });
-      }
+  worker.on("failed", (job, error) => {
+    logger.warn({ jobId: job?.id, submissionId: job?.data?.submissionId, error: error?.message }, "Job failed");
+  });
 
-      throw error;
+  return worker;
+}
+
+// Every client gets its own worker (and concurrency budget) on its own queue, so tenants are served
+// side by side instead of first-come-first-served. New clients are picked up on the next refresh.
+async function refreshTenantWorkers() {
+  const result = await pool.query<{ id: string }>("SELECT id FROM clients");
+  for (const row of result.rows) {
+    if (!workers.has(row.id)) {
+      workers.set(row.id, startWorker(tenantQueueName(row.id), tenantConcurrency(row.id)));
     }
+  }
+}
+
+startTracing();
+startWorker(env.queueName, 5);
+
+void refreshTenantWorkers().catch((error) => {
+  logger.error({ err: error }, "Tenant worker refresh failed");
+});
+
+const digestWorker = new Worker<DigestJobData>(digestQueue.name, (job) => processDigest(job), {
+  connection: {
+    url: env.redisUrl
   },
+  concurrency: 1
+});
+
+digestWorker.on("failed", (job, error) => {
+  logger.warn({ jobId: job?.id, mode: job?.data?.mode, error: error?.message }, "Digest job failed");
+});
+
+const connectionTestWorker = new Worker<ConnectionTestJobData>(
+  connectionTestQueue.name,
+  (job) => processConnectionTest(job),
   {
     connection: {
       url: env.redisUrl
     },
-    concurrency: 5
+    concurrency: 2
   }
 );
 
-worker.on("completed", (job) => {
-  console.log(`Delivered ${job.data.submissionId}`);
+connectionTestWorker.on("failed", (job, error) => {
+  logger.warn({ jobId: job?.id, crmConnectionId: job?.data?.crmConnectionId, error: error?.message }, "Connection test failed");
 });
 
-worker.on("failed", (job, error) => {
-  console.error(`Delivery failed for ${job?.data?.submissionId}`, error?.message);
+void scheduleDigests(digestQueue).catch((error) => {
+  logger.error({ err: error }, "Digest scheduling failed");
 });
 
+setInterval(() => {
+  refreshTenantWorkers().catch((error) => {
+    logger.error({ err: error }, "Tenant worker refresh failed");
+  });
+}, env.tenantRefreshMs);
+
 const server = http.createServer(async (_req, res) => {
   if (_req.url === "/worker/healthz") {
     res.writeHead(200, { "Content-Type": "application/json" });
@@ -343,10 +718,49 @@ const server = http.createServer(async (_req, res) => {
     return;
   }
 
+  if (_req.url === "/worker/metrics/prometheus") {
+    if (env.metricsToken && _req.headers.authorization !== `Bearer ${env.metricsToken}`) {
+      res.writeHead(401, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "error", error: "Unauthorized" }));
+      return;
+    }
+
+    try {
+      const states = ["waiting", "active", "delayed", "failed"] as const;
+      const queues = [legacyDeliveryQueue, ...Array.from(workers.keys()).map((id) => getDeliveryQueue(id))];
+      for (const queue of queues) {
+        const queueCounts = await queue.getJobCounts(...states);
+        for (const state of states) {
+          queueJobs.set({ queue: queue.name, state }, queueCounts[state] || 0);
+        }
+      }
+
+      for (const connection of getConnectionStates()) {
+        crmBreakerOpen.set({ connection_id: connection.connectionId }, connection.state === "closed" ? 0 : 1);
+      }
+
+      res.writeHead(200, { "Content-Type": metricsRegistry.contentType });
+      res.end(await metricsRegistry.metrics());
+      return;
+    } catch (error) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "error", error: (error as Error).message }));
+      return;
+    }
+  }
+
   if (_req.url?.startsWith("/worker/metrics")) {
     const url = new URL(_req.url, `http://${_req.headers.host || "localhost"}`);
     try {
-      const counts = await deliveryQueue.getJobCounts("waiting", "active", "failed", "delayed", "completed");
+      const statuses = ["waiting", "active", "failed", "delayed", "completed"] as const;
+      const queues = [legacyDeliveryQueue, ...Array.from(workers.keys()).map((id) => getDeliveryQueue(id))];
+      const counts: Record<string, number> = Object.fromEntries(statuses.map((status) => [status, 0]));
+      for (const queue of queues) {
+        const queueCounts = await queue.getJobCounts(...statuses);
+        for (const status of statuses) {
+          counts[status] += queueCounts[status] || 0;
+        }
+      }
       const clientId = url.searchParams.get("clientId");
       const schoolId = url.searchParams.get("schoolId");
       const windowHours = Math.min(Math.max(Number(url.searchParams.get("windowHours") || 24), 1), 720);
@@ -432,25 +846,14 @@ const server = http.createServer(async (_req, res) => {
           };
         }
 
-        const limit = 1000;
-        const statuses = ["waiting", "active", "delayed", "failed"] as const;
-        const tenantCounts: Record<string, number> = {};
-        let partial = false;
-
-        for (const status of statuses) {
-          const jobs = await deliveryQueue.getJobs([status], 0, limit - 1);
-          const count = jobs.filter((job) => job.data?.clientId === clientId).length;
-          tenantCounts[status] = count;
-          if (jobs.length >= limit) {
-            partial = true;
-          }
-        }
-
-        tenantQueue = { ...tenantCounts, partial, limit };
+        const tenantCounts = await getDeliveryQueue(clientId).getJobCounts("waiting", "active", "delayed", "failed");
+        tenantQueue = { ...tenantCounts, concurrency: tenantConcurrency(clientId) };
       }
 
       res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ status: "ok", queue: counts, tenantQueue, tenantStats }));
+      res.end(
+        JSON.stringify({ status: "ok", queue: counts, tenantQueue, tenantStats, connections: getConnectionStates() })
+      );
       return;
     } catch (error) {
       res.writeHead(500, { "Content-Type": "application/json" });
@@ -464,5 +867,5 @@ const server = http.createServer(async (_req, res) => {
 });
 
 server.listen(env.workerPort, () => {
-  console.log(`Worker health endpoint on port ${env.workerPort}`);
+  logger.info({ port: env.workerPort }, "Worker health endpoint listening");
 });
@@ -0,0 +1,48 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { loadConfig, renderTemplate, resolveAutoresponder, resolveEntitiesByIds } from "@lead_lander/config-schema";
+import { buildMergeFields } from "../src/autoresponder";
+
+const config = loadConfig(path.resolve(__dirname, "../../../configs"));
+
+const submission = {
+  first_name: "Ada",
+  last_name: "Lovelace",
+  email: "ada@example.com",
+  phone: null,
+  answers: { start_date: "fall", interests: ["labs", "evening"] }
+};
+
+describe("resolveAutoresponder", () => {
+  it("applies program overrides on top of the school template", () => {
+    const entities = resolveEntitiesByIds(config, "school_northwood", null, "program_cybersecurity")!;
+    const autoresponder = resolveAutoresponder(entities.school, entities.program);
+
+    expect(autoresponder?.subject).toBe("Your Cybersecurity program info, {{firstName}}");
+    expect(autoresponder?.fromName).toBe("Northwood Admissions");
+  });
+
+  it("returns null when disabled or not configured", () => {
+    const entities = resolveEntitiesByIds(config, "school_northwood", null, "program_welding")!;
+
+    expect(resolveAutoresponder(entities.school, { ...entities.program, autoresponder: { enabled: false } })).toBeNull();
+    expect(resolveAutoresponder({ ...entities.school, autoresponder: undefined }, entities.program)).toBeNull();
+  });
+});
+
+describe("renderTemplate", () => {
+  const entities = resolveEntitiesByIds(config, "school_northwood", "campus_downtown", "program_welding")!;
+  const fields = buildMergeFields(submission, entities);
+
+  it("fills submission, school and answer fields", () => {
+    expect(
+      renderTemplate("{{ firstName }} / {{programName}} @ {{campusName}} / {{answers.interests}} / {{missing}}.", fields)
+    ).toBe("Ada / Welding Technology @ Downtown Campus / labs, evening / .");
+  });
+
+  it("escapes values in HTML templates", () => {
+    const html = renderTemplate("<p>Hi {{firstName}}</p>", { ...fields, firstName: "<b>Ada</b>" }, { html: true });
+
+    expect(html).toBe("<p>Hi &lt;b&gt;Ada&lt;/b&gt;</p>");
+  });
+});
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  acquireConnection,
+  getConnectionStates,
+  recordConnectionResult,
+  resetConnectionGuards
+} from "../src/connectionGuard";
+
+const policy = { requestsPerSecond: 0, failureThreshold: 3, cooldownMs: 60_000 };
+
+beforeEach(() => {
+  resetConnectionGuards();
+});
+
+describe("circuit breaker", () => {
+  it("opens after consecutive failures and delays until the cooldown ends", () => {
+    for (let i = 0; i < 3; i += 1) {
+      expect(acquireConnection("crm", policy, 1_000).allowed).toBe(true);
+      recordConnectionResult("crm", policy, false, 1_000);
+    }
+
+    expect(acquireConnection("crm", policy, 31_000)).toEqual({
+      allowed: false,
+      reason: "circuit_open",
+      retryAfterMs: 30_000
+    });
+    expect(getConnectionStates(31_000)[0]).toMatchObject({ connectionId: "crm", state: "open", consecutiveFailures: 3 });
+  });
+
+  it("lets a single half-open probe through and closes on success", () => {
+    for (let i = 0; i < 3; i += 1) {
+      recordConnectionResult("crm", policy, false, 0);
+    }
+
+    expect(acquireConnection("crm", policy, 60_000).allowed).toBe(true);
+    expect(acquireConnection("crm", policy, 60_001)).toMatchObject({ allowed: false, reason: "circuit_open" });
+
+    recordConnectionResult("crm", policy, true, 60_500);
+    expect(acquireConnection("crm", policy, 60_600).allowed).toBe(true);
+    expect(getConnectionStates(60_600)[0]).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+  });
+
+  it("reopens when the probe fails", () => {
+    for (let i = 0; i < 3; i += 1) {
+      recordConnectionResult("crm", policy, false, 0);
+    }
+
+    acquireConnection("crm", policy, 60_000);
+    recordConnectionResult("crm", policy, false, 60_000);
+
+    expect(acquireConnection("crm", policy, 61_000)).toMatchObject({ allowed: false, retryAfterMs: 59_000 });
+  });
+
+  it("keeps connections independent", () => {
+    for (let i = 0; i < 3; i += 1) {
+      recordConnectionResult("down", policy, false, 0);
+    }
+
+    expect(acquireConnection("down", policy, 1).allowed).toBe(false);
+    expect(acquireConnection("up", policy, 1).allowed).toBe(true);
+  });
+});
+
+describe("rate limit", () => {
+  it("spaces requests by the configured rate", () => {
+    const limited = { ...policy, requestsPerSecond: 4 };
+
+    expect(acquireConnection("crm", limited, 0).allowed).toBe(true);
+    expect(acquireConnection("crm", limited, 100)).toEqual({
+      allowed: false,
+      reason: "rate_limited",
+      retryAfterMs: 150
+    });
+    expect(acquireConnection("crm", limited, 250).allowed).toBe(true);
+  });
+});
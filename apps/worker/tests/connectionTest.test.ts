@@ -0,0 +1,151 @@
+import http from "http";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Job } from "bullmq";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadConfig, type Config } from "@lead_lander/config-schema";
+
+const { getConfigForClient } = vi.hoisted(() => ({ getConfigForClient: vi.fn() }));
+
+vi.mock("../src/config", () => ({ getConfigForClient }));
+
+import { processConnectionTest, type ConnectionTestJobData } from "../src/connectionTest";
+
+const baseConfig = loadConfig(path.resolve(__dirname, "../../../configs"));
+const school = baseConfig.schools.find((item) => item.id === "school_northwood")!;
+
+let server: http.Server;
+let baseUrl = "";
+let received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+
+function withConnection(connection: Config["crmConnections"][number]): Config {
+  return {
+    ...baseConfig,
+    crmConnections: baseConfig.crmConnections.map((item) => (item.id === school.crmConnectionId ? connection : item))
+  };
+}
+
+function runTest(overrides: Partial<ConnectionTestJobData> = {}) {
+  const data: ConnectionTestJobData = {
+    clientId: school.clientId,
+    schoolId: school.id,
+    crmConnectionId: school.crmConnectionId,
+    programId: "program_welding",
+    campusId: "campus_downtown",
+    action: "create",
+    dryRun: true,
+    ...overrides
+  };
+  return processConnectionTest({ id: "job-1", data } as unknown as Job<ConnectionTestJobData>);
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(req.url === "/services/oauth2/token" ? 200 : 201, { "Content-Type": "application/json" });
+      res.end(
+        req.url === "/services/oauth2/token"
+          ? JSON.stringify({ access_token: "sf-access-token-123", instance_url: baseUrl, token_type: "Bearer" })
+          : JSON.stringify({ id: "crm-9", echo: req.headers.authorization })
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+  process.env.CRM_WEBHOOK_TOKEN = "webhook-token-123";
+  getConfigForClient.mockResolvedValue(baseConfig);
+});
+
+describe("processConnectionTest", () => {
+  it("builds the webhook request for a sample lead without sending it", async () => {
+    const result = await runTest();
+
+    expect(result).toMatchObject({ success: true, dryRun: true, statusCode: null, crmLeadId: null, mappingErrors: [] });
+    expect(result.payload).toMatchObject({ programId: "program_welding", campusId: "campus_downtown", action: "create" });
+    expect(result.payload.answers.start_timeline).toBe("30_days");
+
+    expect(result.requests).toHaveLength(1);
+    const [request] = result.requests;
+    expect(request).toMatchObject({ method: "POST", url: "http://localhost:4010/leads" });
+    expect(request.headers["X-Api-Key"]).toBe("••••••");
+    expect(request.response).toBeUndefined();
+    expect(JSON.parse(request.body as string).contact.email).toBe("jordan.sample@example.com");
+    expect(JSON.stringify(result)).not.toContain("webhook-token-123");
+  });
+
+  it("sends live tests and reports the response, lead id and unmapped fields with secrets masked", async () => {
+    getConfigForClient.mockResolvedValue(
+      withConnection({
+        id: school.crmConnectionId,
+        type: "generic",
+        config: {
+          url: `${baseUrl}/leads`,
+          authHeaderName: "Authorization",
+          authHeaderValue: "Bearer super-secret-123",
+          fields: { "contact.email": "Email", "answers.not_asked": "Notes" }
+        }
+      })
+    );
+
+    const result = await runTest({ dryRun: false });
+
+    expect(received[0].headers.authorization).toBe("Bearer super-secret-123");
+    expect(result).toMatchObject({ success: true, dryRun: false, statusCode: 201, crmLeadId: "crm-9" });
+    expect(result.mappingErrors).toEqual(["answers.not_asked → Notes: no value in the sample lead"]);
+    expect(result.requests[0].headers.Authorization).toBe("••••••");
+    expect(result.requests[0].response?.statusCode).toBe(201);
+    expect(result.requests[0].response?.body).not.toContain("super-secret-123");
+  });
+
+  it("masks the access token a live Salesforce test is issued", async () => {
+    process.env.TEST_SF_CONNECTION_SECRET = "sf-client-secret";
+    getConfigForClient.mockResolvedValue(
+      withConnection({
+        id: school.crmConnectionId,
+        type: "salesforce",
+        config: { loginUrl: baseUrl, clientId: "connected-app", clientSecretEnv: "TEST_SF_CONNECTION_SECRET" }
+      })
+    );
+
+    const result = await runTest({ dryRun: false });
+
+    expect(received[1].headers.authorization).toBe("Bearer sf-access-token-123");
+    expect(result).toMatchObject({ success: true, crmLeadId: "crm-9" });
+    const [tokenRequest, leadRequest] = result.requests;
+    expect(tokenRequest.url).toBe(`${baseUrl}/services/oauth2/token`);
+    expect(tokenRequest.body).toContain("client_secret=••••••");
+    expect(JSON.parse(tokenRequest.response?.body as string)).toEqual({
+      access_token: "••••••",
+      instance_url: baseUrl,
+      token_type: "Bearer"
+    });
+    expect(leadRequest.headers.Authorization).toBe("••••••");
+    expect(JSON.stringify(result)).not.toContain("sf-access-token-123");
+    expect(JSON.stringify(result)).not.toContain("sf-client-secret");
+  });
+
+  it("returns adapter errors for connections that cannot build a request", async () => {
+    getConfigForClient.mockResolvedValue(
+      withConnection({ id: school.crmConnectionId, type: "generic", config: { url: `${baseUrl}/leads/{crmLeadId}` } })
+    );
+
+    const result = await runTest({ action: "update" });
+
+    expect(result).toMatchObject({ success: false, error: "Missing values for URL placeholders: crmLeadId" });
+    expect(result.requests).toEqual([]);
+    expect(received).toHaveLength(0);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { resolveDestinationIds, rollupDestinationStatus } from "../src/destinations";
+
+describe("resolveDestinationIds", () => {
+  it("puts the primary connection first and drops duplicates", () => {
+    expect(resolveDestinationIds("salesforce", ["warehouse", "salesforce", "hubspot"])).toEqual([
+      "salesforce",
+      "warehouse",
+      "hubspot"
+    ]);
+  });
+});
+
+describe("rollupDestinationStatus", () => {
+  it("is delivered only when every destination delivered", () => {
+    expect(rollupDestinationStatus(["delivered", "delivered"])).toBe("delivered");
+  });
+
+  it("stays delivering while any destination is outstanding", () => {
+    expect(rollupDestinationStatus(["delivered", "pending"])).toBe("delivering");
+    expect(rollupDestinationStatus(["failed", "delivering"])).toBe("delivering");
+  });
+
+  it("is partially delivered when some destinations failed for good", () => {
+    expect(rollupDestinationStatus(["delivered", "failed"])).toBe("partially_delivered");
+  });
+
+  it("is failed when no destination delivered", () => {
+    expect(rollupDestinationStatus(["failed", "failed"])).toBe("failed");
+  });
+
+  it("falls back to received before any destination is recorded", () => {
+    expect(rollupDestinationStatus([])).toBe("received");
+  });
+});
@@ -0,0 +1,162 @@
+import path from "path";
+import type { Job } from "bullmq";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { loadConfig, type Config } from "@lead_lander/config-schema";
+
+const { mockQuery, mockClientQuery, sendNotificationEmail, getConfigForClient } = vi.hoisted(() => ({
+  mockQuery: vi.fn(),
+  mockClientQuery: vi.fn(),
+  sendNotificationEmail: vi.fn(),
+  getConfigForClient: vi.fn()
+}));
+
+vi.mock("../src/db", () => ({
+  pool: {
+    query: mockQuery,
+    connect: async () => ({ query: mockClientQuery, release: () => undefined })
+  }
+}));
+vi.mock("../src/email", () => ({ sendNotificationEmail }));
+vi.mock("../src/config", () => ({ getConfigForClient }));
+
+import { buildDigestEmail, groupDigestTargets, processDigest, type DigestJobData, type DigestSubmission } from "../src/digest";
+
+const baseConfig = loadConfig(path.resolve(__dirname, "../../../configs"));
+const dailyJob = { data: { mode: "daily" } } as Job<DigestJobData>;
+
+function withDowntownMode(mode: "instant" | "daily" | "weekly"): Config {
+  return {
+    ...baseConfig,
+    campuses: baseConfig.campuses.map((campus) =>
+      campus.id === "campus_downtown" && campus.notifications
+        ? { ...campus, notifications: { ...campus.notifications, mode } }
+        : campus
+    )
+  };
+}
+
+function lead(id: string, overrides: Partial<DigestSubmission> = {}): DigestSubmission {
+  return {
+    id,
+    school_id: "school_northwood",
+    campus_id: "campus_downtown",
+    program_id: "program_welding",
+    first_name: "Ada",
+    last_name: "Lovelace",
+    email: `${id}@example.com`,
+    status: "delivered",
+    created_at: new Date("2026-03-02T10:00:00Z"),
+    failure: null,
+    ...overrides
+  };
+}
+
+const windowStart = new Date("2026-03-01T13:00:00Z");
+const windowEnd = new Date("2026-03-02T13:00:00Z");
+
+describe("groupDigestTargets", () => {
+  it("only collects leads for targets in the digest's mode", () => {
+    const leads = [lead("a"), lead("b", { campus_id: "campus_westside" }), lead("c", { campus_id: null })];
+
+    const daily = groupDigestTargets(withDowntownMode("daily"), leads, "daily");
+    expect(daily).toHaveLength(1);
+    expect(daily[0].target.key).toBe("campus:campus_downtown");
+    expect(daily[0].submissions.map((item) => item.id)).toEqual(["a"]);
+
+    expect(groupDigestTargets(withDowntownMode("daily"), leads, "weekly")).toEqual([]);
+    expect(groupDigestTargets(withDowntownMode("instant"), leads, "daily")).toEqual([]);
+  });
+});
+
+describe("buildDigestEmail", () => {
+  it("groups leads by program and campus with funnel counts and failures", () => {
+    const config = withDowntownMode("daily");
+    const [digest] = groupDigestTargets(
+      config,
+      [
+        lead("a"),
+        lead("b", { status: "failed", failure: "salesforce: 500 Internal Server Error" }),
+        lead("c", { program_id: "program_cybersecurity", status: "delivering" })
+      ],
+      "daily"
+    );
+
+    const email = buildDigestEmail({ config, digest, mode: "daily", windowStart, windowEnd });
+
+    expect(email.subject).toBe("Daily lead digest for Downtown Campus: 3 new leads");
+    expect(email.text).toContain("Totals: 3 leads, 1 delivered, 1 in progress, 1 failed");
+    expect(email.text).toContain("Cybersecurity · Downtown Campus (1 lead, 0 delivered, 1 in progress, 0 failed)");
+    expect(email.text).toContain("Welding Technology · Downtown Campus (2 leads, 1 delivered, 0 in progress, 1 failed)");
+    expect(email.text).toContain("- Ada Lovelace (b): salesforce: 500 Internal Server Error");
+    expect(email.html).toContain(`background:${digest.school.branding.colors.primary}`);
+  });
+});
+
+describe("processDigest", () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockClientQuery.mockReset();
+    sendNotificationEmail.mockReset();
+    getConfigForClient.mockResolvedValue(withDowntownMode("daily"));
+  });
+
+  it("emails only the leads it claimed and commits the digest", async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ id: "client-a" }] })
+      .mockResolvedValueOnce({ rows: [lead("a"), lead("b")] });
+    mockClientQuery.mockImplementation(async (sql: string) =>
+      sql.includes("INSERT INTO notification_digest_submissions") ? { rows: [{ submission_id: "a" }] } : { rows: [] }
+    );
+    sendNotificationEmail.mockResolvedValue({ skipped: false, messageId: "m-1" });
+
+    const result = await processDigest(dailyJob);
+
+    expect(result).toEqual({ digested: 1 });
+    expect(sendNotificationEmail.mock.calls[0][0]).toEqual(["admissions-dt@northwood.example"]);
+    expect(sendNotificationEmail.mock.calls[0][1].subject).toContain("1 new lead");
+    expect(mockClientQuery.mock.calls.map(([sql]) => sql).at(-1)).toBe("COMMIT");
+  });
+
+  it("rolls back the claim when the email is not sent", async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ id: "client-a" }] })
+      .mockResolvedValueOnce({ rows: [lead("a")] });
+    mockClientQuery.mockImplementation(async (sql: string) =>
+      sql.includes("INSERT INTO notification_digest_submissions") ? { rows: [{ submission_id: "a" }] } : { rows: [] }
+    );
+    sendNotificationEmail.mockResolvedValue({ skipped: true, reason: "SMTP not configured" });
+
+    const result = await processDigest(dailyJob);
+
+    expect(result).toEqual({ digested: 0 });
+    expect(mockClientQuery.mock.calls.map(([sql]) => sql).at(-1)).toBe("ROLLBACK");
+  });
+
+  it("leaves quarantined leads out of the digest", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ id: "client-a" }] }).mockResolvedValueOnce({ rows: [] });
+
+    const result = await processDigest(dailyJob);
+
+    expect(result).toEqual({ digested: 0 });
+    expect(mockQuery.mock.calls[1][0]).toContain("s.status <> 'quarantined'");
+    expect(sendNotificationEmail).not.toHaveBeenCalled();
+  });
+
+  it("still digests later clients when one client's config fails to load", async () => {
+    getConfigForClient
+      .mockRejectedValueOnce(new Error("Invalid config"))
+      .mockResolvedValueOnce(withDowntownMode("daily"));
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ id: "client-broken" }, { id: "client-a" }] })
+      .mockResolvedValueOnce({ rows: [lead("a")] });
+    mockClientQuery.mockImplementation(async (sql: string) =>
+      sql.includes("INSERT INTO notification_digest_submissions") ? { rows: [{ submission_id: "a" }] } : { rows: [] }
+    );
+    sendNotificationEmail.mockResolvedValue({ skipped: false, messageId: "m-1" });
+
+    await expect(processDigest(dailyJob)).rejects.toThrow("1 lead digest(s) failed");
+
+    expect(sendNotificationEmail).toHaveBeenCalledTimes(1);
+    expect(mockQuery.mock.calls[1][1][0]).toBe("client-a");
+  });
+});
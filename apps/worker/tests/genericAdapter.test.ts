@@ -0,0 +1,143 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { genericAdapter } from "../src/adapters/genericAdapter";
+import type { DeliveryPayload } from "../src/adapters/types";
+
+type ReceivedRequest = {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
+
+let server: http.Server;
+let baseUrl = "";
+let received: ReceivedRequest[] = [];
+
+const payload: DeliveryPayload = {
+  submissionId: "sub-1",
+  idempotencyKey: "key-1",
+  action: "create",
+  crmLeadId: null,
+  stepIndex: null,
+  schoolId: "school-1",
+  campusId: "campus-1",
+  programId: "program-1",
+  contact: {
+    firstName: "Ada",
+    lastName: "Lovelace",
+    email: "ada@example.com",
+    phone: "5551234567"
+  },
+  answers: { start_date: "fall" },
+  metadata: { utm: { utm_source: "google" } },
+  consent: { consented: true, textVersion: "v1", timestamp: "2026-01-01T00:00:00.000Z" },
+  routingTags: ["evening", "north"]
+};
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      received.push({ method: req.method, url: req.url, headers: req.headers, body });
+      if (req.url?.startsWith("/fail")) {
+        res.writeHead(422, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "invalid" }));
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ data: { leadId: 42 } }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+describe("genericAdapter", () => {
+  it("posts mapped fields as JSON and extracts the lead id", async () => {
+    const result = await genericAdapter(payload, {
+      url: `${baseUrl}/leads`,
+      headers: { "X-Source": "lead-lander" },
+      fields: {
+        "contact.email": "Email",
+        "answers.start_date": "StartTerm",
+        "metadata.utm.utm_source": "LeadSource",
+        routingTags: "Tags"
+      },
+      staticFields: { Origin: "web" },
+      leadIdField: "data.leadId"
+    });
+
+    expect(result).toMatchObject({ success: true, statusCode: 200, crmLeadId: "42" });
+    expect(received[0].method).toBe("POST");
+    expect(received[0].headers["x-source"]).toBe("lead-lander");
+    expect(JSON.parse(received[0].body)).toEqual({
+      Origin: "web",
+      Email: "ada@example.com",
+      StartTerm: "fall",
+      LeadSource: "google",
+      Tags: ["evening", "north"]
+    });
+  });
+
+  it("uses the update mapping, method and URL template for updates", async () => {
+    const result = await genericAdapter(
+      { ...payload, action: "update", crmLeadId: "lead 7", stepIndex: 2 },
+      {
+        url: `${baseUrl}/leads`,
+        bodyFormat: "form",
+        fields: { "contact.email": "email" },
+        update: {
+          method: "PATCH",
+          url: `${baseUrl}/leads/{crmLeadId}`,
+          fields: { stepIndex: "step", routingTags: "tags" }
+        }
+      }
+    );
+
+    expect(result).toMatchObject({ success: true, crmLeadId: "lead 7" });
+    expect(received[0].method).toBe("PATCH");
+    expect(received[0].url).toBe("/leads/lead%207");
+    expect(received[0].headers["content-type"]).toBe("application/x-www-form-urlencoded");
+    expect(Object.fromEntries(new URLSearchParams(received[0].body))).toEqual({
+      email: "ada@example.com",
+      step: "2",
+      tags: "evening,north"
+    });
+  });
+
+  it("reports config and URL placeholder errors without calling the CRM", async () => {
+    const invalid = await genericAdapter(payload, { fields: { "contact.email": "Email" } });
+    expect(invalid.success).toBe(false);
+    expect(invalid.error).toContain("url");
+
+    const missing = await genericAdapter(payload, {
+      url: `${baseUrl}/leads/{crmLeadId}`,
+      fields: { "contact.email": "Email" }
+    });
+    expect(missing).toMatchObject({ success: false, error: "Missing values for URL placeholders: crmLeadId" });
+    expect(received).toHaveLength(0);
+  });
+
+  it("returns the CRM status and body on non-2xx responses", async () => {
+    const result = await genericAdapter(payload, {
+      url: `${baseUrl}/fail`,
+      fields: { "contact.email": "Email" }
+    });
+
+    expect(result).toMatchObject({ success: false, statusCode: 422 });
+    expect(result.responseBody).toContain("invalid");
+  });
+});
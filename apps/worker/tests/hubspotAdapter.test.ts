@@ -0,0 +1,140 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { hubspotAdapter } from "../src/adapters/hubspotAdapter";
+import type { DeliveryPayload } from "../src/adapters/types";
+
+type ReceivedRequest = {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
+
+let server: http.Server;
+let baseUrl = "";
+let received: ReceivedRequest[] = [];
+
+const payload: DeliveryPayload = {
+  submissionId: "sub-1",
+  idempotencyKey: "key-1",
+  action: "create",
+  crmLeadId: null,
+  stepIndex: 1,
+  schoolId: "school-1",
+  campusId: "campus-1",
+  programId: "program-1",
+  contact: {
+    firstName: "Ada",
+    lastName: "Lovelace",
+    email: "Ada@Example.com",
+    phone: null
+  },
+  answers: { start_date: "fall", interests: ["hvac", "welding"] },
+  metadata: {},
+  consent: { consented: true, textVersion: "v1", timestamp: "2026-01-01T00:00:00.000Z" },
+  routingTags: []
+};
+
+const config = () => ({
+  baseUrl,
+  accessTokenEnv: "TEST_HUBSPOT_TOKEN",
+  fields: {
+    "contact.firstName": "firstname",
+    "contact.lastName": "lastname",
+    "contact.email": "email",
+    "contact.phone": "phone",
+    "answers.start_date": "start_term"
+  },
+  update: { fields: { "answers.interests": "program_interests" } },
+  stepProperty: "lead_lander_step"
+});
+
+beforeAll(async () => {
+  process.env.TEST_HUBSPOT_TOKEN = "pat-token";
+
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      received.push({ method: req.method, url: req.url, headers: req.headers, body });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      if (req.url?.endsWith("/batch/upsert")) {
+        res.end(JSON.stringify({ status: "COMPLETE", results: [{ id: "1501", new: false }] }));
+        return;
+      }
+      res.end(JSON.stringify({ id: "1501" }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+describe("hubspotAdapter", () => {
+  it("upserts the contact by email and returns the contact id", async () => {
+    const result = await hubspotAdapter(payload, config());
+
+    expect(result).toMatchObject({ success: true, crmLeadId: "1501" });
+    expect(received[0].url).toBe("/crm/v3/objects/contacts/batch/upsert");
+    expect(received[0].headers.authorization).toBe("Bearer pat-token");
+    expect(JSON.parse(received[0].body)).toEqual({
+      inputs: [
+        {
+          idProperty: "email",
+          id: "ada@example.com",
+          properties: {
+            firstname: "Ada",
+            lastname: "Lovelace",
+            email: "Ada@Example.com",
+            start_term: "fall",
+            lead_lander_step: 1
+          }
+        }
+      ]
+    });
+  });
+
+  it("patches the stored contact id with step data on update", async () => {
+    const result = await hubspotAdapter(
+      { ...payload, action: "update", crmLeadId: "1501", stepIndex: 3 },
+      config()
+    );
+
+    expect(result).toMatchObject({ success: true, crmLeadId: "1501" });
+    expect(received[0].method).toBe("PATCH");
+    expect(received[0].url).toBe("/crm/v3/objects/contacts/1501");
+    expect(JSON.parse(received[0].body).properties).toMatchObject({
+      program_interests: "hvac;welding",
+      lead_lander_step: 3
+    });
+  });
+
+  it("only sets the step property when the payload carries a step", async () => {
+    await hubspotAdapter({ ...payload, stepIndex: null }, config());
+    await hubspotAdapter({ ...payload, stepIndex: 0 }, config());
+
+    expect(JSON.parse(received[0].body).inputs[0].properties).not.toHaveProperty("lead_lander_step");
+    expect(JSON.parse(received[1].body).inputs[0].properties.lead_lander_step).toBe(0);
+  });
+
+  it("fails without an access token", async () => {
+    const result = await hubspotAdapter(payload, { ...config(), accessTokenEnv: "TEST_HUBSPOT_MISSING" });
+
+    expect(result).toEqual({
+      success: false,
+      error: "Missing HubSpot access token (TEST_HUBSPOT_MISSING)",
+      errorClass: "permanent"
+    });
+    expect(received).toHaveLength(0);
+  });
+});
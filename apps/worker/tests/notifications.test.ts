@@ -0,0 +1,62 @@
+import path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { loadConfig, resolveEntitiesByIds, type Config } from "@lead_lander/config-schema";
+
+const { sendNotificationEmail } = vi.hoisted(() => ({ sendNotificationEmail: vi.fn() }));
+
+vi.mock("../src/email", () => ({ sendNotificationEmail }));
+
+import { sendInstantNotification, type InstantNotificationLead } from "../src/notifications";
+
+const baseConfig = loadConfig(path.resolve(__dirname, "../../../configs"));
+
+function withDowntownMode(mode: "instant" | "daily" | "weekly"): Config {
+  return {
+    ...baseConfig,
+    campuses: baseConfig.campuses.map((campus) =>
+      campus.id === "campus_downtown" && campus.notifications
+        ? { ...campus, notifications: { ...campus.notifications, mode } }
+        : campus
+    )
+  };
+}
+
+const submission: InstantNotificationLead = {
+  id: "sub-1",
+  school_id: "school_northwood",
+  campus_id: "campus_downtown",
+  program_id: "program_welding",
+  first_name: "Ada",
+  last_name: "Lovelace",
+  email: "ada@example.com",
+  phone: null,
+  answers: {}
+};
+
+const entities = resolveEntitiesByIds(baseConfig, "school_northwood", "campus_downtown", "program_welding")!;
+
+describe("sendInstantNotification", () => {
+  beforeEach(() => {
+    sendNotificationEmail.mockReset();
+  });
+
+  it("emails instant targets and leaves digest targets alone", async () => {
+    sendNotificationEmail.mockResolvedValue(undefined);
+
+    expect(await sendInstantNotification(withDowntownMode("instant"), entities, submission)).toBe(true);
+    expect(sendNotificationEmail).toHaveBeenCalledWith(
+      ["admissions-dt@northwood.example"],
+      expect.objectContaining({ subject: expect.stringContaining("Welding") })
+    );
+
+    expect(await sendInstantNotification(withDowntownMode("daily"), entities, submission)).toBe(false);
+    expect(sendNotificationEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not throw when the sender fails after the lead was delivered", async () => {
+    sendNotificationEmail.mockRejectedValue(new Error("SMTP connection refused"));
+
+    await expect(sendInstantNotification(withDowntownMode("instant"), entities, submission)).resolves.toBe(false);
+    expect(sendNotificationEmail).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startMockCrm, type MockCrm } from "@lead_lander/mock-crm";
+import { serializeDeliveryPayload } from "../src/adapters/payload";
+import { webhookAdapter } from "../src/adapters/webhookAdapter";
+import type { DeliveryEntities, DeliveryPayload } from "../src/adapters/types";
+
+const payload: DeliveryPayload = {
+  submissionId: "sub-1",
+  idempotencyKey: "key-1",
+  action: "create",
+  crmLeadId: null,
+  stepIndex: 1,
+  schoolId: "school-1",
+  campusId: "campus-1",
+  programId: "program-1",
+  contact: { firstName: "Ada", lastName: "Lovelace", email: "ada@example.com", phone: null },
+  answers: { start_timeline: "30_days", interests: ["hvac", "welding"] },
+  metadata: { utm: { utm_source: "google" } },
+  consent: { consented: true, textVersion: "v1", timestamp: "2026-01-01T00:00:00.000Z" },
+  routingTags: ["evening"]
+};
+
+const entities: DeliveryEntities = {
+  school: { id: "school-1", name: "Northwood Tech" },
+  campus: { id: "campus-1", name: "Downtown" },
+  program: { id: "program-1", name: "Welding" }
+};
+
+describe("serializeDeliveryPayload", () => {
+  it("sends today's shape as v1 by default and does not pass new payload fields through", () => {
+    expect(serializeDeliveryPayload(payload)).toEqual(payload);
+    expect(serializeDeliveryPayload({ ...payload, internalOnly: true } as DeliveryPayload, { version: "v1" })).toEqual(
+      payload
+    );
+  });
+
+  it("names the school, campus and program in v2", () => {
+    const body = serializeDeliveryPayload(payload, { version: "v2" }, entities);
+
+    expect(body).toMatchObject({
+      version: 2,
+      event: "lead.created",
+      school: { id: "school-1", name: "Northwood Tech" },
+      campus: { id: "campus-1", name: "Downtown" },
+      program: { id: "program-1", name: "Welding" }
+    });
+    expect(body).not.toHaveProperty("schoolId");
+  });
+
+  it("reshapes the versioned body with a transform", () => {
+    const body = serializeDeliveryPayload(
+      payload,
+      {
+        version: "v1",
+        transform: {
+          lead_id: "{{submissionId}}",
+          email: "{{contact.email}}",
+          full_name: "{{contact.firstName}} {{contact.lastName}}",
+          program: "{{program.name}} @ {{campus.name}}",
+          interests_text: "Interests: {{answers.interests}}",
+          source: "{{metadata.utm.utm_source}}",
+          phone: "{{contact.phone}}",
+          "...": "{{answers}}",
+          start_timeline: "soon",
+          tags: ["web", "{{routingTags}}"]
+        }
+      },
+      entities
+    );
+
+    expect(body).toEqual({
+      lead_id: "sub-1",
+      email: "ada@example.com",
+      full_name: "Ada Lovelace",
+      program: "Welding @ Downtown",
+      interests_text: "Interests: hvac, welding",
+      source: "google",
+      phone: null,
+      interests: ["hvac", "welding"],
+      start_timeline: "soon",
+      tags: ["web", ["evening"]]
+    });
+  });
+});
+
+describe("webhookAdapter payload format", () => {
+  let crm: MockCrm;
+
+  beforeAll(async () => {
+    crm = await startMockCrm();
+  });
+
+  afterAll(async () => {
+    await crm.close();
+  });
+
+  it("posts the transformed body", async () => {
+    const result = await webhookAdapter(
+      payload,
+      { endpoint: `${crm.url}/leads` },
+      { payloadFormat: { version: "v2", transform: { ref: "{{submissionId}}", school: "{{school.name}}" } }, entities }
+    );
+
+    expect(result).toMatchObject({ success: true, crmLeadId: "lead-1" });
+    expect(crm.requests[0].json).toEqual({ ref: "sub-1", school: "Northwood Tech" });
+  });
+});
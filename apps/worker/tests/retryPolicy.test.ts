@@ -0,0 +1,42 @@
+import type { MinimalJob } from "bullmq";
+import { describe, expect, it } from "vitest";
+import { classifyStatus, parseRetryAfter } from "../src/adapters/http";
+import { deliveryBackoff, RetryableDeliveryError } from "../src/retryPolicy";
+
+const job = { opts: { backoff: { type: "crm_backoff", delay: 5000 } } } as unknown as MinimalJob;
+
+describe("parseRetryAfter", () => {
+  it("reads delta-seconds and HTTP dates, clamped to the configured maximum", () => {
+    const now = Date.parse("2024-03-01T12:00:00Z");
+
+    expect(parseRetryAfter("30", now)).toBe(30_000);
+    expect(parseRetryAfter("Fri, 01 Mar 2024 12:02:00 GMT", now)).toBe(120_000);
+    expect(parseRetryAfter("Fri, 01 Mar 2024 11:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("999999", now)).toBe(3_600_000);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe("classifyStatus", () => {
+  it("separates rate limits, transient errors and permanent rejections", () => {
+    expect(classifyStatus(429)).toBe("rate_limited");
+    expect(classifyStatus(503, 10_000)).toBe("rate_limited");
+    expect(classifyStatus(503)).toBe("retryable");
+    expect(classifyStatus(408)).toBe("retryable");
+    expect(classifyStatus(400)).toBe("permanent");
+    expect(classifyStatus(401)).toBe("permanent");
+    expect(classifyStatus(422)).toBe("permanent");
+  });
+});
+
+describe("deliveryBackoff", () => {
+  it("waits for the CRM's Retry-After when there is one", () => {
+    expect(deliveryBackoff(1, "crm_backoff", new RetryableDeliveryError("429", 30_000), job)).toBe(30_000);
+  });
+
+  it("falls back to exponential backoff from the job's delay", () => {
+    expect(deliveryBackoff(1, "crm_backoff", new RetryableDeliveryError("503"), job)).toBe(5000);
+    expect(deliveryBackoff(3, "crm_backoff", new Error("timeout"), job)).toBe(20_000);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { resolveCrmRoute, type RoutingContext } from "../src/routing";
+
+const school = {
+  crmConnectionId: "admissions-default",
+  routingRules: [
+    {
+      id: "financial-aid",
+      when: { answers: [{ questionId: "needs_aid", equals: "yes" }] },
+      crmConnectionId: "financial-aid-crm"
+    },
+    {
+      id: "evening-north",
+      when: { campusIds: ["north"], routingTags: ["evening", "weekend"] },
+      crmConnectionId: "evening-crm"
+    },
+    {
+      id: "nursing",
+      when: { programIds: ["nursing", "lpn"] },
+      crmConnectionId: "health-crm"
+    }
+  ]
+};
+
+const context = (overrides: Partial<RoutingContext> = {}): RoutingContext => ({
+  campusId: "south",
+  programId: "welding",
+  routingTags: [],
+  answers: {},
+  ...overrides
+});
+
+describe("resolveCrmRoute", () => {
+  it("falls back to the school connection when no rule matches", () => {
+    expect(resolveCrmRoute(school, context())).toEqual({ crmConnectionId: "admissions-default", ruleId: null });
+  });
+
+  it("uses the first matching rule in order", () => {
+    const route = resolveCrmRoute(
+      school,
+      context({ programId: "nursing", answers: { needs_aid: "yes" } })
+    );
+
+    expect(route).toEqual({ crmConnectionId: "financial-aid-crm", ruleId: "financial-aid" });
+  });
+
+  it("requires every condition in a rule to match", () => {
+    expect(resolveCrmRoute(school, context({ campusId: "north" })).ruleId).toBeNull();
+    expect(resolveCrmRoute(school, context({ campusId: "north", routingTags: ["weekend"] })).ruleId).toBe(
+      "evening-north"
+    );
+  });
+
+  it("matches multi-select answers on any selected value", () => {
+    const rules = [
+      {
+        id: "trades",
+        when: { answers: [{ questionId: "interests", equals: ["hvac", "electrical"] }] },
+        crmConnectionId: "trades-crm"
+      }
+    ];
+
+    expect(
+      resolveCrmRoute({ ...school, routingRules: rules }, context({ answers: { interests: ["welding", "hvac"] } }))
+        .crmConnectionId
+    ).toBe("trades-crm");
+    expect(
+      resolveCrmRoute({ ...school, routingRules: rules }, context({ answers: { interests: ["welding"] } }))
+        .crmConnectionId
+    ).toBe("admissions-default");
+  });
+});
@@ -0,0 +1,189 @@
+import http from "http";
+import { createVerify, generateKeyPairSync } from "crypto";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { clearSalesforceTokenCache, salesforceAdapter } from "../src/adapters/salesforceAdapter";
+import type { DeliveryPayload } from "../src/adapters/types";
+
+type ReceivedRequest = {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
+
+let server: http.Server;
+let baseUrl = "";
+let received: ReceivedRequest[] = [];
+let tokenCounter = 0;
+let rejectToken: string | null = null;
+
+const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const payload: DeliveryPayload = {
+  submissionId: "sub-1",
+  idempotencyKey: "key-1",
+  action: "create",
+  crmLeadId: null,
+  stepIndex: null,
+  schoolId: "school-1",
+  campusId: "campus-1",
+  programId: "program-1",
+  contact: {
+    firstName: "Ada",
+    lastName: "Lovelace",
+    email: "ada@example.com",
+    phone: "5551234567"
+  },
+  answers: { start_date: "fall" },
+  metadata: {},
+  consent: { consented: true, textVersion: "v1", timestamp: "2026-01-01T00:00:00.000Z" },
+  routingTags: ["evening", "north"]
+};
+
+const baseConfig = () => ({
+  loginUrl: baseUrl,
+  clientId: "client-id",
+  clientSecretEnv: "TEST_SF_CLIENT_SECRET",
+  staticFields: { Company: "Prospect", LeadSource: "Web" }
+});
+
+beforeAll(async () => {
+  process.env.TEST_SF_CLIENT_SECRET = "client-secret";
+  process.env.TEST_SF_PRIVATE_KEY = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      received.push({ method: req.method, url: req.url, headers: req.headers, body });
+
+      if (req.url === "/services/oauth2/token") {
+        tokenCounter += 1;
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ access_token: `token-${tokenCounter}`, instance_url: baseUrl }));
+        return;
+      }
+
+      if (req.headers.authorization === `Bearer ${rejectToken}`) {
+        res.writeHead(401, { "Content-Type": "application/json" });
+        res.end(JSON.stringify([{ errorCode: "INVALID_SESSION_ID" }]));
+        return;
+      }
+
+      if (req.method === "POST") {
+        res.writeHead(201, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ id: "00Q000000000001", success: true, errors: [] }));
+        return;
+      }
+
+      res.writeHead(204);
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+  tokenCounter = 0;
+  rejectToken = null;
+  clearSalesforceTokenCache();
+});
+
+describe("salesforceAdapter", () => {
+  it("creates a Lead with a client-credentials token and caches the token", async () => {
+    const first = await salesforceAdapter(payload, baseConfig());
+    const second = await salesforceAdapter({ ...payload, submissionId: "sub-2" }, baseConfig());
+
+    expect(first).toMatchObject({ success: true, statusCode: 201, crmLeadId: "00Q000000000001" });
+    expect(second.success).toBe(true);
+
+    const tokenRequests = received.filter((request) => request.url === "/services/oauth2/token");
+    expect(tokenRequests).toHaveLength(1);
+    expect(Object.fromEntries(new URLSearchParams(tokenRequests[0].body))).toEqual({
+      grant_type: "client_credentials",
+      client_id: "client-id",
+      client_secret: "client-secret"
+    });
+
+    const create = received[1];
+    expect(create.url).toBe("/services/data/v60.0/sobjects/Lead");
+    expect(create.headers.authorization).toBe("Bearer token-1");
+    expect(JSON.parse(create.body)).toEqual({
+      Company: "Prospect",
+      LeadSource: "Web",
+      FirstName: "Ada",
+      LastName: "Lovelace",
+      Email: "ada@example.com",
+      Phone: "5551234567"
+    });
+  });
+
+  it("patches the existing Lead on update using crm_lead_id", async () => {
+    const result = await salesforceAdapter(
+      { ...payload, action: "update", crmLeadId: "00Q000000000001", stepIndex: 2 },
+      {
+        ...baseConfig(),
+        update: { fields: { "answers.start_date": "Start_Term__c", routingTags: "Tags__c" } }
+      }
+    );
+
+    expect(result).toMatchObject({ success: true, statusCode: 204, crmLeadId: "00Q000000000001" });
+    const update = received[1];
+    expect(update.method).toBe("PATCH");
+    expect(update.url).toBe("/services/data/v60.0/sobjects/Lead/00Q000000000001");
+    expect(JSON.parse(update.body)).toMatchObject({ Start_Term__c: "fall", Tags__c: "evening;north" });
+  });
+
+  it("refreshes the token once when the session is rejected", async () => {
+    await salesforceAdapter(payload, baseConfig());
+    rejectToken = "token-1";
+
+    const result = await salesforceAdapter(payload, baseConfig());
+
+    expect(result.success).toBe(true);
+    expect(received.filter((request) => request.url === "/services/oauth2/token")).toHaveLength(2);
+    expect(received[received.length - 1].headers.authorization).toBe("Bearer token-2");
+  });
+
+  it("authenticates with a signed JWT bearer assertion", async () => {
+    const result = await salesforceAdapter(payload, {
+      authFlow: "jwt_bearer",
+      loginUrl: baseUrl,
+      clientId: "client-id",
+      username: "integration@example.com",
+      privateKeyEnv: "TEST_SF_PRIVATE_KEY",
+      staticFields: { Company: "Prospect" }
+    });
+
+    expect(result.success).toBe(true);
+    const params = new URLSearchParams(received[0].body);
+    expect(params.get("grant_type")).toBe("urn:ietf:params:oauth:grant-type:jwt-bearer");
+
+    const [header, claims, signature] = (params.get("assertion") as string).split(".");
+    const verifier = createVerify("RSA-SHA256");
+    verifier.update(`${header}.${claims}`);
+    expect(verifier.verify(publicKey, Buffer.from(signature, "base64url"))).toBe(true);
+    expect(JSON.parse(Buffer.from(claims, "base64url").toString())).toMatchObject({
+      iss: "client-id",
+      sub: "integration@example.com",
+      aud: baseUrl
+    });
+  });
+
+  it("rejects incomplete auth config before calling Salesforce", async () => {
+    const result = await salesforceAdapter(payload, { loginUrl: baseUrl, clientId: "client-id" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("clientSecretEnv");
+    expect(received).toHaveLength(0);
+  });
+});
@@ -0,0 +1,40 @@
+import type { Pool } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { isDeliveryJobType, isStepDelivered, type DeliveryStep } from "../src/stepDedupe";
+
+// The lead's step 2 already reached the CRM.
+function deliveredStepDb() {
+  const query = vi.fn().mockResolvedValue({ rows: [{ "?column?": 1 }] });
+  return { db: { query } as unknown as Pick<Pool, "query">, query };
+}
+
+const step: DeliveryStep = {
+  clientId: "client-a",
+  submissionId: "sub-1",
+  jobType: "update_lead",
+  stepIndex: 2,
+  crmConnectionId: "crm-primary"
+};
+
+describe("isStepDelivered", () => {
+  it("skips a step update that was already delivered", async () => {
+    const { db, query } = deliveredStepDb();
+
+    expect(await isStepDelivered(db, step)).toBe(true);
+    expect(query.mock.calls[0][1]).toEqual(["client-a", "sub-1", "update_lead", 2, "crm-primary"]);
+  });
+
+  it("sends a merge into a lead whose step was already delivered", async () => {
+    const { db, query } = deliveredStepDb();
+
+    expect(await isStepDelivered(db, { ...step, jobType: "merge_lead" })).toBe(false);
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe("isDeliveryJobType", () => {
+  it("accepts CRM delivery jobs only", () => {
+    expect(["create_lead", "update_lead", "merge_lead"].every(isDeliveryJobType)).toBe(true);
+    expect(isDeliveryJobType("send_autoresponder")).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { verifySignature } from "@lead_lander/webhook-signing";
+import { startMockCrm, type MockCrm } from "@lead_lander/mock-crm";
+import { webhookAdapter } from "../src/adapters/webhookAdapter";
+import type { DeliveryPayload } from "../src/adapters/types";
+
+let crm: MockCrm;
+let endpoint = "";
+
+const payload: DeliveryPayload = {
+  submissionId: "sub-1",
+  idempotencyKey: "key-1",
+  action: "create",
+  crmLeadId: null,
+  stepIndex: null,
+  schoolId: "school-1",
+  campusId: null,
+  programId: "program-1",
+  contact: {
+    firstName: "Ada",
+    lastName: "Lovelace",
+    email: "ada@example.com",
+    phone: null
+  },
+  answers: {},
+  metadata: {},
+  consent: { consented: true, textVersion: "v1", timestamp: "2026-01-01T00:00:00.000Z" },
+  routingTags: []
+};
+
+beforeAll(async () => {
+  crm = await startMockCrm();
+  endpoint = `${crm.url}/leads`;
+});
+
+afterAll(async () => {
+  await crm.close();
+});
+
+beforeEach(() => {
+  crm.reset();
+});
+
+describe("webhookAdapter signing", () => {
+  it("signs the exact request body with the connection secret", async () => {
+    process.env.TEST_WEBHOOK_SECRET = "partner-secret";
+
+    const result = await webhookAdapter(payload, {
+      endpoint,
+      signing: { secretEnv: "TEST_WEBHOOK_SECRET" }
+    });
+
+    expect(result).toMatchObject({ success: true, crmLeadId: "lead-1" });
+
+    const [request] = crm.requests;
+    const verification = verifySignature({
+      secret: "partner-secret",
+      body: request.body,
+      signature: request.headers["x-leadlander-signature"] as string,
+      timestamp: request.headers["x-leadlander-timestamp"] as string
+    });
+    expect(verification).toEqual({ ok: true });
+  });
+
+  it("honors custom header names", async () => {
+    await webhookAdapter(payload, {
+      endpoint,
+      signing: { secret: "inline", signatureHeader: "X-Sig", timestampHeader: "X-Sig-Ts" }
+    });
+
+    expect(crm.requests[0].headers["x-sig"]).toMatch(/^v1=[0-9a-f]{64}$/);
+    expect(crm.requests[0].headers["x-sig-ts"]).toMatch(/^\d+$/);
+    expect(crm.requests[0].headers["x-leadlander-signature"]).toBeUndefined();
+  });
+
+  it("refuses to send unsigned when the secret is missing", async () => {
+    const result = await webhookAdapter(payload, {
+      endpoint,
+      signing: { secretEnv: "TEST_WEBHOOK_SECRET_MISSING" }
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: "Missing webhook signing secret (TEST_WEBHOOK_SECRET_MISSING)",
+      errorClass: "permanent"
+    });
+    expect(crm.requests).toHaveLength(0);
+  });
+});
+
+describe("webhookAdapter responses", () => {
+  it("passes the CRM's rate limit response back for the breaker and retries", async () => {
+    crm.respondWith({ status: 429, retryAfterSeconds: 30 });
+
+    const result = await webhookAdapter(payload, { endpoint });
+
+    expect(result).toMatchObject({ success: false, statusCode: 429, errorClass: "rate_limited", retryAfterMs: 30_000 });
+    expect(crm.requests[0].json).toMatchObject({ submissionId: "sub-1", contact: { email: "ada@example.com" } });
+  });
+
+  it("classifies validation errors as permanent and server errors as retryable", async () => {
+    crm.respondWith({ status: 400 }, { status: 503 });
+
+    expect(await webhookAdapter(payload, { endpoint })).toMatchObject({ statusCode: 400, errorClass: "permanent" });
+    const unavailable = await webhookAdapter(payload, { endpoint });
+    expect(unavailable).toMatchObject({ statusCode: 503, errorClass: "retryable" });
+    expect(unavailable.retryAfterMs).toBeUndefined();
+  });
+});
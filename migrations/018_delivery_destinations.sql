@@ -0,0 +1,51 @@
+ALTER TABLE schools
+  ADD COLUMN IF NOT EXISTS additional_crm_connection_ids JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE delivery_attempts ADD COLUMN IF NOT EXISTS crm_connection_id TEXT;
+
+-- One row per CRM destination a submission is delivered to
+CREATE TABLE IF NOT EXISTS submission_destinations (
+  submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  client_id TEXT NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  crm_connection_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  crm_lead_id TEXT,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (submission_id, crm_connection_id)
+);
+
+CREATE INDEX IF NOT EXISTS submission_destinations_client_status_idx
+  ON submission_destinations (client_id, status);
+
+-- Backfill existing submissions against the school's primary connection
+INSERT INTO submission_destinations
+  (submission_id, client_id, crm_connection_id, status, crm_lead_id, delivered_at, created_at, updated_at)
+SELECT s.id,
+       s.client_id,
+       schools.crm_connection_id,
+       CASE s.status
+         WHEN 'delivered' THEN 'delivered'
+         WHEN 'failed' THEN 'failed'
+         ELSE 'pending'
+       END,
+       s.crm_lead_id,
+       s.delivered_at,
+       s.created_at,
+       s.updated_at
+FROM submissions s
+JOIN schools ON schools.id = s.school_id
+ON CONFLICT (submission_id, crm_connection_id) DO NOTHING;
+
+UPDATE delivery_attempts
+SET crm_connection_id = schools.crm_connection_id
+FROM submissions
+JOIN schools ON schools.id = submissions.school_id
+WHERE delivery_attempts.submission_id = submissions.id
+  AND delivery_attempts.crm_connection_id IS NULL;
+
+DROP INDEX IF EXISTS delivery_attempts_dedupe_idx;
+CREATE INDEX IF NOT EXISTS delivery_attempts_dedupe_idx
+  ON delivery_attempts (submission_id, crm_connection_id, job_type, step_index, status);
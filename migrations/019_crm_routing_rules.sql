@@ -0,0 +1,12 @@
+ALTER TABLE schools ADD COLUMN IF NOT EXISTS routing_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE submission_destinations ADD COLUMN IF NOT EXISTS is_primary BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE submission_destinations ADD COLUMN IF NOT EXISTS routing_rule_id TEXT;
+
+-- Before routing rules the primary destination was always the school's crm_connection_id
+UPDATE submission_destinations
+SET is_primary = TRUE
+FROM submissions
+JOIN schools ON schools.id = submissions.school_id
+WHERE submission_destinations.submission_id = submissions.id
+  AND submission_destinations.crm_connection_id = schools.crm_connection_id;
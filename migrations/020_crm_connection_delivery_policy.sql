@@ -0,0 +1,2 @@
+-- Per-connection rate limit and circuit breaker settings (see CrmDeliveryPolicySchema)
+ALTER TABLE crm_connections ADD COLUMN IF NOT EXISTS delivery JSONB;
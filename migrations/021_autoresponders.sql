@@ -0,0 +1,3 @@
+-- Prospect confirmation email: school defaults plus per-program overrides (see AutoresponderSchema)
+ALTER TABLE schools ADD COLUMN IF NOT EXISTS autoresponder JSONB;
+ALTER TABLE programs ADD COLUMN IF NOT EXISTS autoresponder JSONB;
@@ -0,0 +1,2 @@
+-- Per-school override of the staff lead notification email (see NotificationTemplateSchema)
+ALTER TABLE schools ADD COLUMN IF NOT EXISTS notification_template JSONB;
@@ -0,0 +1,22 @@
+-- Daily/weekly lead digests sent to campus or landing page notification recipients
+CREATE TABLE IF NOT EXISTS notification_digests (
+  id UUID PRIMARY KEY,
+  client_id TEXT NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  target TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  window_end TIMESTAMPTZ NOT NULL,
+  recipients JSONB NOT NULL DEFAULT '[]'::jsonb,
+  submission_count INT NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS notification_digests_client_idx ON notification_digests (client_id, sent_at DESC);
+
+-- The primary key keeps a submission from being included in more than one digest
+CREATE TABLE IF NOT EXISTS notification_digest_submissions (
+  submission_id UUID PRIMARY KEY REFERENCES submissions(id) ON DELETE CASCADE,
+  digest_id UUID NOT NULL REFERENCES notification_digests(id) ON DELETE CASCADE,
+  client_id TEXT NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
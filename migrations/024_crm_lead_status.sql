@@ -0,0 +1,27 @@
+-- Inbound CRM status webhook settings (see CrmStatusWebhookSchema)
+ALTER TABLE crm_connections ADD COLUMN IF NOT EXISTS status_webhook JSONB;
+
+-- Latest lifecycle status the CRM reported for the lead
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS lifecycle_status TEXT;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS lifecycle_updated_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS submission_status_history (
+  id UUID PRIMARY KEY,
+  client_id TEXT NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  crm_connection_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  crm_status TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- CRMs retry callbacks; a repeated event is stored once
+CREATE UNIQUE INDEX IF NOT EXISTS submission_status_history_event_idx
+  ON submission_status_history (submission_id, crm_connection_id, status, occurred_at);
+CREATE INDEX IF NOT EXISTS submission_status_history_client_idx
+  ON submission_status_history (client_id, status);
+
+-- Status callbacks identify the lead by the CRM's id
+CREATE INDEX IF NOT EXISTS submission_destinations_crm_lead_idx
+  ON submission_destinations (client_id, crm_connection_id, crm_lead_id);
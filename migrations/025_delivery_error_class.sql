@@ -0,0 +1,5 @@
+-- How the adapter classified a failed attempt: retryable, rate_limited or permanent
+ALTER TABLE delivery_attempts ADD COLUMN IF NOT EXISTS error_class TEXT;
+
+-- Delay the CRM asked for (Retry-After) on rate-limited attempts
+ALTER TABLE delivery_attempts ADD COLUMN IF NOT EXISTS retry_after_ms INTEGER;
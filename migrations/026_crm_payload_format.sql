@@ -0,0 +1,2 @@
+-- Webhook payload version and transform (see CrmPayloadFormatSchema)
+ALTER TABLE crm_connections ADD COLUMN IF NOT EXISTS payload_format JSONB;
@@ -0,0 +1,5 @@
+-- Region for phone numbers entered without a country code (see SchoolSchema.defaultPhoneCountry)
+ALTER TABLE schools ADD COLUMN IF NOT EXISTS default_phone_country TEXT;
+
+-- Normalized phone; `phone` keeps what the prospect typed
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS phone_e164 TEXT;
@@ -0,0 +1,15 @@
+-- Per-school duplicate handling (see DedupePolicySchema)
+ALTER TABLE schools ADD COLUMN IF NOT EXISTS dedupe_policy JSONB;
+
+-- Duplicates are now decided by the school's policy, so the same person may have several submissions
+ALTER TABLE submissions DROP CONSTRAINT IF EXISTS submissions_idempotency_key_key;
+
+-- Set when the policy created a new lead for someone who had already submitted
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS repeat_of_submission_id UUID REFERENCES submissions(id) ON DELETE SET NULL;
+
+-- Duplicate lookups by email or normalized phone, newest first
+CREATE INDEX IF NOT EXISTS submissions_dedupe_email_idx
+  ON submissions (client_id, LOWER(email), created_at DESC);
+CREATE INDEX IF NOT EXISTS submissions_dedupe_phone_idx
+  ON submissions (client_id, phone_e164, created_at DESC)
+  WHERE phone_e164 IS NOT NULL;
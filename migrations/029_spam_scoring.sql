@@ -0,0 +1,15 @@
+-- Spam score and the reasons behind it (see apps/api/src/spam.ts); status 'quarantined' holds delivery
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS spam_score INTEGER;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS spam_reasons JSONB;
+
+-- Repeat-submission check: recent leads per IP address and per browser
+CREATE INDEX IF NOT EXISTS submissions_metadata_ip_idx
+  ON submissions ((metadata->>'ip'), created_at DESC);
+CREATE INDEX IF NOT EXISTS submissions_metadata_device_idx
+  ON submissions ((metadata->>'deviceId'), created_at DESC)
+  WHERE metadata->>'deviceId' IS NOT NULL;
+
+-- Admins list quarantined leads per school
+CREATE INDEX IF NOT EXISTS submissions_quarantined_idx
+  ON submissions (client_id, school_id, created_at DESC)
+  WHERE status = 'quarantined';
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { resolveLeadQuestions, type Question } from "./questions";
+import type { Config, Program } from "./schema";
+
+/** Error message per answer key, in the shape the landing FormEngine shows next to each question. */
+export type AnswerFieldErrors = Record<string, string>;
+
+export type AnswerValidationResult =
+  | { ok: true; answers: Record<string, unknown> }
+  | { ok: false; fieldErrors: AnswerFieldErrors };
+
+export type AnswerValidationOptions = {
+  // Step updates send a few answers at a time: required questions are not enforced, and showIf
+  // conditions also see the answers already stored on the submission.
+  partial?: boolean;
+  previousAnswers?: Record<string, unknown> | null;
+};
+
+const MAX_TEXT_LENGTH = 2000;
+const EmailSchema = z.string().email();
+
+// Written by the quiz steps rather than the lead form (see FormEngine).
+const QUIZ_ANSWER_KEY = /^quiz_[\w-]+$/;
+const QUIZ_RESULT_KEYS = new Set(["recommended_program", "recommended_program_name"]);
+
+function isQuizAnswerKey(key: string) {
+  return QUIZ_ANSWER_KEY.test(key) || QUIZ_RESULT_KEYS.has(key);
+}
+
+/** Same rule as the landing form: a showIf question is shown when the answer it depends on matches. */
+export function isQuestionVisible(question: Question, answers: Record<string, unknown>) {
+  if (!question.showIf) return true;
+  const current = answers[question.showIf.questionId];
+  const expected = question.showIf.equals;
+
+  if (Array.isArray(current)) {
+    return Array.isArray(expected)
+      ? expected.some((value) => current.includes(value))
+      : current.includes(expected);
+  }
+
+  if (Array.isArray(expected)) {
+    return expected.includes(current as string);
+  }
+
+  return current === expected;
+}
+
+function isEmptyAnswer(value: unknown) {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+function checkAnswer(question: Question, value: unknown): string | null {
+  const optionValues = question.options?.length ? new Set(question.options.map((option) => option.value)) : null;
+
+  switch (question.type) {
+    case "checkbox":
+      if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+        return "Choose one or more options";
+      }
+      if (optionValues && value.some((item) => !optionValues.has(item))) {
+        return "Choose from the listed options";
+      }
+      return null;
+    case "radio":
+    case "select":
+      if (typeof value !== "string") return "Choose one option";
+      if (optionValues && !optionValues.has(value)) return "Choose from the listed options";
+      return null;
+    case "slider":
+      return typeof value === "number" && Number.isFinite(value) ? null : "Enter a number";
+    case "email":
+      if (typeof value !== "string") return "Enter an email address";
+      return EmailSchema.safeParse(value).success ? null : "Enter a valid email address";
+    default:
+      if (typeof value !== "string") return "Enter text";
+      return value.length > MAX_TEXT_LENGTH ? `Keep this under ${MAX_TEXT_LENGTH} characters` : null;
+  }
+}
+
+/**
+ * Checks answers against the questions the form showed. Answers to questions hidden by showIf are
+ * dropped; unknown keys (other than quiz answers), wrong types, values outside the options and, for
+ * full submissions, missing required answers are field errors.
+ */
+export function validateAnswers(
+  questions: Question[],
+  answers: Record<string, unknown>,
+  options: AnswerValidationOptions = {}
+): AnswerValidationResult {
+  const visibility = options.partial ? { ...(options.previousAnswers || {}), ...answers } : answers;
+  const questionsById = new Map(questions.map((question) => [question.id, question]));
+  const fieldErrors: AnswerFieldErrors = {};
+  const accepted: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(answers)) {
+    const question = questionsById.get(key);
+    if (!question) {
+      if (isQuizAnswerKey(key)) {
+        accepted[key] = value;
+      } else {
+        fieldErrors[key] = "Unknown question";
+      }
+      continue;
+    }
+    if (!isQuestionVisible(question, visibility) || isEmptyAnswer(value)) {
+      continue;
+    }
+
+    const error = checkAnswer(question, value);
+    if (error) {
+      fieldErrors[key] = error;
+    } else {
+      accepted[key] = value;
+    }
+  }
+
+  if (!options.partial) {
+    for (const question of questions) {
+      if (question.required && !(question.id in fieldErrors) && isQuestionVisible(question, visibility)) {
+        if (isEmptyAnswer(answers[question.id])) {
+          fieldErrors[question.id] = "This question is required";
+        }
+      }
+    }
+  }
+
+  return Object.keys(fieldErrors).length > 0 ? { ok: false, fieldErrors } : { ok: true, answers: accepted };
+}
+
+/** Validates answers against the lead form the program's landing page shows (see resolveLeadQuestions). */
+export function validateLeadAnswers(
+  config: Config,
+  program: Program,
+  answers: Record<string, unknown>,
+  options: AnswerValidationOptions = {}
+): AnswerValidationResult {
+  const landingPage = config.landingPages.find(
+    (item) => item.schoolId === program.schoolId && item.programId === program.id
+  );
+  return validateAnswers(resolveLeadQuestions(config, program, landingPage), answers, options);
+}
@@ -1,2 +1,5 @@
 export * from "./schema";
 export * from "./load";
+export * from "./questions";
+export * from "./templates";
+export * from "./answers";
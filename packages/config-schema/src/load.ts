@@ -1,7 +1,17 @@
 import fs from "fs";
 import path from "path";
 import YAML from "yaml";
-import { ConfigSchema, type Config, type Campus, type LandingPage, type Program, type School } from "./schema";
+import {
+  AutoresponderSchema,
+  ConfigSchema,
+  type Autoresponder,
+  type Config,
+  type Campus,
+  type LandingPage,
+  type NotificationSettings,
+  type Program,
+  type School
+} from "./schema";
 
 const SUPPORTED_EXTENSIONS = [".yml", ".yaml", ".json"];
 
@@ -110,3 +120,50 @@ export function resolveEntitiesByIds(
 
   return { school, campus, program };
 }
+
+/** The school's autoresponder with the program's overrides applied, or null when none is configured or enabled. */
+export function resolveAutoresponder(school: School, program: Program): Autoresponder | null {
+  if (!school.autoresponder && !program.autoresponder) {
+    return null;
+  }
+
+  const parsed = AutoresponderSchema.safeParse({ ...school.autoresponder, ...program.autoresponder });
+  if (!parsed.success || !parsed.data.enabled) {
+    return null;
+  }
+  return parsed.data;
+}
+
+export type LeadNotificationTarget = {
+  // "landing_page:<id>" or "campus:<id>"; digests are tracked per target
+  key: string;
+  name: string;
+  settings: NotificationSettings;
+};
+
+/** Where staff notifications for a lead go: the landing page's settings win over the campus's. */
+export function resolveLeadNotificationTarget(
+  config: Config,
+  lead: { schoolId: string; programId: string; campusId: string | null }
+): LeadNotificationTarget | null {
+  const landingPage = config.landingPages.find(
+    (item) => item.schoolId === lead.schoolId && item.programId === lead.programId
+  );
+  if (landingPage?.notifications) {
+    const program = config.programs.find((item) => item.id === landingPage.programId);
+    return {
+      key: `landing_page:${landingPage.id}`,
+      name: program ? `${program.name} landing page` : landingPage.id,
+      settings: landingPage.notifications
+    };
+  }
+
+  const campus = lead.campusId
+    ? config.campuses.find((item) => item.id === lead.campusId && item.schoolId === lead.schoolId)
+    : null;
+  if (campus?.notifications) {
+    return { key: `campus:${campus.id}`, name: campus.name, settings: campus.notifications };
+  }
+
+  return null;
+}
@@ -0,0 +1,204 @@
+import type { Config, LandingPage, Program, QuestionOverride } from "./schema";
+
+export type QuestionOption = {
+  label: string;
+  value: string;
+};
+
+export type Question = {
+  id: string;
+  type: "radio" | "checkbox" | "select" | "text" | "email" | "tel" | "textarea" | "slider";
+  label: string;
+  options?: QuestionOption[];
+  required?: boolean;
+  showIf?: {
+    questionId: string;
+    equals: string | string[];
+  };
+  mapTo?: "answers" | "campus_id";
+};
+
+// Server-side copy of the landing form's defaults (apps/web-landing/components/questions.ts);
+// keep the two in sync so answers can be labelled outside the browser.
+export const DEFAULT_QUESTIONS: Question[] = [
+  {
+    id: "program_interest",
+    type: "select",
+    label: "Which program are you interested in?",
+    required: true,
+    options: []
+  },
+  {
+    id: "campus_selection",
+    type: "select",
+    label: "Preferred campus",
+    required: true,
+    options: []
+  },
+  {
+    id: "start_timeline",
+    type: "radio",
+    label: "When would you like to start?",
+    required: true,
+    options: [
+      { label: "Within 30 days", value: "30_days" },
+      { label: "1-3 months", value: "1_3_months" },
+      { label: "3+ months", value: "3_plus_months" }
+    ]
+  },
+  {
+    id: "schedule_preference",
+    type: "checkbox",
+    label: "Which schedules work for you?",
+    options: [
+      { label: "Daytime", value: "daytime" },
+      { label: "Evening", value: "evening" },
+      { label: "Weekend", value: "weekend" }
+    ]
+  },
+  {
+    id: "financial_aid",
+    type: "radio",
+    label: "Do you plan to use financial aid?",
+    required: true,
+    options: [
+      { label: "Yes", value: "yes" },
+      { label: "No", value: "no" },
+      { label: "Not sure", value: "not_sure" }
+    ]
+  },
+  {
+    id: "education_level",
+    type: "select",
+    label: "Highest level of education",
+    required: true,
+    options: [
+      { label: "Some high school", value: "some_high_school" },
+      { label: "High school diploma or GED", value: "high_school" },
+      { label: "Some college", value: "some_college" },
+      { label: "Associate degree", value: "associate" },
+      { label: "Bachelor's degree", value: "bachelor" }
+    ]
+  },
+  {
+    id: "support_needs",
+    type: "textarea",
+    label: "Anything else you'd like us to know?"
+  }
+];
+
+function applyOverrides(questions: Question[], overrides?: QuestionOverride[]) {
+  if (!overrides || overrides.length === 0) return questions;
+  const overrideMap = new Map(overrides.map((item) => [item.id, item]));
+
+  return questions
+    .map((question) => {
+      const override = overrideMap.get(question.id);
+      if (!override) return question;
+      if (override.hidden) return null;
+      return {
+        ...question,
+        label: override.label ?? question.label,
+        options: override.options ?? question.options,
+        required: override.required ?? question.required,
+        showIf: override.showIf ?? question.showIf
+      };
+    })
+    .filter(Boolean) as Question[];
+}
+
+/**
+ * The lead form questions a program's landing page shows, resolved the same way the landing app does:
+ * a custom leadForm replaces the defaults, otherwise landing page or program overrides apply to them.
+ */
+export function resolveLeadQuestions(config: Config, program: Program, landingPage?: LandingPage | null): Question[] {
+  const campusOptions = config.campuses
+    .filter((campus) => {
+      if (campus.schoolId !== program.schoolId) return false;
+      if (!program.availableCampuses || program.availableCampuses.length === 0) return true;
+      return program.availableCampuses.includes(campus.id);
+    })
+    .map((campus) => ({ label: campus.name, value: campus.id }))
+    .concat({ label: "Not sure yet", value: "not_sure" });
+
+  if (program.leadForm) {
+    return program.leadForm.fields.map((field) => ({
+      id: field.id,
+      type: field.type,
+      label: field.label,
+      required: field.required,
+      options:
+        field.mapTo === "campus_id" && (!field.options || field.options.length === 0) ? campusOptions : field.options,
+      mapTo: field.mapTo
+    }));
+  }
+
+  const programOptions = config.programs
+    .filter((item) => item.schoolId === program.schoolId)
+    .map((item) => ({ label: item.name, value: item.id }));
+
+  const overrides = landingPage?.overrides?.questionOverrides ?? program.questionOverrides ?? [];
+  const questions = DEFAULT_QUESTIONS.map((question) => {
+    if (question.id === "program_interest") return { ...question, options: programOptions };
+    if (question.id === "campus_selection") return { ...question, options: campusOptions, mapTo: "campus_id" as const };
+    return question;
+  });
+
+  return applyOverrides(questions, overrides);
+}
+
+/** Plausible answers for previews and test deliveries: the first real option(s) of each question. */
+export function buildSampleAnswers(questions: Question[]): Record<string, unknown> {
+  const answers: Record<string, unknown> = {};
+  for (const question of questions) {
+    if (question.mapTo === "campus_id") continue;
+    const options = (question.options || []).filter((option) => option.value !== "not_sure");
+    if (question.type === "checkbox") {
+      answers[question.id] = options.slice(0, 2).map((option) => option.value);
+    } else {
+      answers[question.id] = options[0]?.value ?? "Sample answer";
+    }
+  }
+  return answers;
+}
+
+export type LabelledAnswer = {
+  id: string;
+  label: string;
+  value: string;
+};
+
+// "start_date" -> "Start date", for answers no question describes (e.g. quiz or legacy fields).
+function humanizeKey(key: string) {
+  const words = key.replace(/[_-]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatAnswerValue(value: unknown, question?: Question): string {
+  if (Array.isArray(value)) {
+    return value.map((item) => formatAnswerValue(item, question)).join(", ");
+  }
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+
+  const option = question?.options?.find((item) => item.value === String(value));
+  return option ? option.label : String(value);
+}
+
+/** Answers in question order with question and option labels; unknown keys follow, humanized. */
+export function labelAnswers(questions: Question[], answers: Record<string, unknown> | null | undefined): LabelledAnswer[] {
+  const remaining = { ...(answers || {}) };
+  const labelled: LabelledAnswer[] = [];
+
+  for (const question of questions) {
+    if (!(question.id in remaining)) continue;
+    labelled.push({ id: question.id, label: question.label, value: formatAnswerValue(remaining[question.id], question) });
+    delete remaining[question.id];
+  }
+
+  for (const [key, value] of Object.entries(remaining)) {
+    labelled.push({ id: key, label: humanizeKey(key), value: formatAnswerValue(value) });
+  }
+
+  return labelled.filter((answer) => answer.value !== "");
+}
@@ -57,6 +57,66 @@ export const ThankYouSchema = z.object({
   ctaUrl: z.string().optional()
 });
 
+// Confirmation email to the prospect. Templates use {{mergeField}} placeholders, e.g. {{firstName}},
+// {{programName}}, {{thankYouMessage}} or {{answers.start_date}}.
+export const AutoresponderSchema = z.object({
+  enabled: z.boolean().default(true),
+  subject: z.string().min(1),
+  textTemplate: z.string().min(1),
+  htmlTemplate: z.string().optional(),
+  fromName: z.string().optional(),
+  replyTo: z.string().email().optional()
+});
+
+// Staff lead notification. Every part is optional and falls back to the built-in branded layout.
+// Besides the autoresponder merge fields, templates get {{campusName}}, {{submissionId}}, {{submittedAt}},
+// {{answersText}}, the branding colours ({{primaryColor}}, ...) and, in HTML, {{{answersHtml}}} and
+// {{{logoHtml}}} (triple braces insert markup unescaped).
+export const NotificationTemplateSchema = z.object({
+  subject: z.string().min(1).optional(),
+  textTemplate: z.string().min(1).optional(),
+  htmlTemplate: z.string().min(1).optional()
+});
+
+// Staff emails for a campus or landing page: one per lead ("instant") or a daily/weekly digest.
+export const NotificationSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  recipients: z.array(z.string()).default([]),
+  mode: z.enum(["instant", "daily", "weekly"]).default("instant")
+});
+
+export const CrmRoutingAnswerConditionSchema = z.object({
+  questionId: z.string().min(1),
+  equals: z.union([z.string(), z.array(z.string())])
+});
+
+// Every condition present must match; a list matches when any of its values does.
+export const CrmRoutingConditionSchema = z.object({
+  campusIds: z.array(z.string().min(1)).optional(),
+  programIds: z.array(z.string().min(1)).optional(),
+  routingTags: z.array(z.string().min(1)).optional(),
+  answers: z.array(CrmRoutingAnswerConditionSchema).optional()
+});
+
+export const CrmRoutingRuleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  when: CrmRoutingConditionSchema.default({}),
+  crmConnectionId: z.string().min(1)
+});
+
+// What happens when a lead matches an earlier submission. A match needs every `matchOn` value the lead has
+// (a lead without a phone is matched on email alone) to be equal, within `windowDays` (unset: any age) and
+// `scope`. The defaults keep one lead per person and program.
+export const DedupePolicySchema = z.object({
+  matchOn: z.array(z.enum(["email", "phone"])).min(1).default(["email", "phone"]),
+  windowDays: z.number().positive().optional(),
+  scope: z.enum(["program", "school", "client"]).default("program"),
+  // drop: keep only the earlier lead; merge: add the new answers to it and update the CRM lead;
+  // new_lead: create another lead, flagged as a repeat of the earlier one
+  action: z.enum(["drop", "merge", "new_lead"]).default("drop")
+});
+
 export const SchoolSchema = z.object({
   id: z.string().min(1),
   clientId: z.string().min(1),
@@ -65,8 +125,17 @@ export const SchoolSchema = z.object({
   branding: BrandingSchema,
   compliance: ComplianceSchema,
   crmConnectionId: z.string().min(1),
+  // ISO 3166-1 alpha-2 region for phone numbers entered without a country code
+  defaultPhoneCountry: z.string().regex(/^[A-Z]{2}$/).default("US"),
+  dedupe: DedupePolicySchema.default({}),
+  // Extra destinations that receive every lead alongside crmConnectionId (e.g. a data warehouse webhook)
+  additionalCrmConnectionIds: z.array(z.string().min(1)).default([]),
+  // Evaluated in order; the first match replaces crmConnectionId as the primary destination
+  routingRules: z.array(CrmRoutingRuleSchema).default([]),
   footerContent: FooterContentSchema.optional(),
-  thankYou: ThankYouSchema.optional()
+  thankYou: ThankYouSchema.optional(),
+  autoresponder: AutoresponderSchema.optional(),
+  notificationTemplate: NotificationTemplateSchema.optional()
 });
 
 export const CampusSchema = z.object({
@@ -75,12 +144,7 @@ export const CampusSchema = z.object({
   slug: z.string().min(1),
   name: z.string().min(1),
   routingTags: z.array(z.string()).default([]),
-  notifications: z
-    .object({
-      enabled: z.boolean().default(false),
-      recipients: z.array(z.string()).default([])
-    })
-    .optional()
+  notifications: NotificationSettingsSchema.optional()
 });
 
 export const LandingCopySchema = z.object({
@@ -211,7 +275,9 @@ export const ProgramSchema = z.object({
     }
   }),
   // Quiz routing
-  useQuizRouting: z.boolean().default(false)
+  useQuizRouting: z.boolean().default(false),
+  // Field-by-field override of the school's autoresponder
+  autoresponder: AutoresponderSchema.partial().optional()
 });
 
 export const LandingPageSchema = z.object({
@@ -225,20 +291,177 @@ export const LandingPageSchema = z.object({
       questionOverrides: z.array(QuestionOverrideSchema).optional()
     })
     .optional(),
-  notifications: z
+  notifications: NotificationSettingsSchema.optional()
+});
+
+// HMAC-SHA256 signing of webhook deliveries. The secret should come from `secretEnv`;
+// an inline `secret` is only intended for local development.
+export const WebhookSigningSchema = z
+  .object({
+    secretEnv: z.string().min(1).optional(),
+    secret: z.string().min(1).optional(),
+    signatureHeader: z.string().min(1).optional(),
+    timestampHeader: z.string().min(1).optional()
+  })
+  .refine((value) => Boolean(value.secretEnv || value.secret), "signing requires secretEnv or secret");
+
+export const WebhookCrmConfigSchema = z.object({
+  endpoint: z.string().min(1),
+  authHeaderName: z.string().optional(),
+  authHeaderEnv: z.string().optional(),
+  authHeaderValue: z.string().optional(),
+  leadIdField: z.string().min(1).default("id"),
+  signing: WebhookSigningSchema.optional()
+});
+
+// Generic CRM adapter: maps DeliveryPayload paths (e.g. "contact.email",
+// "answers.start_date", "metadata.utm.utm_source") to CRM field names.
+export const CrmFieldMapSchema = z.record(z.string().min(1));
+
+export const CrmActionFieldsSchema = z.object({
+  fields: CrmFieldMapSchema.optional()
+});
+
+export const CrmStaticFieldsSchema = z.record(z.union([z.string(), z.number(), z.boolean()]));
+
+export const GenericCrmActionSchema = CrmActionFieldsSchema.extend({
+  method: z.enum(["POST", "PUT", "PATCH"]).optional(),
+  url: z.string().min(1).optional()
+});
+
+export const GenericCrmConfigSchema = z.object({
+  url: z.string().min(1),
+  method: z.enum(["POST", "PUT", "PATCH"]).default("POST"),
+  headers: z.record(z.string()).default({}),
+  authHeaderName: z.string().optional(),
+  authHeaderEnv: z.string().optional(),
+  authHeaderValue: z.string().optional(),
+  bodyFormat: z.enum(["json", "form"]).default("json"),
+  fields: CrmFieldMapSchema.default({}),
+  staticFields: CrmStaticFieldsSchema.default({}),
+  create: GenericCrmActionSchema.optional(),
+  update: GenericCrmActionSchema.optional(),
+  leadIdField: z.string().min(1).default("id")
+});
+
+// Salesforce REST adapter. Credentials are read from env vars named in the config.
+export const SalesforceCrmConfigSchema = z
+  .object({
+    authFlow: z.enum(["client_credentials", "jwt_bearer"]).default("client_credentials"),
+    loginUrl: z.string().url().default("https://login.salesforce.com"),
+    apiVersion: z.string().regex(/^v\d+\.\d+$/).default("v60.0"),
+    clientId: z.string().min(1),
+    clientSecretEnv: z.string().min(1).optional(),
+    username: z.string().min(1).optional(),
+    privateKeyEnv: z.string().min(1).optional(),
+    tokenTtlSeconds: z.number().int().positive().default(1800),
+    sobject: z.string().min(1).default("Lead"),
+    fields: CrmFieldMapSchema.default({
+      "contact.firstName": "FirstName",
+      "contact.lastName": "LastName",
+      "contact.email": "Email",
+      "contact.phone": "Phone"
+    }),
+    staticFields: CrmStaticFieldsSchema.default({}),
+    create: CrmActionFieldsSchema.optional(),
+    update: CrmActionFieldsSchema.optional()
+  })
+  .superRefine((value, ctx) => {
+    if (value.authFlow === "client_credentials" && !value.clientSecretEnv) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["clientSecretEnv"],
+        message: "clientSecretEnv is required for client_credentials"
+      });
+    }
+    if (value.authFlow === "jwt_bearer") {
+      if (!value.username) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["username"], message: "username is required for jwt_bearer" });
+      }
+      if (!value.privateKeyEnv) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["privateKeyEnv"],
+          message: "privateKeyEnv is required for jwt_bearer"
+        });
+      }
+    }
+  });
+
+// HubSpot contacts adapter. Contacts are upserted with the lead's email as the id, whatever `fields` maps.
+// `stepProperty` names a contact property that receives the index of the last completed form step.
+export const HubspotCrmConfigSchema = z.object({
+  baseUrl: z.string().url().default("https://api.hubapi.com"),
+  accessTokenEnv: z.string().min(1),
+  fields: CrmFieldMapSchema.default({
+    "contact.firstName": "firstname",
+    "contact.lastName": "lastname",
+    "contact.email": "email",
+    "contact.phone": "phone"
+  }),
+  staticFields: CrmStaticFieldsSchema.default({}),
+  create: CrmActionFieldsSchema.optional(),
+  update: CrmActionFieldsSchema.optional(),
+  stepProperty: z.string().min(1).optional()
+});
+
+// Worker-side throttling for a connection; unset values fall back to worker env defaults.
+export const CrmDeliveryPolicySchema = z.object({
+  requestsPerSecond: z.number().positive().optional(),
+  circuitBreaker: z
     .object({
-      enabled: z.boolean().default(false),
-      recipients: z.array(z.string()).default([])
+      failureThreshold: z.number().int().min(1).optional(),
+      cooldownSeconds: z.number().positive().optional()
     })
     .optional()
 });
 
-export const CrmConnectionSchema = z.object({
-  id: z.string().min(1),
-  type: z.enum(["webhook", "generic"]),
-  config: z.record(z.any()).optional()
+// Lead lifecycle reported back by the CRM after delivery, in funnel order.
+export const LeadLifecycleStatusSchema = z.enum(["contacted", "appointment_set", "applied", "enrolled", "disqualified"]);
+
+// Inbound status webhook: the CRM signs its callbacks the same way we sign outgoing webhooks.
+// `statusMap` translates the CRM's own status names (e.g. "Working - Contacted") to lifecycle statuses.
+export const CrmStatusWebhookSchema = z
+  .object({
+    secretEnv: z.string().min(1).optional(),
+    secret: z.string().min(1).optional(),
+    signatureHeader: z.string().min(1).optional(),
+    timestampHeader: z.string().min(1).optional(),
+    statusMap: z.record(LeadLifecycleStatusSchema).default({})
+  })
+  .refine((value) => Boolean(value.secretEnv || value.secret), "statusWebhook requires secretEnv or secret");
+
+// Body sent by webhook connections. `version` pins a released payload shape so worker changes do not
+// break receiving endpoints; `transform` is a JSON template applied to that body, where "{{path}}"
+// placeholders read from it (plus school/campus/program names) and a "..." key spreads an object in.
+export const CrmPayloadFormatSchema = z.object({
+  version: z.enum(["v1", "v2"]).default("v1"),
+  transform: z.record(z.unknown()).optional()
 });
 
+export const CrmConnectionSchema = z
+  .object({
+    id: z.string().min(1),
+    type: z.enum(["webhook", "generic", "salesforce", "hubspot"]),
+    config: z.record(z.any()).optional(),
+    delivery: CrmDeliveryPolicySchema.optional(),
+    statusWebhook: CrmStatusWebhookSchema.optional(),
+    payload: CrmPayloadFormatSchema.optional()
+  })
+  .refine((value) => !value.payload || value.type === "webhook", {
+    path: ["payload"],
+    message: "payload is only supported for webhook connections; other types map fields instead"
+  })
+  // Webhook settings are checked when the config loads; the other adapters validate theirs per delivery.
+  .superRefine((value, ctx) => {
+    if (value.type !== "webhook") return;
+    const parsed = WebhookCrmConfigSchema.safeParse(value.config ?? {});
+    if (parsed.success) return;
+    for (const issue of parsed.error.issues) {
+      ctx.addIssue({ ...issue, path: ["config", ...issue.path] });
+    }
+  });
+
 // Quiz Builder schemas
 export const QuizQuestionSchema = z.object({
   id: z.string().min(1),
@@ -282,6 +505,18 @@ export type Campus = z.infer<typeof CampusSchema>;
 export type Program = z.infer<typeof ProgramSchema>;
 export type LandingPage = z.infer<typeof LandingPageSchema>;
 export type CrmConnection = z.infer<typeof CrmConnectionSchema>;
+export type CrmDeliveryPolicy = z.infer<typeof CrmDeliveryPolicySchema>;
+export type CrmStatusWebhook = z.infer<typeof CrmStatusWebhookSchema>;
+export type CrmPayloadFormat = z.infer<typeof CrmPayloadFormatSchema>;
+export type LeadLifecycleStatus = z.infer<typeof LeadLifecycleStatusSchema>;
+export type CrmRoutingCondition = z.infer<typeof CrmRoutingConditionSchema>;
+export type CrmRoutingRule = z.infer<typeof CrmRoutingRuleSchema>;
+export type DedupePolicy = z.infer<typeof DedupePolicySchema>;
+export type WebhookSigning = z.infer<typeof WebhookSigningSchema>;
+export type WebhookCrmConfig = z.infer<typeof WebhookCrmConfigSchema>;
+export type GenericCrmConfig = z.infer<typeof GenericCrmConfigSchema>;
+export type SalesforceCrmConfig = z.infer<typeof SalesforceCrmConfigSchema>;
+export type HubspotCrmConfig = z.infer<typeof HubspotCrmConfigSchema>;
 
 // Enhanced landing page types
 export type ProgramHighlight = z.infer<typeof ProgramHighlightSchema>;
@@ -289,6 +524,7 @@ export type ProgramTestimonial = z.infer<typeof ProgramTestimonialSchema>;
 export type ProgramFAQ = z.infer<typeof ProgramFAQSchema>;
 export type ProgramStats = z.infer<typeof ProgramStatsSchema>;
 export type SectionsConfig = z.infer<typeof SectionsConfigSchema>;
+export type QuestionOverride = z.infer<typeof QuestionOverrideSchema>;
 export type LeadFormField = z.infer<typeof LeadFormFieldSchema>;
 export type LeadFormConfig = z.infer<typeof LeadFormConfigSchema>;
 
@@ -297,3 +533,6 @@ export type QuizQuestion = z.infer<typeof QuizQuestionSchema>;
 export type QuizAnswerOption = z.infer<typeof QuizAnswerOptionSchema>;
 export type FooterContent = z.infer<typeof FooterContentSchema>;
 export type ThankYou = z.infer<typeof ThankYouSchema>;
+export type Autoresponder = z.infer<typeof AutoresponderSchema>;
+export type NotificationTemplate = z.infer<typeof NotificationTemplateSchema>;
+export type NotificationSettings = z.infer<typeof NotificationSettingsSchema>;
@@ -0,0 +1,168 @@
+import { labelAnswers, type Question } from "./questions";
+import type { Campus, NotificationTemplate, Program, School } from "./schema";
+
+export type MergeFields = Record<string, string>;
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Replaces {{field}} placeholders; unknown fields render empty. HTML templates get escaped values,
+ * except {{{field}}}, which inserts pre-rendered markup as is.
+ */
+export function renderTemplate(template: string, fields: MergeFields, options: { html?: boolean } = {}) {
+  return template.replace(/\{\{(\{?)\s*([\w.-]+)\s*\}\}(\}?)/g, (match, open: string, key: string, close: string) => {
+    if (Boolean(open) !== Boolean(close)) return match;
+    const value = fields[key] ?? "";
+    return options.html && !open ? escapeHtml(value) : value;
+  });
+}
+
+export type NotificationSubmission = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string | null;
+  answers: Record<string, unknown> | null;
+  created_at?: Date | string | null;
+};
+
+export type NotificationEmailInput = {
+  school: School;
+  campus: Campus | null;
+  program: Program;
+  questions: Question[];
+  submission: NotificationSubmission;
+  // Resolves logo paths like "/logos/northwood.svg", which mail clients cannot load on their own.
+  assetBaseUrl?: string;
+};
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+const DEFAULT_SUBJECT = "New lead: {{programName}} ({{campusName}})";
+
+const DEFAULT_TEXT_TEMPLATE = `New lead for {{schoolName}}
+
+Program: {{programName}}
+Campus: {{campusName}}
+Submitted: {{submittedAt}}
+
+Name: {{firstName}} {{lastName}}
+Email: {{email}}
+Phone: {{phone}}
+
+{{answersText}}
+
+Submission ID: {{submissionId}}`;
+
+const DEFAULT_HTML_TEMPLATE = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:{{backgroundColor}};font-family:Arial,Helvetica,sans-serif;color:{{textColor}};">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+      <tr>
+        <td style="background:{{primaryColor}};padding:20px 24px;color:#ffffff;">
+          {{{logoHtml}}}
+          <div style="font-size:20px;font-weight:bold;">New lead for {{schoolName}}</div>
+          <div style="font-size:14px;opacity:0.9;">{{programName}} &middot; {{campusName}}</div>
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:24px;">
+          <h2 style="margin:0 0 12px;font-size:16px;color:{{secondaryColor}};">Contact</h2>
+          <p style="margin:0 0 4px;"><strong>{{firstName}} {{lastName}}</strong></p>
+          <p style="margin:0 0 4px;"><a href="mailto:{{email}}" style="color:{{primaryColor}};">{{email}}</a></p>
+          <p style="margin:0 0 20px;">{{phone}}</p>
+          <h2 style="margin:0 0 12px;font-size:16px;color:{{secondaryColor}};">Answers</h2>
+          {{{answersHtml}}}
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:12px 24px;border-top:4px solid {{accentColor}};font-size:12px;color:#6b6b6b;">
+          Submitted {{submittedAt}} &middot; Submission ID {{submissionId}}
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+function resolveAssetUrl(url: string, baseUrl?: string) {
+  if (!url.startsWith("/")) return url;
+  return baseUrl ? `${baseUrl.replace(/\/+$/, "")}${url}` : "";
+}
+
+export function formatUtcTimestamp(value?: Date | string | null) {
+  const date = value ? new Date(value) : new Date();
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+export function buildNotificationFields(input: NotificationEmailInput): MergeFields {
+  const { school, campus, program, submission } = input;
+  const colors = school.branding.colors;
+  const answers = labelAnswers(input.questions, submission.answers);
+  const logoUrl = school.branding.logoUrl ? resolveAssetUrl(school.branding.logoUrl, input.assetBaseUrl) : "";
+
+  const fields: MergeFields = {
+    firstName: submission.first_name,
+    lastName: submission.last_name,
+    email: submission.email,
+    phone: submission.phone || "",
+    schoolName: school.name,
+    campusName: campus?.name || "Unspecified campus",
+    programName: program.name,
+    submissionId: submission.id,
+    submittedAt: formatUtcTimestamp(submission.created_at),
+    primaryColor: colors.primary,
+    secondaryColor: colors.secondary,
+    accentColor: colors.accent || colors.secondary,
+    backgroundColor: colors.background || "#f4f4f4",
+    textColor: colors.text || "#1b1b1b",
+    logoUrl,
+    logoHtml: logoUrl
+      ? `<img src="${escapeHtml(logoUrl)}" alt="${escapeHtml(school.name)}" height="40" style="display:block;margin-bottom:12px;border:0;" />`
+      : "",
+    answersText: answers.length
+      ? ["Answers:", ...answers.map((answer) => `- ${answer.label}: ${answer.value}`)].join("\n")
+      : "No answers provided.",
+    answersHtml: answers.length
+      ? `<table role="presentation" width="100%" cellpadding="6" cellspacing="0" style="border-collapse:collapse;font-size:14px;">${answers
+          .map(
+            (answer) =>
+              `<tr><td style="border-bottom:1px solid #e5e5e5;color:#6b6b6b;width:45%;vertical-align:top;">${escapeHtml(
+                answer.label
+              )}</td><td style="border-bottom:1px solid #e5e5e5;vertical-align:top;">${escapeHtml(answer.value)}</td></tr>`
+          )
+          .join("")}</table>`
+      : `<p style="margin:0;">No answers provided.</p>`
+  };
+
+  for (const answer of answers) {
+    fields[`answers.${answer.id}`] = answer.value;
+  }
+
+  return fields;
+}
+
+/** Staff notification for a lead; the school's notificationTemplate (or the given draft) overrides the built-in layout. */
+export function buildNotificationEmail(
+  input: NotificationEmailInput,
+  template: NotificationTemplate | undefined = input.school.notificationTemplate
+): RenderedEmail {
+  const fields = buildNotificationFields(input);
+
+  return {
+    subject: renderTemplate(template?.subject || DEFAULT_SUBJECT, fields),
+    text: renderTemplate(template?.textTemplate || DEFAULT_TEXT_TEMPLATE, fields),
+    html: renderTemplate(template?.htmlTemplate || DEFAULT_HTML_TEMPLATE, fields, { html: true })
+  };
+}
@@ -0,0 +1,83 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { loadConfig, validateAnswers, validateLeadAnswers, type Question } from "../src";
+
+const config = loadConfig(path.resolve(__dirname, "../../../configs"));
+const welding = config.programs.find((program) => program.id === "program_welding")!;
+
+const complete = {
+  program_interest: "program_welding",
+  campus_selection: "campus_downtown",
+  start_timeline: "30_days",
+  financial_aid: "yes",
+  education_level: "high_school"
+};
+
+describe("validateLeadAnswers", () => {
+  it("accepts answers that match the program's lead form", () => {
+    const result = validateLeadAnswers(config, welding, { ...complete, schedule_preference: ["evening"] });
+
+    expect(result).toEqual({ ok: true, answers: { ...complete, schedule_preference: ["evening"] } });
+  });
+
+  it("reports unknown keys, wrong types, unlisted options and missing required answers per field", () => {
+    const { start_timeline: _omitted, ...answers } = complete;
+    const result = validateLeadAnswers(config, welding, {
+      ...answers,
+      financial_aid: "maybe",
+      schedule_preference: "evening",
+      favorite_color: "blue"
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      fieldErrors: {
+        financial_aid: "Choose from the listed options",
+        schedule_preference: "Choose one or more options",
+        favorite_color: "Unknown question",
+        start_timeline: "This question is required"
+      }
+    });
+  });
+
+  it("only checks the answers sent by a step, and keeps quiz answers", () => {
+    const result = validateLeadAnswers(
+      config,
+      welding,
+      { support_needs: "Evening classes only", quiz_q1: "opt_a", recommended_program: "program_welding" },
+      { partial: true }
+    );
+
+    expect(result.ok).toBe(true);
+  });
+});
+
+describe("validateAnswers", () => {
+  const questions: Question[] = [
+    { id: "employed", type: "radio", label: "Employed?", required: true, options: [{ label: "Yes", value: "yes" }, { label: "No", value: "no" }] },
+    { id: "employer", type: "text", label: "Employer", required: true, showIf: { questionId: "employed", equals: "yes" } },
+    { id: "contact_email", type: "email", label: "Work email" }
+  ];
+
+  it("honors showIf for required questions and drops answers to hidden ones", () => {
+    expect(validateAnswers(questions, { employed: "no", employer: "Acme" })).toEqual({
+      ok: true,
+      answers: { employed: "no" }
+    });
+    expect(validateAnswers(questions, { employed: "yes" })).toEqual({
+      ok: false,
+      fieldErrors: { employer: "This question is required" }
+    });
+  });
+
+  it("evaluates showIf against earlier steps for partial updates", () => {
+    expect(validateAnswers(questions, { employer: "Acme" }, { partial: true, previousAnswers: { employed: "yes" } })).toEqual({
+      ok: true,
+      answers: { employer: "Acme" }
+    });
+    expect(validateAnswers(questions, { contact_email: "not-an-email" }, { partial: true })).toEqual({
+      ok: false,
+      fieldErrors: { contact_email: "Enter a valid email address" }
+    });
+  });
+});
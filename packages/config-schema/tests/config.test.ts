@@ -1,6 +1,6 @@
 import path from "path";
 import { describe, expect, it } from "vitest";
-import { loadConfig, resolveLandingPageBySlugs } from "../src";
+import { CrmConnectionSchema, loadConfig, resolveLandingPageBySlugs } from "../src";
 
 const configDir = path.resolve(__dirname, "../../../configs");
 
@@ -13,4 +13,19 @@ describe("config validation", () => {
     expect(resolved?.school.name).toContain("Northwood");
     expect(resolved?.program.name).toContain("Medical");
   });
+
+  it("validates webhook connection settings", () => {
+    const webhook = { id: "crm-1", type: "webhook", config: { endpoint: "https://crm.example/leads" } };
+    expect(CrmConnectionSchema.safeParse(webhook).success).toBe(true);
+
+    const result = CrmConnectionSchema.safeParse({
+      ...webhook,
+      config: { authHeaderName: "X-Api-Key", signing: { signatureHeader: "X-Sig" } }
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.path.join("."))).toEqual(["config.endpoint", "config.signing"]);
+
+    // Other adapters validate their own settings when they deliver.
+    expect(CrmConnectionSchema.safeParse({ id: "crm-2", type: "hubspot", config: {} }).success).toBe(true);
+  });
 });
@@ -0,0 +1,68 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { buildNotificationEmail, loadConfig, resolveEntitiesByIds, resolveLeadQuestions } from "../src";
+
+const config = loadConfig(path.resolve(__dirname, "../../../configs"));
+const entities = resolveEntitiesByIds(config, "school_northwood", "campus_downtown", "program_welding")!;
+const questions = resolveLeadQuestions(config, entities.program);
+
+const submission = {
+  id: "sub-1",
+  first_name: "Ada",
+  last_name: "<Lovelace>",
+  email: "ada@example.com",
+  phone: null,
+  answers: {
+    program_interest: "program_welding",
+    schedule_preference: ["evening", "weekend"],
+    financial_aid: "not_sure",
+    referral_source: "radio ad"
+  },
+  created_at: "2026-03-02T15:04:05Z"
+};
+
+describe("buildNotificationEmail", () => {
+  it("names entities and labels answers instead of dumping ids", () => {
+    const email = buildNotificationEmail({ ...entities, questions, submission });
+
+    expect(email.subject).toBe("New lead: Welding Technology (Downtown Campus)");
+    expect(email.text).toContain("Campus: Downtown Campus");
+    expect(email.text).toContain("- Which program are you interested in?: Welding Technology");
+    expect(email.text).toContain("- Which schedules work for you?: Evening, Weekend");
+    expect(email.text).toContain("- Referral source: radio ad");
+    expect(email.text).toContain("Submitted: 2026-03-02 15:04 UTC");
+    expect(email.text).not.toContain("campus_downtown");
+  });
+
+  it("applies school branding and escapes submitted values in HTML", () => {
+    const email = buildNotificationEmail({ ...entities, questions, submission });
+
+    expect(email.html).toContain(`background:${entities.school.branding.colors.primary}`);
+    expect(email.html).toContain(`<img src="${entities.school.branding.logoUrl}"`);
+    expect(email.html).toContain("Ada &lt;Lovelace&gt;");
+    expect(email.html).toContain("<td style=\"border-bottom:1px solid #e5e5e5;vertical-align:top;\">Not sure</td>");
+  });
+
+  it("uses the school's template override", () => {
+    const school = {
+      ...entities.school,
+      branding: { ...entities.school.branding, logoUrl: "/logos/northwood.svg" },
+      notificationTemplate: {
+        subject: "Lead for {{programName}}: {{firstName}}",
+        htmlTemplate: "<h1>{{lastName}}</h1>{{{logoHtml}}}{{{answersHtml}}}"
+      }
+    };
+    const email = buildNotificationEmail({
+      ...entities,
+      school,
+      questions,
+      submission,
+      assetBaseUrl: "https://apply.northwood.edu/"
+    });
+
+    expect(email.subject).toBe("Lead for Welding Technology: Ada");
+    expect(email.html).toMatch(/^<h1>&lt;Lovelace&gt;<\/h1><img src="https:\/\/apply\.northwood\.edu\/logos\/northwood\.svg"/);
+    expect(email.html).toContain("<table");
+    expect(email.text).toContain("New lead for Northwood");
+  });
+});
@@ -0,0 +1,19 @@
+import { startMockCrm } from "./index";
+
+const apiKeyHeader = process.env.MOCK_CRM_API_KEY_HEADER || "X-Api-Key";
+const apiKey = process.env.MOCK_CRM_API_KEY;
+
+startMockCrm({
+  port: Number(process.env.MOCK_CRM_PORT || 4010),
+  host: process.env.MOCK_CRM_HOST || "0.0.0.0",
+  idPrefix: process.env.MOCK_CRM_ID_PREFIX || "lead",
+  latencyMs: Number(process.env.MOCK_CRM_LATENCY_MS || 0),
+  apiKey: apiKey ? { header: apiKeyHeader, value: apiKey } : undefined
+})
+  .then((mock) => {
+    console.log(`Mock CRM listening on ${mock.url}`);
+  })
+  .catch((error) => {
+    console.error("Mock CRM failed to start", error);
+    process.exit(1);
+  });
@@ -0,0 +1,213 @@
+import http from "http";
+import type { AddressInfo } from "net";
+
+/** How the mock answers one request. Unset fields fall back to a normal create/update response. */
+export type MockCrmResponse = {
+  status?: number;
+  // Replaces the default `{ id }` body
+  body?: unknown;
+  delayMs?: number;
+  // Sent as the Retry-After header, typically with a 429
+  retryAfterSeconds?: number;
+  // Never answer, so the caller's timeout fires
+  hang?: boolean;
+};
+
+export type MockCrmOptions = {
+  port?: number;
+  host?: string;
+  // Ids are `${idPrefix}-${n}`
+  idPrefix?: string;
+  // Dotted path the id is returned under, e.g. "data.leadId"
+  idField?: string;
+  latencyMs?: number;
+  // Requests without this header and value get a 401
+  apiKey?: { header: string; value: string };
+  defaultResponse?: MockCrmResponse;
+};
+
+export type RecordedRequest = {
+  seq: number;
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  // The body parsed as JSON (or form fields), when it is either
+  json: unknown;
+  action: "create" | "update";
+  leadId: string | null;
+  // null while a hung request is still open
+  status: number | null;
+  receivedAt: string;
+};
+
+export type MockCrm = {
+  url: string;
+  requests: RecordedRequest[];
+  // Queues responses for the next requests, one each, ahead of the default response
+  respondWith(...responses: MockCrmResponse[]): void;
+  setDefaultResponse(response?: MockCrmResponse): void;
+  reset(): void;
+  close(): Promise<void>;
+};
+
+const CONTROL_PREFIX = "/__mock";
+
+function setByPath(target: Record<string, unknown>, path: string, value: unknown) {
+  const segments = path.split(".").filter(Boolean);
+  let current = target;
+  segments.slice(0, -1).forEach((segment) => {
+    current[segment] = current[segment] && typeof current[segment] === "object" ? current[segment] : {};
+    current = current[segment] as Record<string, unknown>;
+  });
+  current[segments[segments.length - 1]] = value;
+  return target;
+}
+
+function parseBody(body: string, contentType = ""): unknown {
+  if (!body) return null;
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+function readBody(req: http.IncomingMessage) {
+  return new Promise<string>((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Starts a CRM stand-in. `POST <any path>` creates a lead; `PUT`/`PATCH` (or `POST`) on `<path>/<lead id>`
+ * updates it. Every request is recorded, and `/__mock/*` lets out-of-process callers script and inspect it.
+ */
+export async function startMockCrm(options: MockCrmOptions = {}): Promise<MockCrm> {
+  const idPrefix = options.idPrefix || "lead";
+  const idField = options.idField || "id";
+  const leads = new Map<string, unknown>();
+  const scripted: MockCrmResponse[] = [];
+  let defaultResponse: MockCrmResponse = options.defaultResponse || {};
+  let nextId = 1;
+
+  const mock: MockCrm = {
+    url: "",
+    requests: [],
+    respondWith(...responses) {
+      scripted.push(...responses);
+    },
+    setDefaultResponse(response = {}) {
+      defaultResponse = response;
+    },
+    reset() {
+      mock.requests.length = 0;
+      scripted.length = 0;
+      leads.clear();
+      nextId = 1;
+    },
+    close() {
+      return new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+    }
+  };
+
+  async function handleControl(req: http.IncomingMessage, res: http.ServerResponse, path: string) {
+    if (req.method === "GET" && path === `${CONTROL_PREFIX}/healthz`) {
+      return sendJson(res, 200, { status: "ok" });
+    }
+    if (req.method === "GET" && path === `${CONTROL_PREFIX}/requests`) {
+      return sendJson(res, 200, { requests: mock.requests });
+    }
+    if (req.method === "DELETE" && path === `${CONTROL_PREFIX}/requests`) {
+      mock.reset();
+      return sendJson(res, 200, { status: "ok" });
+    }
+    if (req.method === "POST" && path === `${CONTROL_PREFIX}/responses`) {
+      const parsed = parseBody(await readBody(req));
+      mock.respondWith(...((Array.isArray(parsed) ? parsed : [parsed || {}]) as MockCrmResponse[]));
+      return sendJson(res, 200, { queued: scripted.length });
+    }
+    if (req.method === "PUT" && path === `${CONTROL_PREFIX}/default`) {
+      mock.setDefaultResponse((parseBody(await readBody(req)) || {}) as MockCrmResponse);
+      return sendJson(res, 200, { status: "ok" });
+    }
+    return sendJson(res, 404, { error: "Unknown mock control endpoint" });
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const path = new URL(req.url || "/", "http://mock-crm").pathname;
+    if (path.startsWith(CONTROL_PREFIX)) {
+      return handleControl(req, res, path);
+    }
+
+    const body = await readBody(req);
+    const method = req.method || "GET";
+    const lastSegment = decodeURIComponent(path.split("/").filter(Boolean).pop() || "");
+    const isUpdate = method === "PUT" || method === "PATCH" || (method === "POST" && leads.has(lastSegment));
+    const recorded: RecordedRequest = {
+      seq: mock.requests.length + 1,
+      method,
+      path,
+      headers: req.headers,
+      body,
+      json: parseBody(body, req.headers["content-type"]),
+      action: isUpdate ? "update" : "create",
+      leadId: isUpdate ? lastSegment : null,
+      status: null,
+      receivedAt: new Date().toISOString()
+    };
+    mock.requests.push(recorded);
+
+    const response = { ...defaultResponse, ...scripted.shift() };
+    const delayMs = (options.latencyMs || 0) + (response.delayMs || 0);
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+    if (response.hang) return;
+
+    const reply = (status: number, replyBody: unknown) => {
+      recorded.status = status;
+      const headers: Record<string, string> = {};
+      if (response.retryAfterSeconds !== undefined) {
+        headers["Retry-After"] = String(response.retryAfterSeconds);
+      }
+      sendJson(res, status, replyBody, headers);
+    };
+
+    if (options.apiKey && req.headers[options.apiKey.header.toLowerCase()] !== options.apiKey.value) {
+      return reply(401, { error: "Unauthorized" });
+    }
+    if (response.status && response.status >= 400) {
+      return reply(response.status, response.body ?? { error: http.STATUS_CODES[response.status] || "Error" });
+    }
+    if (isUpdate && !leads.has(lastSegment)) {
+      return reply(404, { error: "Lead not found" });
+    }
+
+    const leadId = isUpdate ? lastSegment : `${idPrefix}-${nextId++}`;
+    recorded.leadId = leadId;
+    leads.set(leadId, recorded.json);
+    reply(response.status || (isUpdate ? 200 : 201), response.body ?? setByPath({}, idField, leadId));
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, options.host || "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  mock.url = `http://${options.host && options.host !== "0.0.0.0" ? options.host : "127.0.0.1"}:${port}`;
+  return mock;
+}
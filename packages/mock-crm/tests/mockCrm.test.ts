@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { startMockCrm, type MockCrm } from "../src/index";
+
+let mock: MockCrm | null = null;
+
+afterEach(async () => {
+  await mock?.close();
+  mock = null;
+});
+
+function post(path: string, body: unknown, init: RequestInit = {}) {
+  return fetch(`${mock!.url}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    ...init
+  });
+}
+
+describe("mock CRM", () => {
+  it("creates and updates leads and records what it received", async () => {
+    mock = await startMockCrm({ idPrefix: "crm", idField: "data.leadId" });
+
+    const created = await post("/leads", { email: "ada@example.com" });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toEqual({ data: { leadId: "crm-1" } });
+
+    const updated = await post("/leads/crm-1", { step: 2 }, { method: "PATCH" });
+    expect(updated.status).toBe(200);
+
+    const missing = await post("/leads/crm-404", { step: 2 }, { method: "PATCH" });
+    expect(missing.status).toBe(404);
+
+    expect(mock.requests.map(({ action, leadId, status }) => ({ action, leadId, status }))).toEqual([
+      { action: "create", leadId: "crm-1", status: 201 },
+      { action: "update", leadId: "crm-1", status: 200 },
+      { action: "update", leadId: "crm-404", status: 404 }
+    ]);
+    expect(mock.requests[0].json).toEqual({ email: "ada@example.com" });
+  });
+
+  it("plays scripted responses in order, including 429 with Retry-After", async () => {
+    mock = await startMockCrm();
+    mock.respondWith({ status: 429, retryAfterSeconds: 30 }, { status: 503 });
+
+    const limited = await post("/leads", {});
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("retry-after")).toBe("30");
+    expect((await post("/leads", {})).status).toBe(503);
+    expect((await post("/leads", {})).status).toBe(201);
+  });
+
+  it("can be scripted over HTTP and hang until the caller times out", async () => {
+    mock = await startMockCrm();
+    const queued = await post("/__mock/responses", [{ hang: true }]);
+    expect(await queued.json()).toEqual({ queued: 1 });
+
+    await expect(post("/leads", {}, { signal: AbortSignal.timeout(100) })).rejects.toThrow();
+
+    const inspected = await fetch(`${mock.url}/__mock/requests`);
+    const { requests } = await inspected.json();
+    expect(requests).toHaveLength(1);
+    expect(requests[0].status).toBeNull();
+  });
+
+  it("rejects requests without the configured API key", async () => {
+    mock = await startMockCrm({ apiKey: { header: "X-Api-Key", value: "change-me" } });
+
+    expect((await post("/leads", {})).status).toBe(401);
+    expect((await post("/leads", {}, { headers: { "X-Api-Key": "change-me" } })).status).toBe(201);
+  });
+});
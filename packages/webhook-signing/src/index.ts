@@ -0,0 +1,80 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const DEFAULT_SIGNATURE_HEADER = "X-LeadLander-Signature";
+export const DEFAULT_TIMESTAMP_HEADER = "X-LeadLander-Timestamp";
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const SIGNATURE_VERSION = "v1";
+
+export type SignatureVerification =
+  | { ok: true }
+  | { ok: false; reason: "missing_signature" | "invalid_timestamp" | "timestamp_out_of_range" | "signature_mismatch" };
+
+/**
+ * Computes the hex HMAC-SHA256 of `${timestamp}.${body}`.
+ * The body must be the exact bytes sent over the wire.
+ */
+export function computeSignature(secret: string, timestamp: number | string, body: string) {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Builds the signature and timestamp header values for an outgoing request.
+ * The signature header is formatted as `v1=<hex>`.
+ */
+export function signPayload(input: { secret: string; body: string; timestamp?: number }) {
+  const timestamp = input.timestamp ?? Math.floor(Date.now() / 1000);
+  const signature = `${SIGNATURE_VERSION}=${computeSignature(input.secret, timestamp, input.body)}`;
+  return { signature, timestamp: String(timestamp) };
+}
+
+function parseSignatures(header: string) {
+  return header
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.startsWith(`${SIGNATURE_VERSION}=`))
+    .map((part) => part.slice(SIGNATURE_VERSION.length + 1));
+}
+
+function safeEqualHex(expected: string, candidate: string) {
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const candidateBuffer = Buffer.from(candidate, "hex");
+  if (expectedBuffer.length !== candidateBuffer.length || expectedBuffer.length === 0) {
+    return false;
+  }
+  return timingSafeEqual(expectedBuffer, candidateBuffer);
+}
+
+/**
+ * Verifies a signed delivery on the receiving side.
+ * Rejects timestamps outside the tolerance window so captured requests cannot be replayed later.
+ * The signature header may list several `v1=` values (comma separated) during secret rotation.
+ */
+export function verifySignature(input: {
+  secret: string;
+  body: string;
+  signature: string | null | undefined;
+  timestamp: string | null | undefined;
+  toleranceSeconds?: number;
+  now?: number;
+}): SignatureVerification {
+  if (!input.signature) {
+    return { ok: false, reason: "missing_signature" };
+  }
+
+  const timestamp = Number(input.timestamp);
+  if (!input.timestamp || !Number.isInteger(timestamp)) {
+    return { ok: false, reason: "invalid_timestamp" };
+  }
+
+  const tolerance = input.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const nowSeconds = Math.floor((input.now ?? Date.now()) / 1000);
+  if (Math.abs(nowSeconds - timestamp) > tolerance) {
+    return { ok: false, reason: "timestamp_out_of_range" };
+  }
+
+  const expected = computeSignature(input.secret, timestamp, input.body);
+  const matches = parseSignatures(input.signature).some((candidate) => safeEqualHex(expected, candidate));
+
+  return matches ? { ok: true } : { ok: false, reason: "signature_mismatch" };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { computeSignature, signPayload, verifySignature } from "../src";
+
+const secret = "test-secret";
+const body = JSON.stringify({ submissionId: "sub-1" });
+
+describe("webhook signing", () => {
+  it("verifies a freshly signed payload", () => {
+    const now = Date.UTC(2026, 0, 1);
+    const signed = signPayload({ secret, body, timestamp: now / 1000 });
+
+    expect(signed.signature).toBe(`v1=${computeSignature(secret, now / 1000, body)}`);
+    expect(verifySignature({ secret, body, ...signed, now })).toEqual({ ok: true });
+  });
+
+  it("rejects tampered bodies and wrong secrets", () => {
+    const signed = signPayload({ secret, body });
+
+    expect(verifySignature({ secret, body: `${body} `, ...signed })).toEqual({
+      ok: false,
+      reason: "signature_mismatch"
+    });
+    expect(verifySignature({ secret: "other", body, ...signed })).toEqual({
+      ok: false,
+      reason: "signature_mismatch"
+    });
+  });
+
+  it("rejects replays outside the tolerance window", () => {
+    const signedAt = Date.UTC(2026, 0, 1) / 1000;
+    const signed = signPayload({ secret, body, timestamp: signedAt });
+
+    expect(
+      verifySignature({ secret, body, ...signed, now: (signedAt + 301) * 1000 })
+    ).toEqual({ ok: false, reason: "timestamp_out_of_range" });
+    expect(
+      verifySignature({ secret, body, ...signed, now: (signedAt + 600) * 1000, toleranceSeconds: 900 })
+    ).toEqual({ ok: true });
+  });
+
+  it("accepts any matching signature during secret rotation", () => {
+    const signed = signPayload({ secret, body });
+    const rotated = signPayload({ secret: "old-secret", body, timestamp: Number(signed.timestamp) });
+
+    expect(
+      verifySignature({
+        secret,
+        body,
+        timestamp: signed.timestamp,
+        signature: `${rotated.signature}, ${signed.signature}`
+      })
+    ).toEqual({ ok: true });
+  });
+
+  it("requires signature and timestamp headers", () => {
+    expect(verifySignature({ secret, body, signature: undefined, timestamp: "1" })).toEqual({
+      ok: false,
+      reason: "missing_signature"
+    });
+    expect(verifySignature({ secret, body, signature: "v1=abc", timestamp: "nope" })).toEqual({
+      ok: false,
+      reason: "invalid_timestamp"
+    });
+  });
+});
@@ -9,6 +9,11 @@ const queueName = process.env.DELIVERY_QUEUE_NAME || "lead_delivery";
 const maxAttempts = Number(process.env.DELIVERY_MAX_ATTEMPTS || 5);
 const backoffMs = Number(process.env.DELIVERY_BACKOFF_MS || 10_000);
 
+// Mirrors tenantQueueName in apps/*/src/queue.ts: one delivery queue per client.
+function tenantQueueName(clientId: string) {
+  return `${queueName}-${clientId.replace(/:/g, "-")}`;
+}
+
 function parseNumberArg(flag: string, fallback: number) {
   const arg = process.argv.find((item) => item.startsWith(`${flag}=`));
   if (!arg) return fallback;
@@ -29,7 +34,17 @@ async function run() {
 
   const cutoff = new Date(Date.now() - olderThanMinutes * 60 * 1000);
   const pool = new Pool({ connectionString: databaseUrl });
-  const queue = new Queue(queueName, { connection: { url: redisUrl } });
+  const queues = new Map<string, Queue>();
+  const getQueue = (submissionClientId: string) => {
+    const name = tenantQueueName(submissionClientId);
+    let queue = queues.get(name);
+    if (!queue) {
+      queue = new Queue(name, { connection: { url: redisUrl } });
+      queues.set(name, queue);
+    }
+    return queue;
+  };
+  const closeQueues = () => Promise.all(Array.from(queues.values()).map((queue) => queue.close()));
 
   const result = await pool.query(
     `
@@ -48,7 +63,7 @@ async function run() {
   if (result.rows.length === 0) {
     console.log("No submissions require backfill.");
     await pool.end();
-    await queue.close();
+    await closeQueues();
     return;
   }
 
@@ -63,14 +78,14 @@ async function run() {
       continue;
     }
 
-    await queue.add(
+    await getQueue(submissionClientId).add(
       "create_lead",
       { submissionId, stepIndex: 1, clientId: submissionClientId },
       {
         jobId: `create-${submissionId}`,
         attempts: maxAttempts,
         backoff: {
-          type: "exponential",
+          type: "crm_backoff",
           delay: backoffMs
         },
         removeOnComplete: true,
@@ -89,7 +104,7 @@ async function run() {
 
   console.log(`Queued ${queued} create_lead jobs.`);
   await pool.end();
-  await queue.close();
+  await closeQueues();
 }
 
 run().catch((error) => {
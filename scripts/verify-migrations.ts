@@ -16,7 +16,8 @@ const requiredTables = [
   "programs",
   "campuses",
   "landing_pages",
-  "crm_connections"
+  "crm_connections",
+  "submission_destinations"
 ];
 
 const requiredClientIdColumns = [
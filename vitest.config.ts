@@ -4,7 +4,9 @@ import { defineConfig } from "vitest/config";
 export default defineConfig({
   resolve: {
     alias: {
-      "@lead_lander/config-schema": path.resolve(__dirname, "packages/config-schema/src/index.ts")
+      "@lead_lander/config-schema": path.resolve(__dirname, "packages/config-schema/src/index.ts"),
+      "@lead_lander/webhook-signing": path.resolve(__dirname, "packages/webhook-signing/src/index.ts"),
+      "@lead_lander/mock-crm": path.resolve(__dirname, "packages/mock-crm/src/index.ts")
     }
   },
   test: {